@@ -0,0 +1,254 @@
+// SPDX-License-Identifier: BUSL-1.1
+pragma solidity ^0.8.20;
+
+import "forge-std/Script.sol";
+import "forge-std/console.sol";
+import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import "../contracts/AgreementSignatureRepo.sol";
+import "../contracts/BullaClaimV2InvoiceProviderAdapterV2.sol";
+import "../contracts/BullaFactoring.sol";
+import "../contracts/BullaKycGate.sol";
+import "../contracts/ComplianceDepositPermissions.sol";
+import "../contracts/FactoringPermissions.sol";
+import "../contracts/ManualBullaKycIssuer.sol";
+import "../contracts/interfaces/IBullaFactoring.sol";
+import "../contracts/mocks/MockGhoToken.sol";
+import "../contracts/mocks/MockPermissions.sol";
+import "../contracts/mocks/MockSanctionsList.sol";
+import "../contracts/mocks/MockUSDC.sol";
+import "../contracts/mocks/MockZodiacRoles.sol";
+import {LockState} from "bulla-contracts-v2/src/interfaces/IBullaClaimV2.sol";
+import {BullaApprovalRegistry} from "bulla-contracts-v2/src/BullaApprovalRegistry.sol";
+import {BullaClaimV2} from "bulla-contracts-v2/src/BullaClaimV2.sol";
+import {BullaControllerRegistry} from "bulla-contracts-v2/src/BullaControllerRegistry.sol";
+import {BullaFrendLendV2} from "bulla-contracts-v2/src/BullaFrendLendV2.sol";
+import {BullaInvoice} from "bulla-contracts-v2/src/BullaInvoice.sol";
+import {CreateInvoiceParams, InterestConfig} from "bulla-contracts-v2/src/interfaces/IBullaInvoice.sol";
+import {ClaimBinding} from "bulla-contracts-v2/src/types/Types.sol";
+
+/// @notice Stands up a usable stack on a local Hardhat/Anvil node: mocks, a local BullaClaim, the adapter,
+///         a pool behind compliance permissions, funded test accounts and invoices in each lifecycle state.
+/// @dev The deployer is owner, underwriter, insurer and bullaDao. The other actors default to the
+///      well-known Anvil/Hardhat dev accounts 1-3, which both nodes prefund.
+contract DeployLocalStack is Script {
+    uint256 constant DEPOSITOR_DEFAULT_PK = 0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d;
+    uint256 constant CREDITOR_DEFAULT_PK = 0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a;
+    uint256 constant DEBTOR_DEFAULT_PK = 0x7c852118294e51e653712a81e05800f419141751be58f605c371e15141b007a6;
+
+    uint256 constant USDC = 1e6;
+    uint256 constant INVOICE_AMOUNT = 10_000 * USDC;
+    uint16 constant SPREAD_BPS = 1000;
+    uint16 constant UPFRONT_BPS = 8000;
+
+    uint256 deployerPk;
+    uint256 depositorPk;
+    uint256 creditorPk;
+    uint256 debtorPk;
+    address deployer;
+
+    MockUSDC asset;
+    BullaClaimV2 bullaClaim;
+    BullaFrendLendV2 bullaFrendLend;
+    BullaInvoice bullaInvoice;
+    BullaClaimV2InvoiceProviderAdapterV2 adapter;
+    ManualBullaKycIssuer kycIssuer;
+    AgreementSignatureRepo agreementSignatureRepo;
+    ComplianceDepositPermissions compliancePermissions;
+    FactoringPermissions factoringPermissions;
+    BullaFactoringV2_2 pool;
+
+    function run() external {
+        deployerPk = vm.envUint("DEPLOY_PK");
+        depositorPk = vm.envOr("DEV_DEPOSITOR_PK", DEPOSITOR_DEFAULT_PK);
+        creditorPk = vm.envOr("DEV_CREDITOR_PK", CREDITOR_DEFAULT_PK);
+        debtorPk = vm.envOr("DEV_DEBTOR_PK", DEBTOR_DEFAULT_PK);
+        deployer = vm.addr(deployerPk);
+
+        console.log("Deploying local stack with account:", deployer);
+        console.log("- Depositor:", vm.addr(depositorPk));
+        console.log("- Creditor:", vm.addr(creditorPk));
+        console.log("- Debtor:", vm.addr(debtorPk));
+
+        vm.startBroadcast(deployerPk);
+        _deployMocks();
+        _deployBullaClaim();
+        _deployCompliance();
+        _deployPool();
+        _seedAccounts();
+        vm.stopBroadcast();
+
+        _deposit();
+        _seedInvoices();
+
+        console.log("\n=== Local Stack Summary ===");
+        console.log("MockUSDC:", address(asset));
+        console.log("BullaClaimV2:", address(bullaClaim));
+        console.log("BullaInvoice:", address(bullaInvoice));
+        console.log("BullaClaimV2InvoiceProviderAdapterV2:", address(adapter));
+        console.log("ComplianceDepositPermissions:", address(compliancePermissions));
+        console.log("FactoringPermissions:", address(factoringPermissions));
+        console.log("BullaFactoringV2_2:", address(pool));
+        console.log("RedemptionQueue:", address(pool.getRedemptionQueue()));
+    }
+
+    function _deployMocks() internal {
+        asset = new MockUSDC();
+        console.log("MockUSDC deployed at:", address(asset));
+
+        // Not wired into the pool, but deployed so factory and GHO facilitator work can point at them
+        console.log("MockZodiacRoles deployed at:", address(new MockZodiacRoles()));
+        console.log("MockGhoToken deployed at:", address(new MockGhoToken()));
+    }
+
+    function _deployBullaClaim() internal {
+        BullaControllerRegistry controllerRegistry = new BullaControllerRegistry();
+        BullaApprovalRegistry approvalRegistry = new BullaApprovalRegistry(address(controllerRegistry));
+        MockPermissions feeExemptions = new MockPermissions();
+
+        bullaClaim = new BullaClaimV2(address(approvalRegistry), LockState.Unlocked, 0, address(feeExemptions));
+        bullaFrendLend = new BullaFrendLendV2(address(bullaClaim), deployer, 50, 0);
+        bullaInvoice = new BullaInvoice(address(bullaClaim), deployer, 50);
+        approvalRegistry.setAuthorizedContract(address(bullaClaim), true);
+        console.log("BullaClaimV2 deployed at:", address(bullaClaim));
+
+        adapter = new BullaClaimV2InvoiceProviderAdapterV2(address(bullaClaim), address(bullaFrendLend), address(bullaInvoice));
+        console.log("BullaClaimV2InvoiceProviderAdapterV2 deployed at:", address(adapter));
+    }
+
+    function _deployCompliance() internal {
+        MockSanctionsList sanctionsList = new MockSanctionsList();
+        kycIssuer = new ManualBullaKycIssuer();
+        BullaKycGate kycGate = new BullaKycGate();
+        kycGate.addIssuer(IBullaKycIssuer(address(kycIssuer)));
+        agreementSignatureRepo = new AgreementSignatureRepo(deployer);
+
+        compliancePermissions = new ComplianceDepositPermissions(
+            ISanctionsList(address(sanctionsList)),
+            IBullaKycGate(address(kycGate)),
+            IAgreementSignatureRepo(address(agreementSignatureRepo))
+        );
+        console.log("ComplianceDepositPermissions deployed at:", address(compliancePermissions));
+
+        factoringPermissions = new FactoringPermissions();
+        factoringPermissions.allow(vm.addr(creditorPk));
+    }
+
+    function _deployPool() internal {
+        pool = new BullaFactoringV2_2(
+            IERC20(address(asset)),
+            IInvoiceProviderAdapterV2(address(adapter)),
+            deployer,
+            compliancePermissions,
+            compliancePermissions,
+            factoringPermissions,
+            deployer,
+            uint16(vm.envUint("PROTOCOL_FEE_BPS")),
+            uint16(vm.envUint("ADMIN_FEE_BPS")),
+            vm.envString("POOL_NAME"),
+            uint16(vm.envUint("TARGET_YIELD_BPS")),
+            vm.envString("POOL_TOKEN_NAME"),
+            vm.envString("POOL_TOKEN_SYMBOL"),
+            deployer,
+            uint16(vm.envOr("INSURANCE_FEE_BPS", uint256(100))),
+            uint16(vm.envOr("IMPAIRMENT_GROSS_GAIN_BPS", uint256(500))),
+            uint16(vm.envOr("RECOVERY_PROFIT_RATIO_BPS", uint256(5000)))
+        );
+        console.log("BullaFactoringV2_2 deployed at:", address(pool));
+
+        bullaClaim.addToPaidCallbackWhitelist(address(pool), pool.reconcileSingleInvoice.selector);
+        console.log("Whitelisted reconcileSingleInvoice on BullaClaimV2");
+    }
+
+    function _seedAccounts() internal {
+        address depositor = vm.addr(depositorPk);
+
+        // The depositor passes compliance: KYC'd and has signed the pool's agreement (document version 0)
+        kycIssuer.approve(depositor);
+        agreementSignatureRepo.recordSignature(address(pool), 0, depositor);
+
+        asset.mint(deployer, 1_000_000 * USDC);
+        asset.mint(depositor, 1_000_000 * USDC);
+        asset.mint(vm.addr(creditorPk), 100_000 * USDC);
+        asset.mint(vm.addr(debtorPk), 100_000 * USDC);
+    }
+
+    function _deposit() internal {
+        uint256 amount = 500_000 * USDC;
+        vm.startBroadcast(depositorPk);
+        asset.approve(address(pool), amount);
+        pool.deposit(amount, vm.addr(depositorPk));
+        vm.stopBroadcast();
+        console.log("Deposited into the pool:", amount);
+    }
+
+    /// @dev One invoice per state: awaiting approval, approved, funded, and funded then paid
+    function _seedInvoices() internal {
+        uint256 pending = _createInvoice("Local invoice: awaiting approval");
+        uint256 approved = _createInvoice("Local invoice: approved");
+        uint256 funded = _createInvoice("Local invoice: funded");
+        uint256 paid = _createInvoice("Local invoice: paid");
+
+        vm.startBroadcast(deployerPk);
+        _approveInvoice(approved);
+        _approveInvoice(funded);
+        _approveInvoice(paid);
+        vm.stopBroadcast();
+
+        _fundInvoice(funded);
+        _fundInvoice(paid);
+
+        vm.startBroadcast(debtorPk);
+        asset.approve(address(bullaInvoice), INVOICE_AMOUNT);
+        bullaInvoice.payInvoice(paid, INVOICE_AMOUNT);
+        vm.stopBroadcast();
+
+        console.log("Invoice awaiting approval:", pending);
+        console.log("Invoice approved:", approved);
+        console.log("Invoice funded:", funded);
+        console.log("Invoice paid:", paid);
+    }
+
+    function _createInvoice(string memory description) internal returns (uint256 invoiceId) {
+        CreateInvoiceParams memory params = CreateInvoiceParams({
+            creditor: vm.addr(creditorPk),
+            debtor: vm.addr(debtorPk),
+            claimAmount: INVOICE_AMOUNT,
+            description: description,
+            token: address(asset),
+            dueBy: block.timestamp + 30 days,
+            deliveryDate: 0,
+            binding: ClaimBinding.Unbound,
+            lateFeeConfig: InterestConfig({ interestRateBps: 0, numberOfPeriodsPerYear: 0 }),
+            impairmentGracePeriod: 60 days,
+            depositAmount: 0
+        });
+
+        vm.startBroadcast(creditorPk);
+        invoiceId = bullaInvoice.createInvoice(params);
+        vm.stopBroadcast();
+    }
+
+    function _approveInvoice(uint256 invoiceId) internal {
+        IBullaFactoringV2_2.ApproveInvoiceParams[] memory params = new IBullaFactoringV2_2.ApproveInvoiceParams[](1);
+        params[0] = IBullaFactoringV2_2.ApproveInvoiceParams({
+            invoiceId: invoiceId,
+            targetYieldBps: pool.targetYieldBps(),
+            spreadBps: SPREAD_BPS,
+            upfrontBps: UPFRONT_BPS,
+            initialInvoiceValueOverride: 0
+        });
+        pool.approveInvoices(params);
+    }
+
+    function _fundInvoice(uint256 invoiceId) internal {
+        IBullaFactoringV2_2.FundInvoiceParams[] memory params = new IBullaFactoringV2_2.FundInvoiceParams[](1);
+        params[0] = IBullaFactoringV2_2.FundInvoiceParams({ invoiceId: invoiceId, factorerUpfrontBps: UPFRONT_BPS, receiverAddressIndex: 0 });
+        address[] memory receivers = new address[](1);
+        receivers[0] = address(0);
+
+        vm.startBroadcast(creditorPk);
+        IERC721(address(bullaInvoice)).approve(address(pool), invoiceId);
+        pool.fundInvoices(params, receivers);
+        vm.stopBroadcast();
+    }
+}
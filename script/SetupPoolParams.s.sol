@@ -0,0 +1,83 @@
+// SPDX-License-Identifier: BUSL-1.1
+pragma solidity ^0.8.20;
+
+import "forge-std/Script.sol";
+import "forge-std/console.sol";
+
+interface IERC20 {
+    function approve(address spender, uint256 amount) external returns (bool);
+}
+
+interface IBullaFactoringParams {
+    function gracePeriodDays() external view returns (uint256);
+    function setGracePeriodDays(uint256 _days) external;
+    function approvalDuration() external view returns (uint256);
+    function setApprovalDuration(uint256 _duration) external;
+    function getRedemptionQueue() external view returns (address);
+    function assetAddress() external view returns (IERC20);
+    function impairReserve() external view returns (uint256);
+    function setImpairReserve(uint256 _impairReserve) external;
+}
+
+interface IRedemptionQueueParams {
+    function maxQueueSize() external view returns (uint256);
+    function setMaxQueueSize(uint256 _maxQueueSize) external;
+}
+
+/// @notice Brings a pool's operational parameters in line with config, sending only the transactions needed
+/// @dev Parameters are optional; the TypeScript wrapper only sets the env vars for values that differ on-chain
+contract SetupPoolParams is Script {
+    uint256 constant UNSET = type(uint256).max;
+
+    function run() external {
+        address bullaFactoringAddress = vm.envAddress("BULLA_FACTORING_ADDRESS");
+        uint256 gracePeriodDays = vm.envOr("GRACE_PERIOD_DAYS", UNSET);
+        uint256 approvalDuration = vm.envOr("APPROVAL_DURATION", UNSET);
+        uint256 maxQueueSize = vm.envOr("MAX_QUEUE_SIZE", UNSET);
+        uint256 impairReserve = vm.envOr("IMPAIR_RESERVE", UNSET);
+
+        uint256 deployerPrivateKey = vm.envUint("DEPLOY_PK");
+        IBullaFactoringParams factoring = IBullaFactoringParams(bullaFactoringAddress);
+
+        console.log("Setting up pool parameters with:");
+        console.log("- Owner:", vm.addr(deployerPrivateKey));
+        console.log("- BullaFactoring:", bullaFactoringAddress);
+
+        vm.startBroadcast(deployerPrivateKey);
+
+        if (gracePeriodDays != UNSET && factoring.gracePeriodDays() != gracePeriodDays) {
+            console.log("Setting grace period days:", gracePeriodDays);
+            factoring.setGracePeriodDays(gracePeriodDays);
+        }
+
+        if (approvalDuration != UNSET && factoring.approvalDuration() != approvalDuration) {
+            console.log("Setting approval duration:", approvalDuration);
+            factoring.setApprovalDuration(approvalDuration);
+        }
+
+        if (maxQueueSize != UNSET) {
+            IRedemptionQueueParams queue = IRedemptionQueueParams(factoring.getRedemptionQueue());
+            if (queue.maxQueueSize() != maxQueueSize) {
+                console.log("Setting redemption queue max size:", maxQueueSize);
+                queue.setMaxQueueSize(maxQueueSize);
+            }
+        }
+
+        if (impairReserve != UNSET) {
+            uint256 currentImpairReserve = factoring.impairReserve();
+            if (currentImpairReserve != impairReserve) {
+                // Raising the reserve pulls the difference from the caller
+                if (impairReserve > currentImpairReserve) {
+                    bool approvalSuccess = factoring.assetAddress().approve(bullaFactoringAddress, impairReserve - currentImpairReserve);
+                    require(approvalSuccess, "Token approval failed");
+                }
+                console.log("Setting impair reserve:", impairReserve);
+                factoring.setImpairReserve(impairReserve);
+            }
+        }
+
+        vm.stopBroadcast();
+
+        console.log("Pool parameters are up to date");
+    }
+}
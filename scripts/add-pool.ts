@@ -0,0 +1,200 @@
+import { utils } from 'ethers';
+import {
+    DEFAULT_IMPAIRMENT_GROSS_GAIN_BPS,
+    DEFAULT_INSURANCE_FEE_BPS,
+    DEFAULT_PROTOCOL_FEE_BPS,
+    DEFAULT_RECOVERY_PROFIT_RATIO_BPS,
+    DeployedPoolConfig,
+    getInsuranceParamsErrors,
+    getPoolConfigs,
+    PoolConfig,
+    PoolName,
+} from './network-config';
+import { assertCanPrompt, getArgValue, InputError, isNonInteractive } from './utils/cli';
+import { getNetworkInteractive, promptInput } from './utils/interactive-prompt';
+import { runScript } from './utils/script-runner';
+import { addPoolDeployment } from './utils/update-config';
+
+/** Pool names become registry keys, POOL env values and CLI arguments, so keep them simple */
+const POOL_NAME_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+const MAX_BPS = 10000;
+
+/** Network-agnostic pool parameters, in prompt order */
+const POOL_PARAMS: { field: keyof PoolConfig; flag: string; label: string; defaultValue?: number }[] = [
+    { field: 'protocolFeeBps', flag: '--protocol-fee-bps', label: 'Protocol fee', defaultValue: DEFAULT_PROTOCOL_FEE_BPS },
+    { field: 'adminFeeBps', flag: '--admin-fee-bps', label: 'Admin fee' },
+    { field: 'targetYieldBps', flag: '--target-yield-bps', label: 'Target yield' },
+    { field: 'insuranceFeeBps', flag: '--insurance-fee-bps', label: 'Insurance fee', defaultValue: DEFAULT_INSURANCE_FEE_BPS },
+    {
+        field: 'impairmentGrossGainBps',
+        flag: '--impairment-gross-gain-bps',
+        label: 'Impairment gross gain',
+        defaultValue: DEFAULT_IMPAIRMENT_GROSS_GAIN_BPS,
+    },
+    {
+        field: 'recoveryProfitRatioBps',
+        flag: '--recovery-profit-ratio-bps',
+        label: 'Recovery profit ratio',
+        defaultValue: DEFAULT_RECOVERY_PROFIT_RATIO_BPS,
+    },
+];
+
+export type AddPoolOptions = {
+    network: string;
+    pool: PoolName;
+    /** Required when the pool name is new; must match the existing values otherwise */
+    poolConfig?: PoolConfig;
+    underlyingAsset: string;
+    poolDisplayName: string;
+    poolTokenName: string;
+    poolTokenSymbol: string;
+    underwriter: string;
+    insurer: string;
+};
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function parseAddress(label: string, value: string): string {
+    try {
+        return utils.getAddress(value);
+    } catch {
+        throw new InputError(`${label} is not a valid address: ${value}`);
+    }
+}
+
+function parseBps(label: string, value: string): number {
+    const bps = Number(value);
+    if (value === '' || !Number.isInteger(bps) || bps < 0 || bps > MAX_BPS) {
+        throw new InputError(`${label} must be an integer between 0 and ${MAX_BPS}, got '${value}'`);
+    }
+    return bps;
+}
+
+function parseRequired(label: string, value: string): string {
+    if (!value) {
+        throw new InputError(`${label} is required`);
+    }
+    return value;
+}
+
+/**
+ * Use the flag value if present, otherwise prompt for it (or take the default in non-interactive mode)
+ */
+async function flagOrPrompt(flag: string, question: string, defaultValue?: string): Promise<string> {
+    const value = getArgValue(flag);
+    if (value !== undefined) {
+        return value;
+    }
+    if (isNonInteractive() && defaultValue !== undefined) {
+        return defaultValue;
+    }
+    assertCanPrompt(question.replace(/^\W+/, ''), [flag]);
+    const answer = await promptInput(defaultValue !== undefined ? `${question} [${defaultValue}]:` : `${question}:`);
+    return answer || defaultValue || '';
+}
+
+// ============================================================================
+// Workflow
+// ============================================================================
+
+/**
+ * Add pool workflow (can be called with parameters or standalone)
+ * Writes the pool to config/deployments.json, where getAvailablePools() and the deploy scripts pick it up.
+ */
+export function addPoolWorkflow(options: AddPoolOptions): void {
+    if (!POOL_NAME_PATTERN.test(options.pool)) {
+        throw new InputError(`Invalid pool name '${options.pool}': use lowercase letters, digits and dashes, starting with a letter`);
+    }
+
+    const insuranceErrors = options.poolConfig ? getInsuranceParamsErrors(options.poolConfig) : [];
+    if (insuranceErrors.length > 0) {
+        throw new InputError(`Invalid insurance parameters:\n   ${insuranceErrors.join('\n   ')}`);
+    }
+
+    const deployedPool: DeployedPoolConfig = {
+        underlyingAsset: parseAddress('Underlying asset', options.underlyingAsset),
+        poolDisplayName: parseRequired('Pool display name', options.poolDisplayName),
+        poolTokenName: parseRequired('Pool token name', options.poolTokenName),
+        poolTokenSymbol: parseRequired('Pool token symbol', options.poolTokenSymbol),
+        underwriter: parseAddress('Underwriter', options.underwriter),
+        insurer: parseAddress('Insurer', options.insurer),
+        writeNewAddresses: true,
+    };
+
+    console.log('📋 New Pool:');
+    console.log(`   Network: ${options.network}`);
+    console.log(`   Pool: ${options.pool}`);
+    if (options.poolConfig) {
+        console.log(`   Protocol Fee: ${options.poolConfig.protocolFeeBps} bps`);
+        console.log(`   Admin Fee: ${options.poolConfig.adminFeeBps} bps`);
+        console.log(`   Target Yield: ${options.poolConfig.targetYieldBps} bps`);
+        console.log(`   Insurance Fee: ${options.poolConfig.insuranceFeeBps} bps`);
+        console.log(`   Impairment Gross Gain: ${options.poolConfig.impairmentGrossGainBps} bps`);
+        console.log(`   Recovery Profit Ratio: ${options.poolConfig.recoveryProfitRatioBps} bps`);
+    }
+    console.log(`   Underlying Asset: ${deployedPool.underlyingAsset}`);
+    console.log(`   Display Name: ${deployedPool.poolDisplayName}`);
+    console.log(`   Token: ${deployedPool.poolTokenName} (${deployedPool.poolTokenSymbol})`);
+    console.log(`   Underwriter: ${deployedPool.underwriter}`);
+    console.log(`   Insurer: ${deployedPool.insurer}\n`);
+
+    addPoolDeployment(options.network, options.pool, options.poolConfig, deployedPool);
+
+    console.log('\n📝 Next steps:');
+    console.log(`   1. Review the new entry in config/deployments.json and run \`yarn validate-config\``);
+    console.log(`   2. Deploy it with \`NETWORK=${options.network} POOL=${options.pool} yarn deploy:full\``);
+}
+
+/**
+ * Launcher: take pool details from flags, prompting for anything missing, then run workflow
+ * Flags: --network, --name, --protocol-fee-bps, --admin-fee-bps, --target-yield-bps, --insurance-fee-bps,
+ *        --impairment-gross-gain-bps, --recovery-profit-ratio-bps, --asset, --display-name, --token-name,
+ *        --token-symbol, --underwriter, --insurer
+ */
+export async function addPoolLauncher(): Promise<void> {
+    await runScript('add-pool', async context => {
+        const network = await getNetworkInteractive();
+        context.network = network;
+
+        const pool = await flagOrPrompt('--name', '📊 Pool name (e.g. tcs)');
+        context.pool = pool;
+
+        // Fee parameters are shared across networks, so an existing pool name reuses them
+        const existingPoolConfig = getPoolConfigs()[pool];
+        const feeFlagsGiven = POOL_PARAMS.some(param => getArgValue(param.flag) !== undefined);
+        let poolConfig: PoolConfig | undefined;
+        if (existingPoolConfig && !feeFlagsGiven) {
+            console.log(`\nℹ️  Pool '${pool}' already has fee parameters, reusing them: ${JSON.stringify(existingPoolConfig)}`);
+        } else {
+            const values = {} as PoolConfig;
+            for (const param of POOL_PARAMS) {
+                const defaultValue = existingPoolConfig?.[param.field] ?? param.defaultValue;
+                values[param.field] = parseBps(
+                    param.label,
+                    await flagOrPrompt(param.flag, `${param.label} (bps)`, defaultValue?.toString()),
+                );
+            }
+            poolConfig = values;
+        }
+
+        addPoolWorkflow({
+            network,
+            pool,
+            poolConfig,
+            underlyingAsset: await flagOrPrompt('--asset', 'Underlying asset address'),
+            poolDisplayName: await flagOrPrompt('--display-name', 'Pool display name'),
+            poolTokenName: await flagOrPrompt('--token-name', 'Pool token name'),
+            poolTokenSymbol: await flagOrPrompt('--token-symbol', 'Pool token symbol'),
+            underwriter: await flagOrPrompt('--underwriter', 'Underwriter address'),
+            insurer: await flagOrPrompt('--insurer', 'Insurer address'),
+        });
+    });
+}
+
+// Only run launcher if this script is run directly
+if (require.main === module) {
+    addPoolLauncher();
+}
@@ -1,18 +1,36 @@
-import hre, { ethers } from 'hardhat';
+import { ethers } from 'hardhat';
 import depositPermissionsABI from '../artifacts/contracts/DepositPermissions.sol/DepositPermissions.json';
 import factoringPermissionsABI from '../artifacts/contracts/FactoringPermissions.sol/FactoringPermissions.json';
 import { getNetworkFromEnv } from './deploy-utils';
 import { getNetworkConfig } from './network-config';
 import { getLineReader } from './utils';
+import { assertCanPrompt, getInput, InputError } from './utils/cli';
+import { isProposeMode, resolveSafeAddress, writeSafeBatches } from './utils/safe-batch';
+import { runScript, ScriptContext } from './utils/script-runner';
+import { getSignerWallet } from './utils/signer';
 
-export const updatePermissions = async function () {
-    const { getNamedAccounts, getChainId } = hre;
-    const { deployer } = await getNamedAccounts();
-    const lineReader = getLineReader();
-    const signer = await ethers.getSigner(deployer);
+/**
+ * Read an address from its flag or environment variable, prompting when neither is set
+ * @throws InputError if the address is missing in non-interactive mode, or invalid
+ */
+const getAddressInput = async function (label: string, flag: string, envVar: string): Promise<string> {
+    let address = getInput(flag, envVar);
+    if (!address) {
+        assertCanPrompt(`${label} address`, [`${flag} <address>`, `${envVar}=<address>`]);
+        const lineReader = getLineReader();
+        address = await new Promise<string>(resolve => lineReader.question(`${label} address to approve?: \n...\n`, resolve));
+    }
+
+    if (!address || !ethers.utils.isAddress(address)) {
+        throw new InputError(`No valid ${label} address provided to approve, got '${address || ''}'`);
+    }
+    return address;
+};
 
+export const updatePermissions = async function (context: ScriptContext) {
     // Get the network from environment variable
     const network = getNetworkFromEnv();
+    context.network = network;
     console.log(`Using network: ${network}`);
 
     // Get the configuration for the specified network
@@ -29,32 +47,40 @@ export const updatePermissions = async function () {
         throw new Error('Missing permission contract addresses in network config');
     }
 
-    // Grant Deposit and Factoring Permissions
-    const depositPermissionsContract = new ethers.Contract(depositPermissionsAddress, depositPermissionsABI.abi, signer);
-    const factoringPermissionsContract = new ethers.Contract(factoringPermissionsAddress, factoringPermissionsABI.abi, signer);
+    const addressToApproveDeposit = await getAddressInput('deposit', '--deposit-address', 'DEPOSIT_ADDRESS');
+    const addressToApproveFactoring = await getAddressInput('factoring', '--factoring-address', 'FACTORING_ADDRESS');
+    context.details = { depositApproved: addressToApproveDeposit, factoringApproved: addressToApproveFactoring };
 
-    let addressToApproveDeposit: string | undefined = await new Promise(resolve =>
-        lineReader.question('deposit address to approve?: \n...\n', address => {
-            resolve(address ? address : undefined);
-        }),
-    );
-    if (!addressToApproveDeposit) {
-        console.error('No address provided to approve. Please provide an address as a command-line argument.');
+    if (isProposeMode()) {
+        writeSafeBatches(network, 'apply-permissions', `Grant deposit and factoring permissions for ${bullaFactoringAddress}`, [
+            {
+                to: depositPermissionsAddress,
+                contractLabel: 'DepositPermissions',
+                signature: 'function allow(address _address)',
+                args: [addressToApproveDeposit],
+                safe: await resolveSafeAddress(ethers.provider, depositPermissionsAddress),
+            },
+            {
+                to: factoringPermissionsAddress,
+                contractLabel: 'FactoringPermissions',
+                signature: 'function allow(address _address)',
+                args: [addressToApproveFactoring],
+                safe: await resolveSafeAddress(ethers.provider, factoringPermissionsAddress),
+            },
+        ]);
         return;
     }
 
-    let addressToApproveFactoring: string | undefined = await new Promise(resolve =>
-        lineReader.question('factoring address to approve?: \n...\n', address => {
-            resolve(address ? address : undefined);
-        }),
-    );
-    if (!addressToApproveFactoring) {
-        console.error('No address provided to approve. Please provide an address as a command-line argument.');
-        return;
-    }
+    // Grant Deposit and Factoring Permissions
+    const signer = await getSignerWallet(ethers.provider);
+    console.log(`🔑 Signer: ${signer.address}`);
+    const depositPermissionsContract = new ethers.Contract(depositPermissionsAddress, depositPermissionsABI.abi, signer);
+    const factoringPermissionsContract = new ethers.Contract(factoringPermissionsAddress, factoringPermissionsABI.abi, signer);
 
-    await depositPermissionsContract.allow(addressToApproveDeposit);
-    await factoringPermissionsContract.allow(addressToApproveFactoring);
+    const depositTx = await depositPermissionsContract.allow(addressToApproveDeposit);
+    context.txHashes.push(depositTx.hash);
+    const factoringTx = await factoringPermissionsContract.allow(addressToApproveFactoring);
+    context.txHashes.push(factoringTx.hash);
 
     console.log('For the following Factoring Contract : \n', bullaFactoringAddress);
     console.log('Deposit Permissions granted to : \n', addressToApproveDeposit);
@@ -63,10 +89,5 @@ export const updatePermissions = async function () {
 
 // Only run the function if this script is being executed directly
 if (require.main === module) {
-    updatePermissions()
-        .then(() => process.exit(0))
-        .catch(error => {
-            console.error(error);
-            process.exit(1);
-        });
+    runScript('apply-permissions', updatePermissions);
 }
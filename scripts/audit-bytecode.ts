@@ -0,0 +1,272 @@
+import { providers } from 'ethers';
+import { getAvailableNetworks, getAvailablePools, getDeployedPoolConfig, getNetworkOnlyConfig, NetworkConfig } from './network-config';
+import { listForgeArtifacts, normalizeRuntimeBytecode } from './utils/artifacts';
+import { getArgValue } from './utils/cli';
+import { setupGracefulExit } from './utils/interactive-deploy';
+import { getProvider } from './utils/rpc';
+import { runScript } from './utils/script-runner';
+
+// Confirms that the contracts in config/deployments.json run the code compiled from this repo's sources:
+// each address's runtime code is compared with its artifact's, ignoring immutables and the metadata hash.
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * match: the code is one of the expected contracts
+ * mismatch: the code differs from every expected contract that has an artifact
+ * unknown: the code matches no artifact, and an expected contract has none to compare with (e.g. a version since removed)
+ * missing: there is no code at the address
+ */
+export type BytecodeAuditStatus = 'match' | 'mismatch' | 'unknown' | 'missing';
+
+export type BytecodeAuditEntry = {
+    network: string;
+    /** Pool the address belongs to; undefined for network-wide contracts */
+    pool?: string;
+    /** Config field the address comes from, e.g. bullaFactoringAddress */
+    field: string;
+    address: string;
+    /** Contracts the address may legitimately run, from the newest version */
+    expected: string[];
+    status: BytecodeAuditStatus;
+    /** Artifact the code matched, which differs from `expected` when the address runs another contract entirely */
+    matchedContract?: string;
+    /** Runtime code size in bytes, on-chain */
+    codeSize?: number;
+    note?: string;
+};
+
+type AuditTarget = Pick<BytecodeAuditEntry, 'network' | 'pool' | 'field' | 'address' | 'expected'>;
+
+/** Permissions contracts a pool can be configured with */
+const PERMISSIONS_CONTRACTS = ['PermissionsWithSafe', 'PermissionsWithAragon'];
+
+/** Network-wide contracts, by config field; the sanctions list is left out as mainnet uses Chainalysis' */
+const NETWORK_CONTRACTS: { field: keyof NetworkConfig; expected: string[] }[] = [
+    { field: 'BullaClaimInvoiceProviderAdapterAddress', expected: ['BullaClaimV2InvoiceProviderAdapterV2'] },
+    { field: 'bullaFactoringFactoryAddress', expected: ['BullaFactoringFactoryV2_1'] },
+    { field: 'sumsubKycIssuerAddress', expected: ['SumsubKycIssuer'] },
+    { field: 'agreementSignatureRepoAddress', expected: ['AgreementSignatureRepo'] },
+    { field: 'bullaKycGateAddress', expected: ['BullaKycGate'] },
+    { field: 'complianceDepositPermissionsAddress', expected: ['ComplianceDepositPermissions'] },
+];
+
+/** Pools that have not been migrated may still run BullaFactoringV2_1, whose source has since been removed */
+const POOL_CONTRACTS = ['BullaFactoringV2_2', 'BullaFactoringV2_1'];
+
+// ============================================================================
+// Auditing
+// ============================================================================
+
+/**
+ * Every configured address on a network, with the contracts each may run
+ * @param poolFilter Only this pool's addresses, plus the network-wide ones
+ */
+export function getAuditTargets(network: string, poolFilter?: string): AuditTarget[] {
+    const networkConfig = getNetworkOnlyConfig(network);
+    const targets: AuditTarget[] = [];
+    const add = (field: string, address: string | undefined, expected: string[], pool?: string): void => {
+        if (address && address !== '0x0000000000000000000000000000000000000000') {
+            targets.push({ network, pool, field, address, expected });
+        }
+    };
+
+    for (const { field, expected } of NETWORK_CONTRACTS) {
+        add(field, networkConfig[field], expected);
+    }
+
+    for (const pool of getAvailablePools(network).filter(pool => !poolFilter || pool === poolFilter)) {
+        const poolConfig = getDeployedPoolConfig(network, pool);
+        if (!poolConfig) {
+            continue;
+        }
+        add('bullaFactoringAddress', poolConfig.bullaFactoringAddress, POOL_CONTRACTS, pool);
+        add(
+            'factoringPermissionsAddress',
+            poolConfig.factoringPermissionsAddress,
+            ['FactoringPermissions', ...PERMISSIONS_CONTRACTS],
+            pool,
+        );
+        for (const field of ['depositPermissionsAddress', 'redeemPermissionsAddress'] as const) {
+            add(field, poolConfig[field], ['DepositPermissions', 'ComplianceDepositPermissions', ...PERMISSIONS_CONTRACTS], pool);
+        }
+        for (const deprecated of poolConfig.deprecatedDeployments || []) {
+            add('deprecatedDeployments', deprecated.bullaFactoringAddress, [deprecated.contractName], pool);
+        }
+    }
+
+    // Permissions shared between deposits and redemptions are audited once
+    return targets.filter(
+        (target, i) =>
+            !targets
+                .slice(0, i)
+                .some(earlier => earlier.address.toLowerCase() === target.address.toLowerCase() && earlier.pool === target.pool),
+    );
+}
+
+/**
+ * Normalized runtime code of every compiled contract that has any, keyed by contract name
+ * A name compiled from more than one source keeps every variant.
+ */
+function getArtifactRuntimeCode(): Map<string, string[]> {
+    const runtimeCode = new Map<string, string[]>();
+    for (const { contractName, artifact } of listForgeArtifacts()) {
+        const object = artifact.deployedBytecode?.object || '';
+        if (object === '' || object === '0x' || object.includes('__$')) {
+            continue;
+        }
+        const code = normalizeRuntimeBytecode(object, artifact.deployedBytecode?.immutableReferences);
+        runtimeCode.set(contractName, [...(runtimeCode.get(contractName) || []), code]);
+    }
+    return runtimeCode;
+}
+
+/**
+ * Compare the code at an address with the artifacts of the contracts it may run
+ * Immutables are at the same offsets in every deployment of a contract, so each candidate's references are applied to the
+ * on-chain code before comparing.
+ */
+export async function auditAddress(
+    provider: providers.Provider,
+    target: AuditTarget,
+    runtimeCode: Map<string, string[]> = getArtifactRuntimeCode(),
+): Promise<BytecodeAuditEntry> {
+    const onChain = await provider.getCode(target.address);
+    if (onChain === '0x') {
+        return { ...target, status: 'missing', note: 'No contract deployed at this address' };
+    }
+    const codeSize = (onChain.length - 2) / 2;
+
+    const artifacts = listForgeArtifacts();
+    const matches = (contractName: string): boolean =>
+        artifacts
+            .filter(located => located.contractName === contractName && runtimeCode.has(contractName))
+            .some(located =>
+                runtimeCode
+                    .get(contractName)!
+                    .includes(normalizeRuntimeBytecode(onChain, located.artifact.deployedBytecode?.immutableReferences)),
+            );
+
+    const matchedExpected = target.expected.find(matches);
+    if (matchedExpected) {
+        return { ...target, status: 'match', matchedContract: matchedExpected, codeSize };
+    }
+
+    const matchedOther = Array.from(runtimeCode.keys()).find(matches);
+    if (matchedOther) {
+        return {
+            ...target,
+            status: 'mismatch',
+            matchedContract: matchedOther,
+            codeSize,
+            note: `Runs ${matchedOther}, expected ${target.expected.join(' or ')}`,
+        };
+    }
+
+    const uncompiled = target.expected.filter(contractName => !runtimeCode.has(contractName));
+    if (uncompiled.length > 0) {
+        return {
+            ...target,
+            status: 'unknown',
+            codeSize,
+            note: `Matches no compiled contract; no artifact for ${uncompiled.join(', ')} to compare with`,
+        };
+    }
+    return { ...target, status: 'mismatch', codeSize, note: `Differs from the compiled ${target.expected.join(' and ')}` };
+}
+
+/**
+ * Audit every configured address on a network
+ * Takes the provider as a parameter so it can run against any node, including a local Hardhat node.
+ */
+export async function auditNetworkBytecode(
+    provider: providers.Provider,
+    network: string,
+    poolFilter?: string,
+): Promise<BytecodeAuditEntry[]> {
+    const runtimeCode = getArtifactRuntimeCode();
+    const entries: BytecodeAuditEntry[] = [];
+    for (const target of getAuditTargets(network, poolFilter)) {
+        entries.push(await auditAddress(provider, target, runtimeCode));
+    }
+    return entries;
+}
+
+// ============================================================================
+// Output
+// ============================================================================
+
+const STATUS_ICONS: Record<BytecodeAuditStatus, string> = {
+    match: '✅',
+    mismatch: '❌',
+    unknown: '❔',
+    missing: '⚠️ ',
+};
+
+/**
+ * Print audit results grouped by network and pool
+ */
+export function printBytecodeAudit(entries: BytecodeAuditEntry[]): void {
+    const groups = Array.from(new Set(entries.map(entry => `${entry.network}${entry.pool ? `/${entry.pool}` : ''}`)));
+    const width = Math.max(0, ...entries.map(entry => entry.field.length));
+
+    for (const group of groups) {
+        console.log(`\n📋 ${group}`);
+        for (const entry of entries.filter(entry => `${entry.network}${entry.pool ? `/${entry.pool}` : ''}` === group)) {
+            const detail = entry.status === 'match' ? entry.matchedContract : entry.note;
+            console.log(`   ${STATUS_ICONS[entry.status]} ${entry.field.padEnd(width)}  ${entry.address}  ${detail}`);
+        }
+    }
+
+    const count = (status: BytecodeAuditStatus): number => entries.filter(entry => entry.status === status).length;
+    console.log(
+        `\n${entries.length} address(es): ${count('match')} match, ${count('mismatch')} mismatch, ${count('unknown')} unknown, ${count(
+            'missing',
+        )} without code`,
+    );
+}
+
+// ============================================================================
+// Launcher
+// ============================================================================
+
+/**
+ * Launcher: audit every network in config, or the one selected with --network (and --pool)
+ * Options: --rpc-url to point at a specific node, --json for a machine-readable result
+ * Run `yarn build:forge` first; fails when any address runs code other than expected or has none.
+ */
+export async function auditBytecodeLauncher(): Promise<void> {
+    await runScript('audit-bytecode', async context => {
+        const rpcUrlOverride = getArgValue('--rpc-url');
+        const networkFilter = getArgValue('--network');
+        const poolFilter = getArgValue('--pool');
+        context.network = networkFilter;
+        context.pool = poolFilter;
+
+        const entries: BytecodeAuditEntry[] = [];
+        for (const network of networkFilter ? [networkFilter] : getAvailableNetworks()) {
+            if (getAuditTargets(network, poolFilter).length === 0) {
+                continue;
+            }
+            console.log(`🔍 Auditing ${network}...`);
+            const provider = rpcUrlOverride ? new providers.StaticJsonRpcProvider(rpcUrlOverride) : await getProvider(network);
+            entries.push(...(await auditNetworkBytecode(provider, network, poolFilter)));
+        }
+
+        context.details.audit = entries;
+        printBytecodeAudit(entries);
+
+        const failed = entries.filter(entry => entry.status === 'mismatch' || entry.status === 'missing');
+        if (failed.length > 0) {
+            throw new Error(`${failed.length} address(es) do not run the expected code`);
+        }
+    });
+}
+
+// Only run launcher if this script is run directly
+if (require.main === module) {
+    setupGracefulExit();
+    auditBytecodeLauncher();
+}
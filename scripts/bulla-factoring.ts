@@ -0,0 +1,714 @@
+import { getAvailableNetworks, getAvailablePools } from './network-config';
+import { EXIT_CODES, getArgValue, InputError } from './utils/cli';
+import { setupGracefulExit } from './utils/interactive-deploy';
+import { runScript } from './utils/script-runner';
+
+// One entry point for every script: `bulla-factoring <group> <command> [options]`.
+// Each command runs its script's own launcher, which reads its inputs from the command line exactly as when the script
+// is run directly, so `bulla-factoring deploy factory --network sepolia` behaves like `yarn deploy:factory --network sepolia`.
+// Scripts are only loaded when their command runs.
+
+const CLI_NAME = 'bulla-factoring';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type CommandOption = {
+    flag: string;
+    /** Placeholder for the option's value, e.g. <address>; omitted for boolean flags */
+    value?: string;
+    /** Environment variable the option falls back to */
+    env?: string;
+    description: string;
+};
+
+type Command = {
+    name: string;
+    description: string;
+    /** package.json script that runs the same launcher */
+    script: string;
+    options?: CommandOption[];
+    run(): Promise<void> | void;
+};
+
+type CommandGroup = {
+    name: string;
+    description: string;
+    commands: Command[];
+};
+
+// ============================================================================
+// Options
+// ============================================================================
+
+/** Read by every script through the shared input helpers, so they are accepted by every command */
+const GLOBAL_OPTIONS: CommandOption[] = [
+    { flag: '--network', value: '<network>', env: 'NETWORK', description: 'Network to run on; prompted for when omitted' },
+    { flag: '--pool', value: '<pool>', env: 'POOL', description: 'Pool to run on, for pool commands; prompted for when omitted' },
+    { flag: '--keystore', value: '<path>', env: 'ETH_KEYSTORE', description: 'Foundry keystore to sign with (or DEPLOY_PK)' },
+    { flag: '--account', value: '<name>', env: 'ETH_KEYSTORE_ACCOUNT', description: 'Account in ~/.foundry/keystores to sign with' },
+    { flag: '--password-file', value: '<path>', env: 'ETH_PASSWORD', description: 'File holding the keystore password' },
+    { flag: '--json', description: 'Print a single JSON result to stdout; logs go to stderr' },
+    { flag: '--non-interactive', env: 'NON_INTERACTIVE', description: 'Fail on a missing input instead of prompting' },
+    { flag: '--help', description: 'Show help for a group or command' },
+];
+
+const DRY_RUN_OPTION: CommandOption = {
+    flag: '--dry-run',
+    description: 'Simulate the forge script and print the plan, without broadcasting',
+};
+
+const PROPOSE_OPTIONS: CommandOption[] = [
+    { flag: '--propose', env: 'PROPOSE', description: 'Write a Safe Transaction Builder batch instead of sending' },
+    { flag: '--safe', value: '<address>', env: 'SAFE_ADDRESS', description: 'Safe to propose owner calls from, if not owner()' },
+];
+
+const DAO_SAFE_OPTION: CommandOption = {
+    flag: '--dao-safe',
+    value: '<address>',
+    env: 'DAO_SAFE_ADDRESS',
+    description: 'Safe to propose bullaDao calls from, if not bullaDao()',
+};
+
+const RPC_URL_OPTION: CommandOption = {
+    flag: '--rpc-url',
+    value: '<url>',
+    description: 'Node to query instead of the network RPC, e.g. a local Hardhat node',
+};
+
+/**
+ * Scripts written for `hardhat run` take their network from HARDHAT_NETWORK, which `--network` sets there
+ */
+function useHardhatNetwork(): void {
+    const network = getArgValue('--network');
+    if (network) {
+        process.env.HARDHAT_NETWORK = network;
+        process.env.NETWORK = network;
+    }
+}
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+const COMMAND_GROUPS: CommandGroup[] = [
+    {
+        name: 'deploy',
+        description: 'Deploy network-wide contracts and pools',
+        commands: [
+            {
+                name: 'full',
+                description: 'Deploy everything for a pool and configure it, resuming at the first incomplete step',
+                script: 'deploy:full',
+                options: [
+                    { flag: '--from-step', value: '<step>', description: 'Rerun from this step (id or number) on' },
+                    { flag: '--force-step', value: '<steps>', description: 'Rerun these steps (ids or numbers, comma-separated)' },
+                    DRY_RUN_OPTION,
+                ],
+                run: async () => runScript('full-deploy', (await import('./full-deploy-flow')).fullDeployFlow),
+            },
+            {
+                name: 'adapter',
+                description: 'Deploy the BullaClaim invoice provider adapter',
+                script: 'deploy:adapter',
+                options: [DRY_RUN_OPTION],
+                run: async () => (await import('./deploy-adapter')).deployAdapterLauncher(),
+            },
+            {
+                name: 'factory',
+                description: 'Deploy the BullaFactoring factory',
+                script: 'deploy:factory',
+                options: [DRY_RUN_OPTION],
+                run: async () => (await import('./deploy-bullaFactoringFactory')).deployFactoryLauncher(),
+            },
+            {
+                name: 'factoring',
+                description: "Deploy a pool's BullaFactoring contract directly, without the factory",
+                script: 'ts-node scripts/deploy-bullaFactoring.ts',
+                options: [DRY_RUN_OPTION],
+                run: async () => (await import('./deploy-bullaFactoring')).deployFactoringLauncher(),
+            },
+            {
+                name: 'local',
+                description: 'Deploy a usable stack to a local Hardhat or Anvil node',
+                script: 'dev:local',
+                run: async () => (await import('./dev-local')).devLocalLauncher(),
+            },
+            {
+                name: 'estimate-gas',
+                description: "Price a pool's deployment plan on a network",
+                script: 'estimate-gas',
+                options: [
+                    { flag: '--gas-price', value: '<gwei>', env: 'GAS_PRICE_GWEI', description: 'Gas price instead of the current one' },
+                    { flag: '--from', value: '<address>', env: 'DEPLOYER_ADDRESS', description: 'Deployer to simulate (default bullaDao)' },
+                    { flag: '--all', description: 'Also price contracts already deployed' },
+                ],
+                run: async () => (await import('./estimate-gas')).estimateGasLauncher(),
+            },
+        ],
+    },
+    {
+        name: 'pool',
+        description: 'Create, configure and migrate pools',
+        commands: [
+            {
+                name: 'add',
+                description: 'Add a pool to config/deployments.json',
+                script: 'add-pool',
+                options: [
+                    { flag: '--name', value: '<pool>', description: 'Pool name, e.g. tcs' },
+                    { flag: '--protocol-fee-bps', value: '<bps>', description: 'Protocol fee' },
+                    { flag: '--admin-fee-bps', value: '<bps>', description: 'Admin fee' },
+                    { flag: '--target-yield-bps', value: '<bps>', description: 'Target yield' },
+                    { flag: '--insurance-fee-bps', value: '<bps>', description: 'Insurance fee' },
+                    { flag: '--impairment-gross-gain-bps', value: '<bps>', description: 'Impairment gross gain' },
+                    { flag: '--recovery-profit-ratio-bps', value: '<bps>', description: 'Recovery profit ratio' },
+                    { flag: '--asset', value: '<address>', description: 'Underlying asset' },
+                    { flag: '--display-name', value: '<name>', description: 'Pool display name' },
+                    { flag: '--token-name', value: '<name>', description: 'Pool token name' },
+                    { flag: '--token-symbol', value: '<symbol>', description: 'Pool token symbol' },
+                    { flag: '--underwriter', value: '<address>', description: 'Underwriter' },
+                    { flag: '--insurer', value: '<address>', description: 'Insurer' },
+                ],
+                run: async () => (await import('./add-pool')).addPoolLauncher(),
+            },
+            {
+                name: 'create',
+                description: 'Create a pool through the factory',
+                script: 'create-pool',
+                options: [DRY_RUN_OPTION],
+                run: async () => (await import('./create-pool')).createPoolLauncher(),
+            },
+            {
+                name: 'migrate',
+                description: 'Migrate a pool to the current BullaFactoring version',
+                script: 'migrate-pool',
+                options: [DRY_RUN_OPTION, ...PROPOSE_OPTIONS],
+                run: async () => (await import('./migrate-pool')).migratePoolLauncher(),
+            },
+            {
+                name: 'setup-params',
+                description: "Set a pool's operational parameters from config",
+                script: 'setup-pool-params',
+                options: [DRY_RUN_OPTION, ...PROPOSE_OPTIONS],
+                run: async () => (await import('./setup-pool-params')).setupPoolParamsLauncher(),
+            },
+            {
+                name: 'set-fees',
+                description: "Set a pool's insurance and protocol fees from config",
+                script: 'set-fee-params',
+                options: [DRY_RUN_OPTION, ...PROPOSE_OPTIONS, DAO_SAFE_OPTION],
+                run: async () => (await import('./set-fee-params')).setFeeParamsLauncher(),
+            },
+            {
+                name: 'set-impair-reserve',
+                description: "Set a pool's impair reserve",
+                script: 'set-impair-reserve',
+                options: [
+                    { flag: '--amount', value: '<amount>', env: 'IMPAIR_RESERVE_AMOUNT', description: 'Impair reserve, in asset units' },
+                    DRY_RUN_OPTION,
+                    ...PROPOSE_OPTIONS,
+                ],
+                run: async () => (await import('./set-impair-reserve')).setImpairReserve(),
+            },
+            {
+                name: 'whitelist-callback',
+                description: "Whitelist a pool's paid-invoice callback on BullaClaimV2",
+                script: 'whitelist-callback',
+                options: [DRY_RUN_OPTION, ...PROPOSE_OPTIONS],
+                run: async () => (await import('./whitelist-callback')).whitelistCallbackLauncher(),
+            },
+            {
+                name: 'change-underwriter',
+                description: "Change a pool's underwriter",
+                script: 'hardhat run scripts/change-underwriter.ts',
+                options: [
+                    { flag: '--underwriter', value: '<address>', env: 'NEW_UNDERWRITER', description: 'New underwriter' },
+                    ...PROPOSE_OPTIONS,
+                ],
+                run: async () => {
+                    useHardhatNetwork();
+                    await runScript('change-underwriter', (await import('./change-underwriter')).updatePermissions);
+                },
+            },
+            {
+                name: 'smoke-test',
+                description: 'Run read-only checks against a deployed pool',
+                script: 'smoke-test',
+                options: [RPC_URL_OPTION],
+                run: async () => (await import('./smoke-test')).smokeTestLauncher(),
+            },
+        ],
+    },
+    {
+        name: 'queue',
+        description: "Inspect and configure a pool's redemption queue",
+        commands: [
+            {
+                name: 'stats',
+                description: "Show a pool's queued redemptions, their totals and the queue size limit",
+                script: 'queue:stats',
+                options: [RPC_URL_OPTION],
+                run: async () => (await import('./redemption-queue')).queueStatsLauncher(),
+            },
+            {
+                name: 'set-max-size',
+                description: "Set the maximum number of active redemptions in a pool's queue",
+                script: 'queue:set-max-size',
+                options: [
+                    {
+                        flag: '--max-queue-size',
+                        value: '<n>',
+                        env: 'MAX_QUEUE_SIZE',
+                        description: 'New size limit (default operationalParams.maxQueueSize)',
+                    },
+                    DRY_RUN_OPTION,
+                    ...PROPOSE_OPTIONS,
+                ],
+                run: async () => (await import('./redemption-queue')).setMaxQueueSizeLauncher(),
+            },
+        ],
+    },
+    {
+        name: 'permissions',
+        description: 'Grant and deploy pool permissions',
+        commands: [
+            {
+                name: 'apply',
+                description: "Allow addresses on a pool's deposit and factoring permissions",
+                script: 'hardhat run scripts/apply-permissions.ts',
+                options: [
+                    {
+                        flag: '--deposit-address',
+                        value: '<address>',
+                        env: 'DEPOSIT_ADDRESS',
+                        description: 'Address to allow deposits from',
+                    },
+                    {
+                        flag: '--factoring-address',
+                        value: '<address>',
+                        env: 'FACTORING_ADDRESS',
+                        description: 'Address to allow factoring for',
+                    },
+                    ...PROPOSE_OPTIONS,
+                ],
+                run: async () => {
+                    useHardhatNetwork();
+                    await runScript('apply-permissions', (await import('./apply-permissions')).updatePermissions);
+                },
+            },
+            {
+                name: 'deploy-compliance',
+                description: 'Deploy ComplianceDepositPermissions, gating deposits on KYC and sanctions',
+                script: 'deploy:complianceDepositPermissions',
+                options: [DRY_RUN_OPTION],
+                run: async () => (await import('./deploy-complianceDepositPermissions')).deployComplianceDepositPermissionsLauncher(),
+            },
+        ],
+    },
+    {
+        name: 'kyc',
+        description: 'Deploy the KYC and compliance contracts',
+        commands: [
+            {
+                name: 'deploy-stack',
+                description: 'Deploy or complete the compliance stack and point pools at it',
+                script: 'deploy:compliance',
+                options: [
+                    { flag: '--pools', value: '<a,b>', env: 'POOLS', description: 'Pools to switch to compliance deposit permissions' },
+                    { flag: '--document-version', value: '<n>', env: 'DOCUMENT_VERSION', description: 'Agreement document version' },
+                    { flag: '--switch-deposit-permissions', description: "Switch the pools' deposit permissions" },
+                    DRY_RUN_OPTION,
+                    ...PROPOSE_OPTIONS,
+                ],
+                run: async () => (await import('./deploy-compliance-stack')).deployComplianceStackLauncher(),
+            },
+            {
+                name: 'deploy-sumsub',
+                description: 'Deploy the Sumsub KYC issuer',
+                script: 'deploy:sumsub',
+                options: [DRY_RUN_OPTION],
+                run: async () => (await import('./deploy-sumsubKycIssuer')).deploySumsubKycIssuerLauncher(),
+            },
+            {
+                name: 'deploy-agreement-repo',
+                description: 'Deploy the agreement signature repo',
+                script: 'deploy:agreementSignatureRepo',
+                options: [DRY_RUN_OPTION],
+                run: async () => (await import('./deploy-agreementSignatureRepo')).deployAgreementSignatureRepoLauncher(),
+            },
+            {
+                name: 'deploy-sanctions-list',
+                description: 'Deploy a mock sanctions list, for networks without Chainalysis',
+                script: 'deploy:mockSanctionsList',
+                options: [DRY_RUN_OPTION],
+                run: async () => (await import('./deploy-mockSanctionsList')).deployMockSanctionsListLauncher(),
+            },
+        ],
+    },
+    {
+        name: 'verify',
+        description: 'Verify deployed contracts on block explorers',
+        commands: [
+            {
+                name: 'all',
+                description: 'Verify every contract in the broadcast files, on every network or --network',
+                script: 'verify',
+                options: [
+                    { flag: '--concurrency', value: '<n>', env: 'VERIFY_CONCURRENCY', description: 'Verifications in flight at once' },
+                    { flag: '--max-attempts', value: '<n>', env: 'VERIFY_MAX_ATTEMPTS', description: 'Attempts per contract and backend' },
+                    { flag: '--verifiers', value: '<list>', env: 'VERIFIERS', description: 'Backends: etherscan, sourcify, blockscout' },
+                ],
+                run: async () => (await import('./verify-all-contracts')).verifyAllContractsLauncher(),
+            },
+            {
+                name: 'factory',
+                description: 'Verify the factory deployment on a network',
+                script: 'verify:factory',
+                run: async () => (await import('./verify-factory')).verifyFactoryLauncher(),
+            },
+            {
+                name: 'stub-server',
+                description: 'Serve a local stand-in for the verification APIs, to check uploads offline',
+                script: 'verify:stub-server',
+                options: [
+                    { flag: '--port', value: '<port>', env: 'VERIFIER_STUB_PORT', description: 'Port to listen on (default 8600)' },
+                    { flag: '--out', value: '<dir>', env: 'VERIFIER_STUB_OUT', description: 'Directory uploads are written to' },
+                    {
+                        flag: '--pending-checks',
+                        value: '<n>',
+                        env: 'VERIFIER_STUB_PENDING_CHECKS',
+                        description: 'Status checks answered as pending before a submission verifies',
+                    },
+                    {
+                        flag: '--failed-submissions',
+                        value: '<n>',
+                        env: 'VERIFIER_STUB_FAILED_SUBMISSIONS',
+                        description: 'Submissions rejected as unavailable before uploads are accepted',
+                    },
+                ],
+                run: async () => (await import('./verification-stub-server')).verificationStubServerLauncher(),
+            },
+        ],
+    },
+    {
+        name: 'report',
+        description: 'Check configuration and deployed state',
+        commands: [
+            {
+                name: 'config',
+                description: 'Validate the network and pool configuration',
+                script: 'validate-config',
+                options: [{ flag: '--strict', description: 'Also fail on warnings' }],
+                run: async () => (await import('./validate-config')).validateConfigLauncher(),
+            },
+            {
+                name: 'drift',
+                description: 'Compare on-chain pool parameters with config',
+                script: 'check-drift',
+                options: [RPC_URL_OPTION],
+                run: async () => (await import('./check-drift')).checkDriftLauncher(),
+            },
+            {
+                name: 'bytecode',
+                description: 'Compare deployed runtime code with the compiled artifacts',
+                script: 'audit-bytecode',
+                options: [RPC_URL_OPTION],
+                run: async () => (await import('./audit-bytecode')).auditBytecodeLauncher(),
+            },
+            {
+                name: 'deployments',
+                description: 'Write a report of the broadcast deployment runs',
+                script: 'deployment-report',
+                options: [
+                    { flag: '--script', value: '<name>', description: 'Only runs of this forge script' },
+                    { flag: '--latest', description: 'Only the latest run of each script' },
+                    { flag: '--out', value: '<dir>', description: 'Directory to write to instead of deploy_info/reports' },
+                ],
+                run: async () => (await import('./deployment-report')).deploymentReportLauncher(),
+            },
+        ],
+    },
+];
+
+/** Commands handled by the CLI itself */
+const BUILTIN_COMMANDS = [
+    { name: 'help', description: 'Show help for a group or command, e.g. `help pool create`' },
+    { name: 'completion', description: 'Print the shell completion script: `completion bash` or `completion zsh`' },
+];
+
+const SHELLS = ['bash', 'zsh'];
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+type ParsedArgs = {
+    /** Group, command and any arguments, without options or their values */
+    positionals: string[];
+    flags: string[];
+};
+
+function getValueFlags(): Set<string> {
+    const options = [...GLOBAL_OPTIONS, ...COMMAND_GROUPS.flatMap(group => group.commands.flatMap(command => command.options || []))];
+    return new Set(options.filter(option => option.value).map(option => option.flag));
+}
+
+/**
+ * Split the command line into positionals and flags; options may come before or after the command
+ */
+function parseArgs(args: string[]): ParsedArgs {
+    const valueFlags = getValueFlags();
+    const parsed: ParsedArgs = { positionals: [], flags: [] };
+    for (let i = 0; i < args.length; i++) {
+        if (args[i].startsWith('-')) {
+            parsed.flags.push(args[i]);
+            if (valueFlags.has(args[i])) {
+                i++;
+            }
+        } else {
+            parsed.positionals.push(args[i]);
+        }
+    }
+    return parsed;
+}
+
+/**
+ * @throws InputError naming the available groups or commands when the name matches none
+ */
+function findGroup(name: string): CommandGroup {
+    const group = COMMAND_GROUPS.find(group => group.name === name);
+    if (!group) {
+        const available = [...COMMAND_GROUPS, ...BUILTIN_COMMANDS].map(group => group.name).join(', ');
+        throw new InputError(`Unknown command: ${name}. Available: ${available}`);
+    }
+    return group;
+}
+
+function findCommand(group: CommandGroup, name: string): Command {
+    const command = group.commands.find(command => command.name === name);
+    if (!command) {
+        throw new InputError(
+            `Unknown ${group.name} command: ${name}. Available: ${group.commands.map(command => command.name).join(', ')}`,
+        );
+    }
+    return command;
+}
+
+/**
+ * @throws InputError on an option the command does not read, which the script would otherwise silently ignore
+ */
+function assertKnownFlags(group: CommandGroup, command: Command, flags: string[]): void {
+    const known = [...GLOBAL_OPTIONS, ...(command.options || [])].map(option => option.flag);
+    const unknown = flags.filter(flag => flag !== '-h' && !known.includes(flag));
+    if (unknown.length > 0) {
+        throw new InputError(
+            `Unknown option${unknown.length > 1 ? 's' : ''} for ${group.name} ${command.name}: ${unknown.join(', ')}. ` +
+                `Run \`${CLI_NAME} ${group.name} ${command.name} --help\` for its options`,
+        );
+    }
+}
+
+// ============================================================================
+// Help
+// ============================================================================
+
+function formatRows(rows: [string, string][]): string[] {
+    const width = Math.max(0, ...rows.map(([left]) => left.length));
+    return rows.map(([left, right]) => `  ${left.padEnd(width)}  ${right}`);
+}
+
+function formatOptions(options: CommandOption[]): string[] {
+    return formatRows(
+        options.map(option => [
+            option.value ? `${option.flag} ${option.value}` : option.flag,
+            option.env ? `${option.description} [${option.env}]` : option.description,
+        ]),
+    );
+}
+
+function getMainHelp(): string {
+    return [
+        `Usage: ${CLI_NAME} <group> <command> [options]`,
+        '',
+        'Groups:',
+        ...formatRows(COMMAND_GROUPS.map(group => [group.name, group.description])),
+        '',
+        'Commands:',
+        ...formatRows(BUILTIN_COMMANDS.map(command => [command.name, command.description])),
+        '',
+        'Global options:',
+        ...formatOptions(GLOBAL_OPTIONS),
+        '',
+        `Run \`${CLI_NAME} <group> --help\` for a group's commands.`,
+    ].join('\n');
+}
+
+function getGroupHelp(group: CommandGroup): string {
+    return [
+        `Usage: ${CLI_NAME} ${group.name} <command> [options]`,
+        '',
+        group.description,
+        '',
+        'Commands:',
+        ...formatRows(group.commands.map(command => [command.name, command.description])),
+        '',
+        `Run \`${CLI_NAME} ${group.name} <command> --help\` for a command's options.`,
+    ].join('\n');
+}
+
+function getCommandHelp(group: CommandGroup, command: Command): string {
+    const lines = [`Usage: ${CLI_NAME} ${group.name} ${command.name} [options]`, '', command.description];
+    if (command.options && command.options.length > 0) {
+        lines.push('', 'Options:', ...formatOptions(command.options));
+    }
+    lines.push('', 'Global options:', ...formatOptions(GLOBAL_OPTIONS));
+    lines.push('', `Same as: ${command.script.includes(' ') ? `npx ${command.script}` : `yarn ${command.script}`}`);
+    return lines.join('\n');
+}
+
+/**
+ * Help for the group and command named, or the overview when none is
+ */
+function getHelp(positionals: string[]): string {
+    if (positionals.length === 0) {
+        return getMainHelp();
+    }
+    const group = findGroup(positionals[0]);
+    return positionals.length === 1 ? getGroupHelp(group) : getCommandHelp(group, findCommand(group, positionals[1]));
+}
+
+// ============================================================================
+// Completion
+// ============================================================================
+
+/**
+ * Completion script for bash, which zsh loads through bashcompinit
+ * Networks and pools are read from config when the script is generated, so regenerate it after adding either.
+ */
+export function getCompletionScript(shell: string): string {
+    if (!SHELLS.includes(shell)) {
+        throw new InputError(`Unsupported shell: ${shell}. Supported: ${SHELLS.join(', ')}`);
+    }
+
+    const networks = getAvailableNetworks();
+    const pools = Array.from(new Set(networks.flatMap(network => getAvailablePools(network)))).sort();
+    const valueFlags = Array.from(getValueFlags());
+    const words = (values: string[]): string => values.join(' ');
+    const globalFlags = GLOBAL_OPTIONS.map(option => option.flag);
+
+    const groupCases = COMMAND_GROUPS.map(
+        group => `            ${group.name}) COMPREPLY=($(compgen -W "${words(group.commands.map(c => c.name))}" -- "$cur")) ;;`,
+    );
+    const commandCases = COMMAND_GROUPS.flatMap(group =>
+        group.commands.map(command => {
+            const flags = words([...(command.options || []).map(option => option.flag), ...globalFlags]);
+            return `            "${group.name} ${command.name}") COMPREPLY=($(compgen -W "${flags}" -- "$cur")) ;;`;
+        }),
+    );
+
+    return [
+        `# ${CLI_NAME} completion for ${shell}`,
+        `# Load it with: source <(yarn --silent ${CLI_NAME} completion ${shell})`,
+        `# Completes the \`${CLI_NAME}\` command, e.g. alias ${CLI_NAME}='yarn --silent ${CLI_NAME}'`,
+        ...(shell === 'zsh' ? ['autoload -U +X bashcompinit && bashcompinit'] : []),
+        '_bulla_factoring() {',
+        '    local cur="${COMP_WORDS[COMP_CWORD]}" prev="${COMP_WORDS[COMP_CWORD-1]}"',
+        '    case "$prev" in',
+        `        --network) COMPREPLY=($(compgen -W "${words(networks)}" -- "$cur")); return ;;`,
+        `        --pool) COMPREPLY=($(compgen -W "${words(pools)}" -- "$cur")); return ;;`,
+        `        --verifiers) COMPREPLY=($(compgen -W "etherscan sourcify blockscout" -- "$cur")); return ;;`,
+        '        --keystore|--password-file|--out) COMPREPLY=($(compgen -f -- "$cur")); return ;;',
+        `        ${valueFlags.join('|')}) return ;;`,
+        '    esac',
+        '',
+        '    # Group and command typed so far, skipping options and their values',
+        '    local words=() i=1',
+        '    while [ $i -lt $COMP_CWORD ]; do',
+        '        case "${COMP_WORDS[i]}" in',
+        `            ${valueFlags.join('|')}) i=$((i + 1)) ;;`,
+        '            -*) ;;',
+        '            *) words+=("${COMP_WORDS[i]}") ;;',
+        '        esac',
+        '        i=$((i + 1))',
+        '    done',
+        '',
+        '    case "${#words[@]}" in',
+        '    0)',
+        `        COMPREPLY=($(compgen -W "${words([...COMMAND_GROUPS, ...BUILTIN_COMMANDS].map(g => g.name))}" -- "$cur")) ;;`,
+        '    1)',
+        '        case "${words[0]}" in',
+        ...groupCases,
+        `            help) COMPREPLY=($(compgen -W "${words(COMMAND_GROUPS.map(g => g.name))}" -- "$cur")) ;;`,
+        `            completion) COMPREPLY=($(compgen -W "${words(SHELLS)}" -- "$cur")) ;;`,
+        '        esac ;;',
+        '    *)',
+        '        case "${words[0]} ${words[1]}" in',
+        ...commandCases,
+        '        esac ;;',
+        '    esac',
+        '}',
+        `complete -F _bulla_factoring ${CLI_NAME}`,
+        '',
+    ].join('\n');
+}
+
+// ============================================================================
+// Launcher
+// ============================================================================
+
+/**
+ * Resolve the command line to a command, or handle help and completion
+ * @returns The command to run, or undefined when nothing is left to do
+ * @throws InputError on an unknown group, command or option
+ */
+function resolveCommand(args: string[]): Command | undefined {
+    const { positionals, flags } = parseArgs(args);
+
+    if (positionals.length === 0 || positionals[0] === 'help' || flags.includes('--help') || flags.includes('-h')) {
+        console.log(getHelp(positionals[0] === 'help' ? positionals.slice(1) : positionals));
+        return undefined;
+    }
+    if (positionals[0] === 'completion') {
+        process.stdout.write(getCompletionScript(positionals[1] || 'bash'));
+        return undefined;
+    }
+
+    const group = findGroup(positionals[0]);
+    if (positionals.length === 1) {
+        throw new InputError(`Missing ${group.name} command. Run \`${CLI_NAME} ${group.name} --help\` for its commands`);
+    }
+    const command = findCommand(group, positionals[1]);
+    if (positionals.length > 2) {
+        throw new InputError(`Unexpected argument: ${positionals[2]}`);
+    }
+    assertKnownFlags(group, command, flags);
+    return command;
+}
+
+/**
+ * Launcher: resolve the command and run its script's launcher, which reads the options from process.argv
+ */
+export async function bullaFactoringCli(args: string[] = process.argv.slice(2)): Promise<void> {
+    let command: Command | undefined;
+    try {
+        command = resolveCommand(args);
+    } catch (error: any) {
+        if (!(error instanceof InputError)) {
+            throw error;
+        }
+        console.error(`❌ ${error.message}`);
+        process.exit(EXIT_CODES.invalidInput);
+    }
+
+    if (command) {
+        setupGracefulExit();
+        await command.run();
+    }
+}
+
+// Only run launcher if this script is run directly
+if (require.main === module) {
+    bullaFactoringCli();
+}
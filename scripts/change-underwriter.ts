@@ -1,37 +1,64 @@
 import hre, { ethers } from 'hardhat';
-import bullaFactoringABI from '../deployments/sepolia/BullaFactoring.json';
+import { getConfig } from './network-config';
 import { getLineReader } from './utils';
+import { assertCanPrompt, getInput, InputError } from './utils/cli';
+import { getPoolInteractive } from './utils/interactive-prompt';
+import { isProposeMode, resolveSafeAddress, writeSafeBatches } from './utils/safe-batch';
+import { runScript, ScriptContext } from './utils/script-runner';
+import { getSignerWallet } from './utils/signer';
 
-export const updatePermissions = async function () {
-    const { getNamedAccounts } = hre;
-    const { deployer } = await getNamedAccounts();
-    const lineReader = getLineReader();
-    const signer = await ethers.getSigner(deployer);
+const SET_UNDERWRITER = 'function setUnderwriter(address _newUnderwriter)';
 
-    const bullaFactoringAddress = '0x5e94a4fF11C82D1E1DF912E40658718e95c7f990';
+export const updatePermissions = async function (context: ScriptContext) {
+    // The provider is connected to the Hardhat --network, so the pool is looked up on that network
+    const network = hre.network.name;
+    context.network = network;
+    const pool = await getPoolInteractive(network);
+    context.pool = pool;
 
-    const bullaFactoringContract = new ethers.Contract(bullaFactoringAddress, bullaFactoringABI.abi, signer);
+    const { bullaFactoringAddress } = getConfig(network, pool);
+    if (!bullaFactoringAddress) {
+        throw new InputError(`Pool '${pool}' has no bullaFactoringAddress on '${network}'`);
+    }
 
-    let newUnderwriterAddress: string | undefined = await new Promise(resolve =>
-        lineReader.question('change underwriter to which address?: \n...\n', address => {
-            resolve(address ? address : undefined);
-        }),
-    );
+    let newUnderwriterAddress = getInput('--underwriter', 'NEW_UNDERWRITER');
     if (!newUnderwriterAddress) {
-        console.error('No address provided. Please provide an address as a command-line argument.');
+        assertCanPrompt('underwriter address', ['--underwriter <address>', 'NEW_UNDERWRITER=<address>']);
+        const lineReader = getLineReader();
+        newUnderwriterAddress = await new Promise<string>(resolve =>
+            lineReader.question('change underwriter to which address?: \n...\n', resolve),
+        );
+    }
+    if (!newUnderwriterAddress || !ethers.utils.isAddress(newUnderwriterAddress)) {
+        throw new InputError(`No valid underwriter address provided, got '${newUnderwriterAddress || ''}'`);
+    }
+    context.details = { underwriter: newUnderwriterAddress };
+
+    if (isProposeMode()) {
+        writeSafeBatches(network, `change-underwriter-${pool}`, `Change the underwriter of the ${pool} pool`, [
+            {
+                to: bullaFactoringAddress,
+                contractLabel: `BullaFactoring (${pool})`,
+                signature: SET_UNDERWRITER,
+                args: [newUnderwriterAddress],
+                safe: await resolveSafeAddress(ethers.provider, bullaFactoringAddress),
+            },
+        ]);
         return;
     }
 
-    await bullaFactoringContract.setUnderwriter(newUnderwriterAddress);
+    const signer = await getSignerWallet(ethers.provider);
+    console.log(`🔑 Signer: ${signer.address}`);
+    const bullaFactoringContract = new ethers.Contract(bullaFactoringAddress, [SET_UNDERWRITER], signer);
+
+    const tx = await bullaFactoringContract.setUnderwriter(newUnderwriterAddress);
+    context.txHashes.push(tx.hash);
 
     console.log('For the following Factoring Contract : \n', bullaFactoringAddress);
     console.log('New underwriter is : \n', newUnderwriterAddress);
 };
 
-// uncomment this line to run the script individually
-updatePermissions()
-    .then(() => process.exit(0))
-    .catch(error => {
-        console.error(error);
-        process.exit(1);
-    });
+// Only run the function if this script is being executed directly
+if (require.main === module) {
+    runScript('change-underwriter', updatePermissions);
+}
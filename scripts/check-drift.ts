@@ -0,0 +1,314 @@
+import { Contract, providers } from 'ethers';
+import { FullConfig, getAvailableNetworks, getAvailablePools, getConfig, PoolName } from './network-config';
+import { getArgValue, InputError } from './utils/cli';
+import { getProvider } from './utils/rpc';
+import { runScript } from './utils/script-runner';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DriftStatus = 'match' | 'mismatch' | 'unconfigured' | 'unreadable';
+
+export type DriftField = {
+    field: string;
+    /** Value from getConfig(), undefined when the config has no value for this field */
+    expected?: string;
+    /** Value read on-chain, undefined when the call reverted (e.g. an older pool version) */
+    actual?: string;
+    status: DriftStatus;
+};
+
+export type PoolDriftReport = {
+    network: string;
+    pool: PoolName;
+    bullaFactoringAddress: string;
+    /** BullaFactoringV2_1 when the V2_2 insurance getters are missing, whose fields are then left out */
+    contractName?: string;
+    fields: DriftField[];
+    /** Set when the pool could not be checked at all, e.g. no contract at the configured address */
+    error?: string;
+};
+
+/** Getters shared by BullaFactoringV2_1 and BullaFactoringV2_2 (insurance getters only exist on V2_2) */
+const BULLA_FACTORING_ABI = [
+    'function getFundInfo() view returns (tuple(string name, uint256 creationTimestamp, uint256 fundBalance, uint256 deployedCapital, uint256 capitalAccount, uint256 price, uint256 tokensAvailableForRedemption, uint16 adminFeeBps, uint256 targetYieldBps))',
+    'function bullaDao() view returns (address)',
+    'function protocolFeeBps() view returns (uint16)',
+    'function underwriter() view returns (address)',
+    'function insurer() view returns (address)',
+    'function insuranceFeeBps() view returns (uint16)',
+    'function impairmentGrossGainBps() view returns (uint16)',
+    'function recoveryProfitRatioBps() view returns (uint16)',
+    'function depositPermissions() view returns (address)',
+    'function redeemPermissions() view returns (address)',
+    'function factoringPermissions() view returns (address)',
+    'function invoiceProviderAdapter() view returns (address)',
+    'function assetAddress() view returns (address)',
+    'function getRedemptionQueue() view returns (address)',
+    'function gracePeriodDays() view returns (uint256)',
+    'function approvalDuration() view returns (uint256)',
+    'function impairReserve() view returns (uint256)',
+];
+
+const REDEMPTION_QUEUE_ABI = ['function factoringContract() view returns (address)', 'function maxQueueSize() view returns (uint256)'];
+
+type FieldReader = {
+    field: string;
+    expected: (config: FullConfig) => string | number | undefined;
+    read: (pool: Contract, provider: providers.Provider) => Promise<string>;
+    /** Leave the field out of the report when the config has no value for it */
+    skipUnlessConfigured?: boolean;
+    /** Leave the field out of the report for BullaFactoringV2_1 pools, which have no such getter */
+    v2_2Only?: boolean;
+};
+
+// ============================================================================
+// Drift Detection
+// ============================================================================
+
+const FIELD_READERS: FieldReader[] = [
+    { field: 'poolName', expected: c => c.poolDisplayName, read: async pool => (await pool.getFundInfo()).name },
+    { field: 'adminFeeBps', expected: c => c.adminFeeBps, read: async pool => (await pool.getFundInfo()).adminFeeBps.toString() },
+    { field: 'targetYieldBps', expected: c => c.targetYieldBps, read: async pool => (await pool.getFundInfo()).targetYieldBps.toString() },
+    { field: 'protocolFeeBps', expected: c => c.protocolFeeBps, read: async pool => (await pool.protocolFeeBps()).toString() },
+    { field: 'bullaDao', expected: c => c.bullaDao, read: pool => pool.bullaDao() },
+    { field: 'underwriter', expected: c => c.underwriter, read: pool => pool.underwriter() },
+    { field: 'insurer', expected: c => c.insurer, read: pool => pool.insurer(), v2_2Only: true },
+    {
+        field: 'insuranceFeeBps',
+        expected: c => c.insuranceFeeBps,
+        read: async pool => (await pool.insuranceFeeBps()).toString(),
+        v2_2Only: true,
+    },
+    {
+        field: 'impairmentGrossGainBps',
+        expected: c => c.impairmentGrossGainBps,
+        read: async pool => (await pool.impairmentGrossGainBps()).toString(),
+        v2_2Only: true,
+    },
+    {
+        field: 'recoveryProfitRatioBps',
+        expected: c => c.recoveryProfitRatioBps,
+        read: async pool => (await pool.recoveryProfitRatioBps()).toString(),
+        v2_2Only: true,
+    },
+    { field: 'depositPermissions', expected: c => c.depositPermissionsAddress, read: pool => pool.depositPermissions() },
+    { field: 'redeemPermissions', expected: c => c.redeemPermissionsAddress, read: pool => pool.redeemPermissions() },
+    { field: 'factoringPermissions', expected: c => c.factoringPermissionsAddress, read: pool => pool.factoringPermissions() },
+    {
+        field: 'invoiceProviderAdapter',
+        expected: c => c.BullaClaimInvoiceProviderAdapterAddress,
+        read: pool => pool.invoiceProviderAdapter(),
+    },
+    { field: 'asset', expected: c => c.underlyingAsset, read: pool => pool.assetAddress() },
+    { field: 'redemptionQueue', expected: () => undefined, read: pool => pool.getRedemptionQueue() },
+    {
+        // The queue must point back at this pool, otherwise redemptions are processed by another contract
+        field: 'redemptionQueue.factoringContract',
+        expected: c => c.bullaFactoringAddress,
+        read: async (pool, provider) => new Contract(await pool.getRedemptionQueue(), REDEMPTION_QUEUE_ABI, provider).factoringContract(),
+    },
+    {
+        field: 'gracePeriodDays',
+        expected: c => c.operationalParams?.gracePeriodDays,
+        read: async pool => (await pool.gracePeriodDays()).toString(),
+    },
+    {
+        field: 'approvalDuration',
+        expected: c => c.operationalParams?.approvalDuration,
+        read: async pool => (await pool.approvalDuration()).toString(),
+    },
+    {
+        field: 'maxQueueSize',
+        expected: c => c.operationalParams?.maxQueueSize,
+        read: async (pool, provider) =>
+            (await new Contract(await pool.getRedemptionQueue(), REDEMPTION_QUEUE_ABI, provider).maxQueueSize()).toString(),
+    },
+    // Only V1 pools have an impair reserve, so it is skipped entirely unless configured
+    {
+        field: 'impairReserve',
+        expected: c => c.operationalParams?.impairReserve,
+        read: async pool => (await pool.impairReserve()).toString(),
+        skipUnlessConfigured: true,
+    },
+];
+
+async function tryRead<T>(read: () => Promise<T>): Promise<T | undefined> {
+    try {
+        return await read();
+    } catch {
+        return undefined;
+    }
+}
+
+function valuesMatch(expected: string, actual: string): boolean {
+    // Addresses are compared case-insensitively since the config mixes checksummed and lowercase values
+    return expected.toLowerCase() === actual.toLowerCase();
+}
+
+/**
+ * Compare a deployed pool against its configuration
+ * Takes the provider as a parameter so it can run against any node, including a local Hardhat node.
+ * @throws Error if the config has no bullaFactoringAddress
+ */
+export async function checkPoolDrift(provider: providers.Provider, config: FullConfig): Promise<PoolDriftReport> {
+    if (!config.bullaFactoringAddress) {
+        throw new Error(`No bullaFactoringAddress configured for ${config.network}/${config.poolName}`);
+    }
+
+    const report: PoolDriftReport = {
+        network: config.network,
+        pool: config.poolName,
+        bullaFactoringAddress: config.bullaFactoringAddress,
+        fields: [],
+    };
+
+    if ((await provider.getCode(config.bullaFactoringAddress)) === '0x') {
+        return { ...report, error: 'No contract deployed at bullaFactoringAddress' };
+    }
+
+    const pool = new Contract(config.bullaFactoringAddress, BULLA_FACTORING_ABI, provider);
+    // Only V2_2 has the insurance getters, so a pool whose insuranceFeeBps() reverts is V2_1
+    const isV2_2 = (await tryRead(() => pool.insuranceFeeBps())) !== undefined;
+    report.contractName = isV2_2 ? 'BullaFactoringV2_2' : 'BullaFactoringV2_1';
+
+    for (const reader of FIELD_READERS) {
+        const expectedValue = reader.expected(config);
+        const expected = expectedValue === undefined ? undefined : expectedValue.toString();
+        if ((expected === undefined && reader.skipUnlessConfigured) || (reader.v2_2Only && !isV2_2)) {
+            continue;
+        }
+
+        const actual = await tryRead(() => reader.read(pool, provider));
+
+        let status: DriftStatus;
+        if (actual === undefined) {
+            status = 'unreadable';
+        } else if (expected === undefined) {
+            status = 'unconfigured';
+        } else {
+            status = valuesMatch(expected, actual) ? 'match' : 'mismatch';
+        }
+
+        report.fields.push({ field: reader.field, expected, actual, status });
+    }
+
+    return report;
+}
+
+/**
+ * A report has drifted if any configured value differs from the chain or could not be read
+ */
+export function hasDrift(report: PoolDriftReport): boolean {
+    return (
+        !!report.error ||
+        report.fields.some(field => field.status === 'mismatch' || (field.status === 'unreadable' && field.expected !== undefined))
+    );
+}
+
+// ============================================================================
+// Output
+// ============================================================================
+
+const STATUS_ICONS: Record<DriftStatus, string> = {
+    match: '✅',
+    mismatch: '❌',
+    unconfigured: 'ℹ️ ',
+    unreadable: '⚠️ ',
+};
+
+/**
+ * Print a drift report as a table
+ */
+export function printDriftReport(report: PoolDriftReport): void {
+    console.log(
+        `\n📋 ${report.network}/${report.pool} (${report.bullaFactoringAddress}${report.contractName ? `, ${report.contractName}` : ''})`,
+    );
+    if (report.error) {
+        console.log(`   ❌ ${report.error}`);
+        return;
+    }
+
+    const width = Math.max(...report.fields.map(field => field.field.length));
+    for (const field of report.fields) {
+        const name = field.field.padEnd(width);
+        switch (field.status) {
+            case 'match':
+                console.log(`   ${STATUS_ICONS.match} ${name}  ${field.actual}`);
+                break;
+            case 'mismatch':
+                console.log(`   ${STATUS_ICONS.mismatch} ${name}  config: ${field.expected}  on-chain: ${field.actual}`);
+                break;
+            case 'unconfigured':
+                console.log(`   ${STATUS_ICONS.unconfigured} ${name}  on-chain: ${field.actual} (not in config)`);
+                break;
+            case 'unreadable':
+                console.log(
+                    `   ${STATUS_ICONS.unreadable} ${name}  could not be read on-chain${
+                        field.expected ? ` (config: ${field.expected})` : ''
+                    }`,
+                );
+                break;
+        }
+    }
+}
+
+// ============================================================================
+// Launcher
+// ============================================================================
+
+/**
+ * Launcher: check every deployed pool, or the one selected with --network/--pool
+ * Options: --json for a ScriptResult with the reports in `details.reports`, --rpc-url to point at a specific node (e.g. a local Hardhat node).
+ * Exits with EXIT_CODES.failure when any pool has drifted.
+ */
+export async function checkDriftLauncher(): Promise<void> {
+    await runScript('check-drift', async context => {
+        const rpcUrlOverride = getArgValue('--rpc-url');
+        const networkFilter = getArgValue('--network');
+        const poolFilter = getArgValue('--pool');
+        context.network = networkFilter;
+        context.pool = poolFilter;
+
+        if (networkFilter && !getAvailableNetworks().includes(networkFilter)) {
+            throw new InputError(`Unknown network '${networkFilter}'. Available networks: ${getAvailableNetworks().join(', ')}`);
+        }
+
+        const networks = networkFilter ? [networkFilter] : getAvailableNetworks();
+        const reports: PoolDriftReport[] = [];
+
+        for (const network of networks) {
+            const pools = getAvailablePools(network).filter(pool => !poolFilter || pool === poolFilter);
+            const configs = pools.map(pool => getConfig(network, pool)).filter(config => config.bullaFactoringAddress);
+            if (configs.length === 0) {
+                continue;
+            }
+
+            const provider = rpcUrlOverride ? new providers.StaticJsonRpcProvider(rpcUrlOverride) : await getProvider(network);
+
+            for (const config of configs) {
+                console.log(`🔍 Checking ${network}/${config.poolName}...`);
+                reports.push(await checkPoolDrift(provider, config));
+            }
+        }
+
+        context.details.reports = reports;
+        reports.forEach(printDriftReport);
+        console.log('');
+
+        const drifted = reports.filter(hasDrift);
+        if (reports.length === 0) {
+            console.log('⚠️  No deployed pools matched');
+        } else if (drifted.length === 0) {
+            console.log(`✅ ${reports.length} pool(s) match their configuration`);
+        } else {
+            throw new Error(`${drifted.length} of ${reports.length} pool(s) have drifted from their configuration`);
+        }
+    });
+}
+
+// Only run launcher if this script is run directly
+if (require.main === module) {
+    checkDriftLauncher();
+}
@@ -0,0 +1,341 @@
+import { BigNumber, Contract, ContractFactory, providers, utils, Wallet } from 'ethers';
+import { FullConfig, getConfig, getInsuranceParamsErrors, PoolName } from './network-config';
+import { getCreationBytecode, readForgeArtifact } from './utils/artifacts';
+import { hasFlag } from './utils/cli';
+import { ForgeWorkflowOptions } from './utils/dry-run';
+import { getPrivateKeyInteractively, setupGracefulExit } from './utils/interactive-deploy';
+import { getNetworkAndPoolInteractive } from './utils/interactive-prompt';
+import { getNetworkMetadata } from './utils/networks';
+import { resolveRpcUrl } from './utils/rpc';
+import { runScript } from './utils/script-runner';
+import { updatePoolDeployment } from './utils/update-config';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const ZERO_HASH = '0x0000000000000000000000000000000000000000000000000000000000000000';
+
+const FACTORY_ABI = [
+    'function owner() view returns (address)',
+    'function protocolFeeBps() view returns (uint16)',
+    'function invoiceProviderAdapter() view returns (address)',
+    'function rolesModifier() view returns (address)',
+    'function poolNonce() view returns (uint256)',
+    'function poolCreationFee() view returns (uint256)',
+    'function initBytecodeLength() view returns (uint256)',
+    'function expectedInitBytecodeHash() view returns (bytes32)',
+    'function isAssetAllowed(address asset) view returns (bool)',
+    'function computeAddress(bytes creationBytecode, address creator, uint256 nonce) view returns (address)',
+    'function createPool(bytes creationBytecode, address asset, string poolName, string tokenName, string tokenSymbol, address _depositPermissions, address _redeemPermissions, address _factoringPermissions) payable returns (address pool)',
+    'event PoolCreated(address indexed pool, address indexed owner, address indexed asset, string poolName, string tokenName, string tokenSymbol, address depositPermissions, address redeemPermissions, address factoringPermissions)',
+];
+
+/** Permission contracts passed to createPool; the factory does not deploy them */
+type PoolPermissions = {
+    depositPermissionsAddress: string;
+    redeemPermissionsAddress: string;
+    factoringPermissionsAddress: string;
+};
+
+export type CreatedPool = {
+    /** Address from the PoolCreated event; undefined for a dry run */
+    poolAddress?: string;
+    /** Address predicted with computeAddress before sending */
+    predictedAddress: string;
+    txHashes: string[];
+};
+
+function isUnset(address: string | undefined): boolean {
+    return !address || address === ZERO_ADDRESS;
+}
+
+/**
+ * Check the factory will accept a pool built from this config and init bytecode, before any fee is paid
+ * Mirrors the validations in BullaFactoringFactoryV2_1.createPool.
+ * @throws Error listing every check that failed
+ */
+export async function checkFactoryAcceptsPool(factory: Contract, config: FullConfig, adapter: string, initBytecode: string): Promise<void> {
+    const errors: string[] = [];
+
+    const owner: string = await factory.owner();
+    if (owner.toLowerCase() !== config.bullaDao.toLowerCase()) {
+        errors.push(`bullaDao in config (${config.bullaDao}) is not the factory owner (${owner})`);
+    }
+
+    const protocolFeeBps: number = await factory.protocolFeeBps();
+    if (protocolFeeBps !== config.protocolFeeBps) {
+        errors.push(`protocolFeeBps in config (${config.protocolFeeBps}) differs from the factory's (${protocolFeeBps})`);
+    }
+
+    const factoryAdapter: string = await factory.invoiceProviderAdapter();
+    if (factoryAdapter.toLowerCase() !== adapter.toLowerCase()) {
+        errors.push(`Invoice provider adapter in config (${adapter}) differs from the factory's (${factoryAdapter})`);
+    }
+
+    if ((await factory.rolesModifier()) === ZERO_ADDRESS) {
+        errors.push('Zodiac Roles are not configured on the factory (setZodiacRolesConfig), so callbacks cannot be whitelisted');
+    }
+
+    const initBytecodeLength: BigNumber = await factory.initBytecodeLength();
+    const expectedInitBytecodeHash: string = await factory.expectedInitBytecodeHash();
+    const actualLength = utils.hexDataLength(initBytecode);
+    const actualHash = utils.keccak256(initBytecode);
+    if (initBytecodeLength.isZero() || expectedInitBytecodeHash === ZERO_HASH) {
+        errors.push('Init bytecode is not configured on the factory (setInitBytecodeConfig)');
+    } else if (!initBytecodeLength.eq(actualLength) || expectedInitBytecodeHash !== actualHash) {
+        errors.push(
+            `Compiled BullaFactoringV2_2 (${actualLength} bytes, ${actualHash}) does not match the factory ` +
+                `(${initBytecodeLength.toString()} bytes, ${expectedInitBytecodeHash}); rebuild with the factory's compiler settings`,
+        );
+    }
+
+    if (!(await factory.isAssetAllowed(config.underlyingAsset))) {
+        errors.push(`Asset ${config.underlyingAsset} is not allowed by the factory (allowAsset)`);
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`Factory ${factory.address} would reject this pool:\n   ${errors.join('\n   ')}`);
+    }
+}
+
+/**
+ * Build the BullaFactoringV2_2 creation bytecode (init bytecode + constructor arguments) from the compiled artifact
+ */
+export function buildPoolCreationBytecode(
+    config: FullConfig,
+    adapter: string,
+    permissions: PoolPermissions,
+): { initBytecode: string; creationBytecode: string } {
+    const artifact = readForgeArtifact('BullaFactoring.sol', 'BullaFactoringV2_2');
+    const initBytecode = getCreationBytecode(artifact, 'BullaFactoringV2_2');
+    const deployTransaction = new ContractFactory(artifact.abi, initBytecode).getDeployTransaction(
+        config.underlyingAsset,
+        adapter,
+        config.underwriter,
+        permissions.depositPermissionsAddress,
+        permissions.redeemPermissionsAddress,
+        permissions.factoringPermissionsAddress,
+        config.bullaDao,
+        config.protocolFeeBps,
+        config.adminFeeBps,
+        config.poolDisplayName,
+        config.targetYieldBps,
+        config.poolTokenName,
+        config.poolTokenSymbol,
+        config.insurer,
+        config.insuranceFeeBps,
+        config.impairmentGrossGainBps,
+        config.recoveryProfitRatioBps,
+    );
+
+    return { initBytecode, creationBytecode: utils.hexlify(deployTransaction.data!) };
+}
+
+/**
+ * Deploy a permission contract from its artifact; the signer becomes its owner
+ */
+async function deployPermissions(signer: Wallet, contractName: 'DepositPermissions' | 'FactoringPermissions'): Promise<Contract> {
+    const artifact = readForgeArtifact(`${contractName}.sol`, contractName);
+    const contract = await new ContractFactory(artifact.abi, getCreationBytecode(artifact, contractName), signer).deploy();
+    console.log(`   ⏳ ${contractName}: ${contract.deployTransaction.hash}`);
+    await contract.deployed();
+    console.log(`   ✅ ${contractName} deployed at ${contract.address}`);
+    return contract;
+}
+
+/**
+ * Create pool workflow (can be called with parameters or standalone)
+ * Creates a BullaFactoringV2_2 pool through the network's BullaFactoringFactoryV2_1 and registers it in config.
+ * Missing permission contracts are deployed first; the redeem permissions default to the deposit permissions.
+ */
+export async function createPoolWorkflow(
+    network: string,
+    pool: PoolName,
+    privateKey: string,
+    options?: ForgeWorkflowOptions,
+): Promise<CreatedPool> {
+    console.log(`🏊 Creating pool ${pool} on ${network} through the factory...\n`);
+
+    const config = getConfig(network, pool);
+
+    if (config.bullaFactoringAddress) {
+        throw new Error(`Pool '${pool}' already has a BullaFactoring on ${network}: ${config.bullaFactoringAddress}`);
+    }
+    if (isUnset(config.bullaFactoringFactoryAddress)) {
+        throw new Error(`bullaFactoringFactoryAddress not configured for ${network}. Deploy the factory first (yarn deploy:factory)`);
+    }
+    if (isUnset(config.insurer)) {
+        throw new Error(`Insurer not configured for ${network}/${pool}. Set "insurer" for the pool in config/deployments.json`);
+    }
+    const insuranceErrors = getInsuranceParamsErrors(config);
+    if (insuranceErrors.length > 0) {
+        throw new Error(`Invalid insurance parameters for ${network}/${pool}:\n   ${insuranceErrors.join('\n   ')}`);
+    }
+
+    const rpcUrl = await resolveRpcUrl(network);
+    const provider = new providers.StaticJsonRpcProvider(rpcUrl, getNetworkMetadata(network).chainId);
+    const signer = new Wallet(privateKey, provider);
+    const factoryAddress = config.bullaFactoringFactoryAddress!;
+
+    if ((await provider.getCode(factoryAddress)) === '0x') {
+        throw new Error(`No contract deployed at bullaFactoringFactoryAddress ${factoryAddress}`);
+    }
+    const factory = new Contract(factoryAddress, FACTORY_ABI, signer);
+    const adapter = isUnset(config.BullaClaimInvoiceProviderAdapterAddress)
+        ? await factory.invoiceProviderAdapter()
+        : config.BullaClaimInvoiceProviderAdapterAddress!;
+
+    console.log('📋 Pool Configuration:');
+    console.log(`   Factory: ${factoryAddress}`);
+    console.log(`   Pool Display Name: ${config.poolDisplayName}`);
+    console.log(`   Token: ${config.poolTokenName} (${config.poolTokenSymbol})`);
+    console.log(`   Asset: ${config.underlyingAsset}`);
+    console.log(`   Underwriter: ${config.underwriter}`);
+    console.log(`   Insurer: ${config.insurer}`);
+    console.log(`   Owner: ${signer.address}\n`);
+
+    // The init bytecode does not depend on constructor arguments, so the factory can be checked before deploying anything
+    const { initBytecode } = buildPoolCreationBytecode(config, adapter, {
+        depositPermissionsAddress: ZERO_ADDRESS,
+        redeemPermissionsAddress: ZERO_ADDRESS,
+        factoringPermissionsAddress: ZERO_ADDRESS,
+    });
+    await checkFactoryAcceptsPool(factory, config, adapter, initBytecode);
+    console.log('✅ Factory accepts the init bytecode, asset and protocol parameters');
+
+    const fee: BigNumber = await factory.poolCreationFee();
+    const nonce: BigNumber = await factory.poolNonce();
+    const { nativeCurrency } = getNetworkMetadata(network);
+    console.log(`💸 Pool creation fee: ${utils.formatEther(fee)} ${nativeCurrency}`);
+
+    const txHashes: string[] = [];
+    const missingPermissions = [
+        isUnset(config.depositPermissionsAddress) && 'DepositPermissions',
+        isUnset(config.factoringPermissionsAddress) && 'FactoringPermissions',
+    ].filter(Boolean);
+
+    if (options?.dryRun) {
+        const permissions = {
+            depositPermissionsAddress: config.depositPermissionsAddress || ZERO_ADDRESS,
+            redeemPermissionsAddress: config.redeemPermissionsAddress || config.depositPermissionsAddress || ZERO_ADDRESS,
+            factoringPermissionsAddress: config.factoringPermissionsAddress || ZERO_ADDRESS,
+        };
+        const { creationBytecode } = buildPoolCreationBytecode(config, adapter, permissions);
+        const predictedAddress: string = await factory.computeAddress(creationBytecode, signer.address, nonce);
+
+        console.log('\n🧪 Dry run: nothing was sent');
+        if (missingPermissions.length > 0) {
+            console.log(`   Would deploy: ${missingPermissions.join(', ')} (the predicted address changes with their addresses)`);
+        } else {
+            const gas = await factory.estimateGas.createPool(
+                creationBytecode,
+                config.underlyingAsset,
+                config.poolDisplayName,
+                config.poolTokenName,
+                config.poolTokenSymbol,
+                permissions.depositPermissionsAddress,
+                permissions.redeemPermissionsAddress,
+                permissions.factoringPermissionsAddress,
+                { value: fee },
+            );
+            console.log(`   createPool gas estimate: ${gas.toString()}`);
+        }
+        console.log(`   Predicted pool address: ${predictedAddress}`);
+        return { predictedAddress, txHashes };
+    }
+
+    const balance = await signer.getBalance();
+    if (balance.lt(fee)) {
+        throw new Error(`${signer.address} holds ${utils.formatEther(balance)} ${nativeCurrency}, less than the pool creation fee`);
+    }
+
+    // Register each permission contract as soon as it exists, so a failed run does not deploy it again
+    if (missingPermissions.length > 0) {
+        console.log(`\n📡 Deploying ${missingPermissions.join(', ')}...`);
+    }
+    if (isUnset(config.depositPermissionsAddress)) {
+        const deposit = await deployPermissions(signer, 'DepositPermissions');
+        txHashes.push(deposit.deployTransaction.hash);
+        config.depositPermissionsAddress = deposit.address;
+        updatePoolDeployment(network, pool, { depositPermissionsAddress: deposit.address });
+    }
+    if (isUnset(config.factoringPermissionsAddress)) {
+        const factoring = await deployPermissions(signer, 'FactoringPermissions');
+        txHashes.push(factoring.deployTransaction.hash);
+        config.factoringPermissionsAddress = factoring.address;
+        updatePoolDeployment(network, pool, { factoringPermissionsAddress: factoring.address });
+    }
+
+    const permissions: PoolPermissions = {
+        depositPermissionsAddress: config.depositPermissionsAddress!,
+        redeemPermissionsAddress: isUnset(config.redeemPermissionsAddress)
+            ? config.depositPermissionsAddress!
+            : config.redeemPermissionsAddress!,
+        factoringPermissionsAddress: config.factoringPermissionsAddress!,
+    };
+    const { creationBytecode } = buildPoolCreationBytecode(config, adapter, permissions);
+    const predictedAddress: string = await factory.computeAddress(creationBytecode, signer.address, nonce);
+    console.log(`\n🔮 Predicted pool address: ${predictedAddress}`);
+
+    console.log(`📡 Calling createPool on ${network}...`);
+    const tx = await factory.createPool(
+        creationBytecode,
+        config.underlyingAsset,
+        config.poolDisplayName,
+        config.poolTokenName,
+        config.poolTokenSymbol,
+        permissions.depositPermissionsAddress,
+        permissions.redeemPermissionsAddress,
+        permissions.factoringPermissionsAddress,
+        { value: fee },
+    );
+    txHashes.push(tx.hash);
+    console.log(`   ⏳ ${tx.hash}`);
+    const receipt: providers.TransactionReceipt = await tx.wait();
+
+    const created = receipt.logs
+        .filter(log => log.address.toLowerCase() === factoryAddress.toLowerCase())
+        .map(log => factory.interface.parseLog(log))
+        .find(event => event.name === 'PoolCreated');
+    if (!created) {
+        throw new Error(`createPool succeeded but no PoolCreated event was found in ${tx.hash}`);
+    }
+
+    const poolAddress: string = created.args.pool;
+    if (poolAddress.toLowerCase() !== predictedAddress.toLowerCase()) {
+        console.warn(
+            `⚠️  Pool was created at ${poolAddress}, not the predicted ${predictedAddress}; another createPool from this account landed first`,
+        );
+    }
+    console.log(`\n✅ Pool created at ${poolAddress}`);
+
+    console.log('\n📝 Updating config/deployments.json...');
+    updatePoolDeployment(network, pool, { bullaFactoringAddress: poolAddress, ...permissions });
+
+    console.log('\n📝 Next steps:');
+    console.log('   1. Callbacks were whitelisted by the factory through Zodiac Roles');
+    console.log('   2. Approve depositors and factorers (apply-permissions)');
+    console.log('   3. Apply operational parameters (yarn setup-pool-params)');
+
+    return { poolAddress, predictedAddress, txHashes };
+}
+
+/**
+ * Launcher: Get network, pool, and private key interactively, then run workflow
+ */
+export async function createPoolLauncher(): Promise<void> {
+    await runScript('create-pool', async context => {
+        const { network, pool } = await getNetworkAndPoolInteractive();
+        context.network = network;
+        context.pool = pool;
+        const privateKey = await getPrivateKeyInteractively();
+
+        const created = await createPoolWorkflow(network, pool, privateKey, { dryRun: hasFlag('--dry-run') });
+        context.txHashes.push(...created.txHashes);
+        context.details = { poolAddress: created.poolAddress, predictedAddress: created.predictedAddress };
+    });
+}
+
+// Only run launcher if this script is run directly
+if (require.main === module) {
+    setupGracefulExit();
+    createPoolLauncher();
+}
@@ -1,13 +1,17 @@
-import { getNetworkOnlyConfig, getRpcUrl } from './network-config';
+import { getNetworkOnlyConfig } from './network-config';
+import { hasFlag } from './utils/cli';
+import { dryRunForgeScript, ForgeWorkflowOptions } from './utils/dry-run';
 import { getPrivateKeyInteractively, runForgeScript, setupGracefulExit } from './utils/interactive-deploy';
 import { getNetworkInteractive } from './utils/interactive-prompt';
+import { resolveRpcUrl } from './utils/rpc';
+import { runScript } from './utils/script-runner';
 import { updateAdapterFromBroadcast } from './utils/update-config';
 import { verifyBroadcastContracts } from './utils/verify-forge';
 
 /**
  * Deploy adapter workflow (can be called with parameters or standalone)
  */
-export async function deployAdapterWorkflow(network: string, privateKey: string): Promise<void> {
+export async function deployAdapterWorkflow(network: string, privateKey: string, options?: ForgeWorkflowOptions): Promise<void> {
     console.log(`🚀 Deploying BullaClaimV2InvoiceProviderAdapterV2 to ${network} network...\n`);
 
     // Get network configuration (adapter is network-only, not pool-specific)
@@ -33,7 +37,7 @@ export async function deployAdapterWorkflow(network: string, privateKey: string)
     console.log(`📡 Starting adapter deployment to ${network}...\n`);
 
     // Get RPC URL using shared config
-    const rpcUrl = getRpcUrl(network);
+    const rpcUrl = await resolveRpcUrl(network);
 
     // Set environment variables for the deployment script
     const env: NodeJS.ProcessEnv = {
@@ -47,31 +51,40 @@ export async function deployAdapterWorkflow(network: string, privateKey: string)
         BULLA_INVOICE_ADDRESS: config.bullaInvoiceAddress || '0x0000000000000000000000000000000000000000',
     };
 
+    if (options?.dryRun) {
+        await dryRunForgeScript('script/DeployAdapter.s.sol:DeployAdapter', rpcUrl, privateKey, env, network);
+        return;
+    }
+
     // Run forge script and wait for completion
     await new Promise<void>((resolve, reject) => {
         const forgeProcess = runForgeScript('script/DeployAdapter.s.sol:DeployAdapter', rpcUrl, privateKey, env, network);
 
         // Handle forge process events with verification
         forgeProcess.on('close', async code => {
-            if (code === 0) {
-                console.log('\n✅ Adapter deployment completed successfully!');
-                console.log(`🎉 Your BullaClaimV2InvoiceProviderAdapterV2 is now live on ${network}!`);
-
-                // Update network config with new adapter address
-                console.log('\n📝 Updating network-config.ts...');
-                updateAdapterFromBroadcast('DeployAdapter.s.sol', network);
-
-                // Verify contracts using broadcast files
-                await verifyBroadcastContracts('DeployAdapter.s.sol', network, false); // false = only latest broadcast
-
-                console.log('\n📝 Next steps:');
-                console.log('   1. Check network-config.ts for the updated adapter address');
-                console.log('   2. Contract verification has been attempted automatically');
-                console.log('   3. Use this adapter in your factoring pool deployments');
-
-                resolve();
-            } else {
-                reject(new Error(`Adapter deployment failed with exit code ${code}`));
+            try {
+                if (code === 0) {
+                    console.log('\n✅ Adapter deployment completed successfully!');
+                    console.log(`🎉 Your BullaClaimV2InvoiceProviderAdapterV2 is now live on ${network}!`);
+
+                    // Update network config with new adapter address
+                    console.log('\n📝 Updating config/deployments.json...');
+                    updateAdapterFromBroadcast('DeployAdapter.s.sol', network);
+
+                    // Verify contracts using broadcast files
+                    await verifyBroadcastContracts('DeployAdapter.s.sol', network, false); // false = only latest broadcast
+
+                    console.log('\n📝 Next steps:');
+                    console.log('   1. Check config/deployments.json for the updated adapter address');
+                    console.log('   2. Contract verification has been attempted automatically');
+                    console.log('   3. Use this adapter in your factoring pool deployments');
+
+                    resolve();
+                } else {
+                    reject(new Error(`Adapter deployment failed with exit code ${code}`));
+                }
+            } catch (error) {
+                reject(error);
             }
         });
 
@@ -88,19 +101,17 @@ export async function deployAdapterWorkflow(network: string, privateKey: string)
 /**
  * Launcher: Get network and private key interactively, then run workflow
  */
-async function deployAdapterLauncher(): Promise<void> {
-    try {
+export async function deployAdapterLauncher(): Promise<void> {
+    await runScript('deploy-adapter', async context => {
         // Get network interactively
         const network = await getNetworkInteractive();
+        context.network = network;
 
         // Get private key interactively
         const privateKey = await getPrivateKeyInteractively();
 
-        await deployAdapterWorkflow(network, privateKey);
-    } catch (error: any) {
-        console.error('❌ Deployment error:', error.message);
-        process.exit(1);
-    }
+        await deployAdapterWorkflow(network, privateKey, { dryRun: hasFlag('--dry-run') });
+    });
 }
 
 // Only run launcher if this script is run directly
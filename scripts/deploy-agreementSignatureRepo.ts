@@ -1,14 +1,22 @@
-import { getNetworkOnlyConfig, getRpcUrl } from './network-config';
+import { getNetworkOnlyConfig } from './network-config';
 import { getUnderwriterAddress } from './deploy-sumsubKycIssuer';
+import { hasFlag } from './utils/cli';
+import { dryRunForgeScript, ForgeWorkflowOptions } from './utils/dry-run';
 import { getPrivateKeyInteractively, runForgeScript, setupGracefulExit } from './utils/interactive-deploy';
 import { getNetworkInteractive } from './utils/interactive-prompt';
+import { resolveRpcUrl } from './utils/rpc';
+import { runScript } from './utils/script-runner';
 import { updateAgreementSignatureRepoFromBroadcast } from './utils/update-config';
 import { verifyBroadcastContracts } from './utils/verify-forge';
 
 /**
  * Deploy AgreementSignatureRepo workflow (can be called with parameters or standalone)
  */
-export async function deployAgreementSignatureRepoWorkflow(network: string, privateKey: string): Promise<void> {
+export async function deployAgreementSignatureRepoWorkflow(
+    network: string,
+    privateKey: string,
+    options?: ForgeWorkflowOptions,
+): Promise<void> {
     console.log(`🚀 Deploying AgreementSignatureRepo to ${network} network...\n`);
 
     // Get network configuration
@@ -35,7 +43,7 @@ export async function deployAgreementSignatureRepoWorkflow(network: string, priv
     console.log(`📡 Starting AgreementSignatureRepo deployment to ${network}...\n`);
 
     // Get RPC URL using shared config
-    const rpcUrl = getRpcUrl(network);
+    const rpcUrl = await resolveRpcUrl(network);
 
     // Set environment variables for the deployment script
     const env: NodeJS.ProcessEnv = {
@@ -46,6 +54,11 @@ export async function deployAgreementSignatureRepoWorkflow(network: string, priv
         INITIAL_SIGNATURE_APPROVER: initialSignatureApprover,
     };
 
+    if (options?.dryRun) {
+        await dryRunForgeScript('script/DeployAgreementSignatureRepo.s.sol:DeployAgreementSignatureRepo', rpcUrl, privateKey, env, network);
+        return;
+    }
+
     // Run forge script and wait for completion
     await new Promise<void>((resolve, reject) => {
         const forgeProcess = runForgeScript(
@@ -57,25 +70,29 @@ export async function deployAgreementSignatureRepoWorkflow(network: string, priv
         );
 
         forgeProcess.on('close', async code => {
-            if (code === 0) {
-                console.log('\n✅ AgreementSignatureRepo deployment completed successfully!');
-                console.log(`🎉 Your AgreementSignatureRepo is now live on ${network}!`);
-
-                // Update network config with new address
-                console.log('\n📝 Updating network-config.ts...');
-                updateAgreementSignatureRepoFromBroadcast('DeployAgreementSignatureRepo.s.sol', network);
-
-                // Verify contracts using broadcast files
-                await verifyBroadcastContracts('DeployAgreementSignatureRepo.s.sol', network, false);
-
-                console.log('\n📝 Next steps:');
-                console.log('   1. Check network-config.ts for the updated AgreementSignatureRepo address');
-                console.log('   2. Contract verification has been attempted automatically');
-                console.log('   3. Configure the signature approver if needed');
-
-                resolve();
-            } else {
-                reject(new Error(`AgreementSignatureRepo deployment failed with exit code ${code}`));
+            try {
+                if (code === 0) {
+                    console.log('\n✅ AgreementSignatureRepo deployment completed successfully!');
+                    console.log(`🎉 Your AgreementSignatureRepo is now live on ${network}!`);
+
+                    // Update network config with new address
+                    console.log('\n📝 Updating config/deployments.json...');
+                    updateAgreementSignatureRepoFromBroadcast('DeployAgreementSignatureRepo.s.sol', network);
+
+                    // Verify contracts using broadcast files
+                    await verifyBroadcastContracts('DeployAgreementSignatureRepo.s.sol', network, false);
+
+                    console.log('\n📝 Next steps:');
+                    console.log('   1. Check config/deployments.json for the updated AgreementSignatureRepo address');
+                    console.log('   2. Contract verification has been attempted automatically');
+                    console.log('   3. Configure the signature approver if needed');
+
+                    resolve();
+                } else {
+                    reject(new Error(`AgreementSignatureRepo deployment failed with exit code ${code}`));
+                }
+            } catch (error) {
+                reject(error);
             }
         });
 
@@ -92,16 +109,14 @@ export async function deployAgreementSignatureRepoWorkflow(network: string, priv
 /**
  * Launcher: Get network and private key interactively, then run workflow
  */
-async function deployAgreementSignatureRepoLauncher(): Promise<void> {
-    try {
+export async function deployAgreementSignatureRepoLauncher(): Promise<void> {
+    await runScript('deploy-agreementSignatureRepo', async context => {
         const network = await getNetworkInteractive();
+        context.network = network;
         const privateKey = await getPrivateKeyInteractively();
 
-        await deployAgreementSignatureRepoWorkflow(network, privateKey);
-    } catch (error: any) {
-        console.error('❌ Deployment error:', error.message);
-        process.exit(1);
-    }
+        await deployAgreementSignatureRepoWorkflow(network, privateKey, { dryRun: hasFlag('--dry-run') });
+    });
 }
 
 // Only run launcher if this script is run directly
@@ -1,17 +1,39 @@
-import { getConfig, getRpcUrl, PoolName } from './network-config';
+import { FullConfig, getConfig, getInsuranceParamsErrors, PoolName } from './network-config';
+import { hasFlag } from './utils/cli';
+import { dryRunForgeScript, ForgeWorkflowOptions } from './utils/dry-run';
 import { getPrivateKeyInteractively, runForgeScript, setupGracefulExit } from './utils/interactive-deploy';
 import { getNetworkAndPoolInteractive } from './utils/interactive-prompt';
+import { resolveRpcUrl } from './utils/rpc';
+import { runScript } from './utils/script-runner';
 import { updateFactoringFromBroadcast } from './utils/update-config';
 import { verifyBroadcastContracts } from './utils/verify-forge';
 
 /**
  * Deploy factoring workflow (can be called with parameters or standalone)
+ * @param overrides - Values used instead of config, e.g. the parameters of a pool being migrated
  */
-export async function deployFactoringWorkflow(network: string, pool: PoolName, privateKey: string): Promise<void> {
+export async function deployFactoringWorkflow(
+    network: string,
+    pool: PoolName,
+    privateKey: string,
+    options?: ForgeWorkflowOptions,
+    overrides?: Partial<FullConfig>,
+): Promise<void> {
     console.log(`🚀 Deploying BullaFactoring contracts to ${network}/${pool}...\n`);
 
     // Get full configuration
-    const config = getConfig(network, pool);
+    const config: FullConfig = { ...getConfig(network, pool), ...overrides };
+
+    // Validate insurance parameters before broadcasting, so the constructor cannot revert mid-deployment
+    const insuranceErrors = getInsuranceParamsErrors(config);
+    if (insuranceErrors.length > 0) {
+        throw new Error(`Invalid insurance parameters for ${network}/${pool}:\n   ${insuranceErrors.join('\n   ')}`);
+    }
+
+    // The forge script falls back to the deployer as insurer, which is never what a production pool wants
+    if (!config.bullaFactoringAddress && (!config.insurer || config.insurer === '0x0000000000000000000000000000000000000000')) {
+        throw new Error(`Insurer not configured for ${network}/${pool}. Set "insurer" for the pool in config/deployments.json`);
+    }
 
     // Display deployment info
     console.log('📋 Deployment Configuration:');
@@ -22,12 +44,16 @@ export async function deployFactoringWorkflow(network: string, pool: PoolName, p
     console.log(`   Token Symbol: ${config.poolTokenSymbol}`);
     console.log(`   Protocol Fee: ${config.protocolFeeBps} bps`);
     console.log(`   Admin Fee: ${config.adminFeeBps} bps`);
-    console.log(`   Target Yield: ${config.targetYieldBps} bps\n`);
+    console.log(`   Target Yield: ${config.targetYieldBps} bps`);
+    console.log(`   Insurer: ${config.insurer || 'Not set'}`);
+    console.log(`   Insurance Fee: ${config.insuranceFeeBps} bps`);
+    console.log(`   Impairment Gross Gain: ${config.impairmentGrossGainBps} bps`);
+    console.log(`   Recovery Profit Ratio: ${config.recoveryProfitRatioBps} bps\n`);
 
     console.log(`📡 Starting deployment to ${network}...\n`);
 
     // Get RPC URL using shared config
-    const rpcUrl = getRpcUrl(network);
+    const rpcUrl = await resolveRpcUrl(network);
 
     // Set environment variables for the deployment script
     const env: NodeJS.ProcessEnv = {
@@ -53,33 +79,46 @@ export async function deployFactoringWorkflow(network: string, pool: PoolName, p
         BULLA_FREND_LEND_ADDRESS: config.bullaFrendLendAddress || '',
         BULLA_INVOICE_ADDRESS: config.bullaInvoiceAddress || '',
         BULLA_FACTORING_ADDRESS: config.bullaFactoringAddress || '',
+        INSURER_ADDRESS: config.insurer || '',
+        INSURANCE_FEE_BPS: config.insuranceFeeBps.toString(),
+        IMPAIRMENT_GROSS_GAIN_BPS: config.impairmentGrossGainBps.toString(),
+        RECOVERY_PROFIT_RATIO_BPS: config.recoveryProfitRatioBps.toString(),
     };
 
+    if (options?.dryRun) {
+        await dryRunForgeScript('script/DeployBullaFactoring.s.sol:DeployBullaFactoring', rpcUrl, privateKey, env, network);
+        return;
+    }
+
     // Run forge script and wait for completion
     await new Promise<void>((resolve, reject) => {
         const forgeProcess = runForgeScript('script/DeployBullaFactoring.s.sol:DeployBullaFactoring', rpcUrl, privateKey, env, network);
 
         // Handle forge process events with verification
         forgeProcess.on('close', async code => {
-            if (code === 0) {
-                console.log('\n✅ Deployment completed successfully!');
-                console.log(`🎉 Your BullaFactoring contracts are now live on ${network}/${pool}!`);
-
-                // Update network config with new deployment addresses
-                console.log('\n📝 Updating network-config.ts...');
-                updateFactoringFromBroadcast('DeployBullaFactoring.s.sol', network, pool);
-
-                // Verify contracts using broadcast files
-                await verifyBroadcastContracts('DeployBullaFactoring.s.sol', network, false); // false = only latest broadcast
-
-                console.log('\n📝 Next steps:');
-                console.log('   1. Check network-config.ts for updated deployment addresses');
-                console.log('   2. Contract verification has been attempted automatically');
-                console.log('   3. Set up permissions and whitelist callbacks');
-
-                resolve();
-            } else {
-                reject(new Error(`Deployment failed with exit code ${code}`));
+            try {
+                if (code === 0) {
+                    console.log('\n✅ Deployment completed successfully!');
+                    console.log(`🎉 Your BullaFactoring contracts are now live on ${network}/${pool}!`);
+
+                    // Update network config with new deployment addresses
+                    console.log('\n📝 Updating config/deployments.json...');
+                    updateFactoringFromBroadcast('DeployBullaFactoring.s.sol', network, pool);
+
+                    // Verify contracts using broadcast files
+                    await verifyBroadcastContracts('DeployBullaFactoring.s.sol', network, false); // false = only latest broadcast
+
+                    console.log('\n📝 Next steps:');
+                    console.log('   1. Check config/deployments.json for updated deployment addresses');
+                    console.log('   2. Contract verification has been attempted automatically');
+                    console.log('   3. Set up permissions and whitelist callbacks');
+
+                    resolve();
+                } else {
+                    reject(new Error(`Deployment failed with exit code ${code}`));
+                }
+            } catch (error) {
+                reject(error);
             }
         });
 
@@ -96,19 +135,18 @@ export async function deployFactoringWorkflow(network: string, pool: PoolName, p
 /**
  * Launcher: Get network, pool, and private key interactively, then run workflow
  */
-async function deployFactoringLauncher(): Promise<void> {
-    try {
+export async function deployFactoringLauncher(): Promise<void> {
+    await runScript('deploy-bullaFactoring', async context => {
         // Get network and pool interactively
         const { network, pool } = await getNetworkAndPoolInteractive();
+        context.network = network;
+        context.pool = pool;
 
         // Get private key interactively
         const privateKey = await getPrivateKeyInteractively();
 
-        await deployFactoringWorkflow(network, pool, privateKey);
-    } catch (error: any) {
-        console.error('❌ Deployment error:', error.message);
-        process.exit(1);
-    }
+        await deployFactoringWorkflow(network, pool, privateKey, { dryRun: hasFlag('--dry-run') });
+    });
 }
 
 // Only run launcher if this script is run directly
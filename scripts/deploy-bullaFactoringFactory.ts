@@ -1,12 +1,16 @@
-import { getNetworkOnlyConfig, getRpcUrl, DEFAULT_PROTOCOL_FEE_BPS } from './network-config';
+import { getNetworkOnlyConfig, DEFAULT_PROTOCOL_FEE_BPS } from './network-config';
+import { hasFlag } from './utils/cli';
+import { dryRunForgeScript, ForgeWorkflowOptions } from './utils/dry-run';
 import { getPrivateKeyInteractively, runForgeScript, setupGracefulExit } from './utils/interactive-deploy';
 import { getNetworkInteractive } from './utils/interactive-prompt';
+import { resolveRpcUrl } from './utils/rpc';
+import { runScript } from './utils/script-runner';
 import { verifyBroadcastContracts } from './utils/verify-forge';
 
 /**
  * Deploy BullaFactoringFactoryV2_1 workflow
  */
-export async function deployFactoryWorkflow(network: string, privateKey: string): Promise<void> {
+export async function deployFactoryWorkflow(network: string, privateKey: string, options?: ForgeWorkflowOptions): Promise<void> {
     console.log(`🏭 Deploying BullaFactoringFactoryV2_1 to ${network}...\n`);
 
     // Get network-specific configuration
@@ -23,7 +27,7 @@ export async function deployFactoryWorkflow(network: string, privateKey: string)
     console.log(`📡 Starting deployment to ${network}...\n`);
 
     // Get RPC URL using shared config
-    const rpcUrl = getRpcUrl(network);
+    const rpcUrl = await resolveRpcUrl(network);
 
     // Set environment variables for the deployment script
     const env: NodeJS.ProcessEnv = {
@@ -40,6 +44,11 @@ export async function deployFactoryWorkflow(network: string, privateKey: string)
         PROTOCOL_FEE_BPS: DEFAULT_PROTOCOL_FEE_BPS.toString(),
     };
 
+    if (options?.dryRun) {
+        await dryRunForgeScript('script/DeployBullaFactoringFactory.s.sol:DeployBullaFactoringFactory', rpcUrl, privateKey, env, network);
+        return;
+    }
+
     // Run forge script and wait for completion
     await new Promise<void>((resolve, reject) => {
         const forgeProcess = runForgeScript(
@@ -52,24 +61,28 @@ export async function deployFactoryWorkflow(network: string, privateKey: string)
 
         // Handle forge process events with verification
         forgeProcess.on('close', async code => {
-            if (code === 0) {
-                console.log('\n✅ Factory deployment completed successfully!');
-                console.log(`🏭 BullaFactoringFactoryV2_1 is now live on ${network}!`);
-                console.log('📋 Contracts should be auto-verified via --verify flag');
-
-                // Fallback: Manual verification in case auto-verify failed
-                console.log('\n🔄 Running fallback verification (in case auto-verify missed any)...');
-                await verifyBroadcastContracts('DeployBullaFactoringFactory.s.sol', network, false);
-
-                console.log('\n📝 Next steps:');
-                console.log('   1. Update network-config.ts with the factory address');
-                console.log('   2. Add the factory to your subgraph data sources');
-                console.log('   3. Factory owner (BullaDao) can now configure factory settings');
-                console.log('   4. Users can create new pools via createPool()');
-
-                resolve();
-            } else {
-                reject(new Error(`Deployment failed with exit code ${code}`));
+            try {
+                if (code === 0) {
+                    console.log('\n✅ Factory deployment completed successfully!');
+                    console.log(`🏭 BullaFactoringFactoryV2_1 is now live on ${network}!`);
+                    console.log('📋 Contracts should be auto-verified via --verify flag');
+
+                    // Fallback: Manual verification in case auto-verify failed
+                    console.log('\n🔄 Running fallback verification (in case auto-verify missed any)...');
+                    await verifyBroadcastContracts('DeployBullaFactoringFactory.s.sol', network, false);
+
+                    console.log('\n📝 Next steps:');
+                    console.log('   1. Add the factory address to config/deployments.json');
+                    console.log('   2. Add the factory to your subgraph data sources');
+                    console.log('   3. Factory owner (BullaDao) can now configure factory settings');
+                    console.log('   4. Users can create new pools via createPool()');
+
+                    resolve();
+                } else {
+                    reject(new Error(`Deployment failed with exit code ${code}`));
+                }
+            } catch (error) {
+                reject(error);
             }
         });
 
@@ -86,19 +99,17 @@ export async function deployFactoryWorkflow(network: string, privateKey: string)
 /**
  * Launcher: Get network and private key interactively, then run workflow
  */
-async function deployFactoryLauncher(): Promise<void> {
-    try {
+export async function deployFactoryLauncher(): Promise<void> {
+    await runScript('deploy-bullaFactoringFactory', async context => {
         // Get network interactively
         const network = await getNetworkInteractive();
+        context.network = network;
 
         // Get private key interactively
         const privateKey = await getPrivateKeyInteractively();
 
-        await deployFactoryWorkflow(network, privateKey);
-    } catch (error: any) {
-        console.error('❌ Deployment error:', error.message);
-        process.exit(1);
-    }
+        await deployFactoryWorkflow(network, privateKey, { dryRun: hasFlag('--dry-run') });
+    });
 }
 
 // Only run launcher if this script is run directly
@@ -0,0 +1,364 @@
+import { constants, Contract, providers, Wallet } from 'ethers';
+import { deployAgreementSignatureRepoWorkflow } from './deploy-agreementSignatureRepo';
+import { deployComplianceDepositPermissionsWorkflow } from './deploy-complianceDepositPermissions';
+import { deployMockSanctionsListWorkflow } from './deploy-mockSanctionsList';
+import { deploySumsubKycIssuerWorkflow } from './deploy-sumsubKycIssuer';
+import { getAvailablePools, getDeployedPoolConfig, getNetworkOnlyConfig, NetworkConfig, PoolName } from './network-config';
+import { assertCanPrompt, getInput, hasFlag, InputError } from './utils/cli';
+import { ForgeWorkflowOptions } from './utils/dry-run';
+import { getPrivateKeyInteractively, setupGracefulExit } from './utils/interactive-deploy';
+import { getNetworkInteractive, promptInput } from './utils/interactive-prompt';
+import { getNetworkMetadata } from './utils/networks';
+import { resolveRpcUrl } from './utils/rpc';
+import { isProposeMode, resolveSafeAddress, SafeCall, writeSafeBatches } from './utils/safe-batch';
+import { runScript } from './utils/script-runner';
+import { updatePoolDeployment } from './utils/update-config';
+
+// Sets up deposit compliance on a network in one go: deploys whichever of the sanctions list (testnets only),
+// SumsubKycIssuer, AgreementSignatureRepo, BullaKycGate and ComplianceDepositPermissions are missing,
+// then makes the owner-only calls that wire them to the selected pools.
+
+const ADD_ISSUER = 'function addIssuer(address _issuer)';
+const SET_POOL_DOCUMENT_VERSION = 'function setPoolDocumentVersion(address pool, uint256 version)';
+const SET_DEPOSIT_PERMISSIONS = 'function setDepositPermissions(address _newDepositPermissionsAddress)';
+
+const KYC_GATE_ABI = ['function getIssuers() view returns (address[])', ADD_ISSUER];
+const COMPLIANCE_ABI = [
+    'function kycGate() view returns (address)',
+    'function poolDocumentVersion(address pool) view returns (uint256)',
+    SET_POOL_DOCUMENT_VERSION,
+];
+const BULLA_FACTORING_ABI = ['function depositPermissions() view returns (address)', SET_DEPOSIT_PERMISSIONS];
+
+/** Components in deployment order; each deploy workflow reads the earlier ones from config */
+const COMPONENTS = [
+    { key: 'sanctionsListAddress', label: 'Sanctions list' },
+    { key: 'sumsubKycIssuerAddress', label: 'SumsubKycIssuer' },
+    { key: 'agreementSignatureRepoAddress', label: 'AgreementSignatureRepo' },
+    { key: 'bullaKycGateAddress', label: 'BullaKycGate' },
+    { key: 'complianceDepositPermissionsAddress', label: 'ComplianceDepositPermissions' },
+] as const;
+
+export type ComplianceComponent = (typeof COMPONENTS)[number]['key'];
+
+export type ComponentStatus = {
+    key: ComplianceComponent;
+    label: string;
+    address?: string;
+    deployed: boolean;
+};
+
+export type ComplianceStackOptions = ForgeWorkflowOptions & {
+    /** Pools to set the document version on; defaults to every deployed pool on the network */
+    pools?: PoolName[];
+    /** Agreement document version depositors must have signed; required when pools are selected */
+    documentVersion?: number;
+    /** Point each selected pool's deposit permissions at ComplianceDepositPermissions */
+    switchDepositPermissions?: boolean;
+};
+
+/** An owner-only call, sent directly or proposed to the contract owner's Safe */
+type AdminCall = Omit<SafeCall, 'safe'> & { description: string; pool?: PoolName };
+
+/**
+ * Check which compliance contracts are configured and have code on-chain
+ * @throws Error if a configured address has no code, since the deploy workflows would skip it
+ */
+export async function inspectComplianceStack(provider: providers.Provider, config: NetworkConfig): Promise<ComponentStatus[]> {
+    const statuses: ComponentStatus[] = [];
+    for (const { key, label } of COMPONENTS) {
+        const address = config[key];
+        if (!address || address === constants.AddressZero) {
+            statuses.push({ key, label, deployed: false });
+            continue;
+        }
+        if ((await provider.getCode(address)) === '0x') {
+            throw new Error(
+                `${label} is configured at ${address}, which has no code. Remove ${key} from config/deployments.json to redeploy it`,
+            );
+        }
+        statuses.push({ key, label, address, deployed: true });
+    }
+    return statuses;
+}
+
+function printComponentStatuses(statuses: ComponentStatus[]): void {
+    console.log('📋 Compliance Stack:');
+    statuses.forEach(status => console.log(`   ${status.deployed ? '✅' : '➕'} ${status.label}: ${status.address || 'will deploy'}`));
+    console.log('');
+}
+
+/**
+ * Deploy the missing compliance contracts, in dependency order
+ * In a dry run only contracts whose dependencies already exist can be simulated.
+ */
+async function deployMissingComponents(
+    network: string,
+    privateKey: string,
+    statuses: ComponentStatus[],
+    options: ComplianceStackOptions,
+): Promise<void> {
+    const missing = new Set(statuses.filter(status => !status.deployed).map(status => status.key));
+
+    if (missing.has('sanctionsListAddress')) {
+        if (!getNetworkMetadata(network).testnet) {
+            throw new Error(
+                `No sanctions list configured for '${network}'. Set sanctionsListAddress to the Chainalysis oracle in config/deployments.json`,
+            );
+        }
+        await deployMockSanctionsListWorkflow(network, privateKey, options);
+    }
+    if (missing.has('sumsubKycIssuerAddress')) {
+        await deploySumsubKycIssuerWorkflow(network, privateKey, options);
+    }
+    if (missing.has('agreementSignatureRepoAddress')) {
+        await deployAgreementSignatureRepoWorkflow(network, privateKey, options);
+    }
+
+    // Deploys BullaKycGate too when it is missing, registering the issuer and handing both to bullaDao
+    if (missing.has('complianceDepositPermissionsAddress')) {
+        const unmetDependencies = ['sanctionsListAddress', 'sumsubKycIssuerAddress', 'agreementSignatureRepoAddress'].filter(key =>
+            missing.has(key as ComplianceComponent),
+        );
+        if (options.dryRun && unmetDependencies.length > 0) {
+            console.log(`⏭️  ComplianceDepositPermissions would be deployed once ${unmetDependencies.join(', ')} exist\n`);
+            return;
+        }
+        await deployComplianceDepositPermissionsWorkflow(network, privateKey, {}, options);
+    } else if (missing.has('bullaKycGateAddress')) {
+        console.log('⚠️  ComplianceDepositPermissions is deployed but no BullaKycGate is configured; using the gate it points at\n');
+    }
+}
+
+/**
+ * Work out the owner-only calls still needed: the issuer on the gate, each pool's document version,
+ * and optionally each pool's deposit permissions
+ */
+async function planAdminCalls(
+    provider: providers.Provider,
+    network: string,
+    pools: PoolName[],
+    options: ComplianceStackOptions,
+): Promise<AdminCall[]> {
+    const config = getNetworkOnlyConfig(network);
+    const complianceAddress = config.complianceDepositPermissionsAddress!;
+    const compliance = new Contract(complianceAddress, COMPLIANCE_ABI, provider);
+    const calls: AdminCall[] = [];
+
+    const gateAddress: string = await compliance.kycGate();
+    const issuers: string[] = await new Contract(gateAddress, KYC_GATE_ABI, provider).getIssuers();
+    if (config.sumsubKycIssuerAddress && !issuers.some(issuer => issuer.toLowerCase() === config.sumsubKycIssuerAddress!.toLowerCase())) {
+        calls.push({
+            to: gateAddress,
+            contractLabel: 'BullaKycGate',
+            signature: ADD_ISSUER,
+            args: [config.sumsubKycIssuerAddress],
+            description: `Register SumsubKycIssuer ${config.sumsubKycIssuerAddress} on BullaKycGate`,
+        });
+    }
+
+    for (const pool of pools) {
+        const poolAddress = getDeployedPoolConfig(network, pool)!.bullaFactoringAddress!;
+
+        const currentVersion = (await compliance.poolDocumentVersion(poolAddress)).toNumber();
+        if (currentVersion !== options.documentVersion) {
+            calls.push({
+                to: complianceAddress,
+                contractLabel: 'ComplianceDepositPermissions',
+                signature: SET_POOL_DOCUMENT_VERSION,
+                args: [poolAddress, options.documentVersion],
+                description: `Set the ${pool} pool's document version: ${currentVersion} → ${options.documentVersion}`,
+                pool,
+            });
+        }
+
+        // After the document version, so depositors who signed it are allowed as soon as the switch lands
+        if (options.switchDepositPermissions) {
+            const current: string = await new Contract(poolAddress, BULLA_FACTORING_ABI, provider).depositPermissions();
+            if (current.toLowerCase() !== complianceAddress.toLowerCase()) {
+                calls.push({
+                    to: poolAddress,
+                    contractLabel: `BullaFactoring (${pool})`,
+                    signature: SET_DEPOSIT_PERMISSIONS,
+                    args: [complianceAddress],
+                    description: `Switch the ${pool} pool's deposit permissions: ${current} → ${complianceAddress}`,
+                    pool,
+                });
+            }
+        }
+    }
+
+    return calls;
+}
+
+/**
+ * Check that the signer owns every contract it would call, since deployed contracts are handed to bullaDao
+ * @throws InputError naming the contracts owned by someone else, pointing to --propose
+ */
+async function assertSignerOwnsTargets(provider: providers.Provider, signerAddress: string, calls: AdminCall[]): Promise<void> {
+    const targets = new Map(calls.map(call => [call.to.toLowerCase(), call]));
+    const notOwned: string[] = [];
+    for (const { to, contractLabel } of targets.values()) {
+        const owner: string = await new Contract(to, ['function owner() view returns (address)'], provider).owner();
+        if (owner.toLowerCase() !== signerAddress.toLowerCase()) {
+            notOwned.push(`   ${contractLabel} at ${to} is owned by ${owner}`);
+        }
+    }
+
+    if (notOwned.length > 0) {
+        const details = notOwned.join('\n');
+        throw new InputError(
+            `${signerAddress} does not own the contracts to call:\n${details}\nRerun with --propose to write Safe batches instead`,
+        );
+    }
+}
+
+/**
+ * Compliance stack workflow (can be called with parameters or standalone)
+ * With `propose` the owner-only calls are written as Safe batches for the owner of each contract, usually bullaDao.
+ */
+export async function deployComplianceStackWorkflow(
+    network: string,
+    privateKey: string,
+    options: ComplianceStackOptions = {},
+): Promise<string[]> {
+    console.log(`🛡️  Setting up deposit compliance on ${network}...\n`);
+
+    const rpcUrl = await resolveRpcUrl(network);
+    const provider = new providers.StaticJsonRpcProvider(rpcUrl, getNetworkMetadata(network).chainId);
+    const pools = options.pools ?? getAvailablePools(network).filter(pool => getDeployedPoolConfig(network, pool)?.bullaFactoringAddress);
+
+    for (const pool of pools) {
+        if (!getDeployedPoolConfig(network, pool)?.bullaFactoringAddress) {
+            throw new InputError(`Pool '${pool}' has no bullaFactoringAddress on '${network}'`);
+        }
+    }
+    if (pools.length > 0 && options.documentVersion === undefined) {
+        throw new InputError('A document version is required to set on the selected pools');
+    }
+
+    const statuses = await inspectComplianceStack(provider, getNetworkOnlyConfig(network));
+    printComponentStatuses(statuses);
+    await deployMissingComponents(network, privateKey, statuses, options);
+
+    if (!getNetworkOnlyConfig(network).complianceDepositPermissionsAddress) {
+        console.log('🧪 Dry run: owner-only calls are planned once ComplianceDepositPermissions exists');
+        return [];
+    }
+
+    const calls = await planAdminCalls(provider, network, pools, options);
+    if (calls.length === 0) {
+        console.log(`✅ Compliance is wired up for ${pools.length > 0 ? pools.join(', ') : 'the network'}, nothing to send`);
+        return [];
+    }
+
+    console.log('📋 Owner-only Calls:');
+    calls.forEach(call => console.log(`   ${call.description}`));
+
+    if (options.propose) {
+        const safeCalls: SafeCall[] = [];
+        for (const { description, pool, ...call } of calls) {
+            safeCalls.push({ ...call, safe: await resolveSafeAddress(provider, call.to) });
+        }
+        writeSafeBatches(network, 'compliance-stack', `Wire deposit compliance on ${network}`, safeCalls);
+        if (options.switchDepositPermissions) {
+            console.log('\n💡 Update depositPermissionsAddress in config/deployments.json once the Safe executes the switch');
+        }
+        return [];
+    }
+
+    // Checked before the dry run returns, so a dry run also reports calls the signer could not send
+    const signer = new Wallet(privateKey, provider);
+    await assertSignerOwnsTargets(provider, signer.address, calls);
+
+    if (options.dryRun) {
+        console.log('\n🧪 Dry run: nothing was sent');
+        return [];
+    }
+
+    const txHashes: string[] = [];
+
+    console.log(`\n📡 Sending ${calls.length} transaction(s) on ${network}...\n`);
+    for (const call of calls) {
+        const contract = new Contract(call.to, [call.signature], signer);
+        const method = Object.values(contract.interface.functions)[0].name;
+        const tx = await contract[method](...call.args);
+        txHashes.push(tx.hash);
+        console.log(`   ⏳ ${tx.hash}`);
+        await tx.wait();
+
+        if (call.signature === SET_DEPOSIT_PERMISSIONS) {
+            updatePoolDeployment(network, call.pool!, { depositPermissionsAddress: call.args[0] as string });
+        }
+    }
+
+    console.log('\n✅ Deposit compliance set up successfully!');
+    return txHashes;
+}
+
+/**
+ * Read the pools from --pools / POOLS (comma-separated), defaulting to every deployed pool
+ */
+function getPoolsInput(network: string): PoolName[] | undefined {
+    const input = getInput('--pools', 'POOLS');
+    if (!input) {
+        return undefined;
+    }
+
+    const available = getAvailablePools(network);
+    const pools = input.split(',').map(pool => pool.trim());
+    const unknown = pools.filter(pool => !available.includes(pool));
+    if (unknown.length > 0) {
+        throw new InputError(`Pool(s) not deployed on '${network}': ${unknown.join(', ')}. Available pools: ${available.join(', ')}`);
+    }
+    return pools;
+}
+
+/**
+ * Read the document version from --document-version / DOCUMENT_VERSION, prompting when neither is set
+ */
+async function getDocumentVersionInput(): Promise<number> {
+    let input = getInput('--document-version', 'DOCUMENT_VERSION');
+    if (!input) {
+        assertCanPrompt('document version', ['--document-version <n>', 'DOCUMENT_VERSION=<n>']);
+        input = await promptInput('📄 Agreement document version for the selected pools:');
+    }
+
+    const version = Number(input);
+    if (!Number.isInteger(version) || version < 0) {
+        throw new InputError(`Invalid document version: ${input}`);
+    }
+    return version;
+}
+
+/**
+ * Launcher: Get network, pools and private key interactively, then run workflow
+ * Options: --pools a,b, --document-version <n>, --switch-deposit-permissions, --dry-run, --propose
+ */
+export async function deployComplianceStackLauncher(): Promise<void> {
+    await runScript('deploy-compliance-stack', async context => {
+        const network = await getNetworkInteractive();
+        context.network = network;
+
+        const pools = getPoolsInput(network);
+        const hasPools = pools ? pools.length > 0 : getAvailablePools(network).length > 0;
+        const options: ComplianceStackOptions = {
+            dryRun: hasFlag('--dry-run'),
+            propose: isProposeMode(),
+            pools,
+            documentVersion: hasPools ? await getDocumentVersionInput() : undefined,
+            switchDepositPermissions: hasFlag('--switch-deposit-permissions'),
+        };
+        const privateKey = await getPrivateKeyInteractively();
+
+        context.txHashes.push(...(await deployComplianceStackWorkflow(network, privateKey, options)));
+        context.details.pools = options.pools;
+        context.details.documentVersion = options.documentVersion;
+    });
+}
+
+// Only run launcher if this script is run directly
+if (require.main === module) {
+    setupGracefulExit();
+    deployComplianceStackLauncher();
+}
@@ -1,6 +1,10 @@
-import { getNetworkOnlyConfig, getRpcUrl } from './network-config';
+import { getNetworkOnlyConfig } from './network-config';
+import { hasFlag } from './utils/cli';
+import { dryRunForgeScript, ForgeWorkflowOptions } from './utils/dry-run';
 import { getPrivateKeyInteractively, runForgeScript, setupGracefulExit } from './utils/interactive-deploy';
 import { getNetworkInteractive } from './utils/interactive-prompt';
+import { resolveRpcUrl } from './utils/rpc';
+import { runScript } from './utils/script-runner';
 import {
     updateBullaKycGateFromBroadcast,
     updateComplianceDepositPermissionsFromBroadcast,
@@ -20,6 +24,7 @@ export async function deployComplianceDepositPermissionsWorkflow(
         sanctionsListAddress?: string;
         bullaKycGateAddress?: string;
     },
+    options?: ForgeWorkflowOptions,
 ): Promise<void> {
     console.log(`🚀 Deploying ComplianceDepositPermissions to ${network} network...\n`);
 
@@ -42,7 +47,7 @@ export async function deployComplianceDepositPermissionsWorkflow(
     if (!sanctionsListAddress) {
         throw new Error(
             `No sanctions list address configured for '${network}'. ` +
-                `Set sanctionsListAddress in network-config.ts or pass SANCTIONS_LIST_ADDRESS env var.`,
+                `Set sanctionsListAddress in config/deployments.json or pass SANCTIONS_LIST_ADDRESS env var.`,
         );
     }
 
@@ -83,7 +88,7 @@ export async function deployComplianceDepositPermissionsWorkflow(
     console.log(`📡 Starting ComplianceDepositPermissions deployment to ${network}...\n`);
 
     // Get RPC URL using shared config
-    const rpcUrl = getRpcUrl(network);
+    const rpcUrl = await resolveRpcUrl(network);
 
     // Set environment variables for the deployment script
     const env: NodeJS.ProcessEnv = {
@@ -98,6 +103,17 @@ export async function deployComplianceDepositPermissionsWorkflow(
         BULLA_KYC_GATE_ADDRESS: bullaKycGateAddress,
     };
 
+    if (options?.dryRun) {
+        await dryRunForgeScript(
+            'script/DeployComplianceDepositPermissions.s.sol:DeployComplianceDepositPermissions',
+            rpcUrl,
+            privateKey,
+            env,
+            network,
+        );
+        return;
+    }
+
     // Run forge script and wait for completion
     await new Promise<void>((resolve, reject) => {
         const forgeProcess = runForgeScript(
@@ -109,29 +125,33 @@ export async function deployComplianceDepositPermissionsWorkflow(
         );
 
         forgeProcess.on('close', async code => {
-            if (code === 0) {
-                console.log('\n✅ ComplianceDepositPermissions deployment completed successfully!');
-                console.log(`🎉 Your ComplianceDepositPermissions is now live on ${network}!`);
-
-                // Update network config with new addresses
-                console.log('\n📝 Updating network-config.ts...');
-                updateBullaKycGateFromBroadcast('DeployComplianceDepositPermissions.s.sol', network);
-                updateComplianceDepositPermissionsFromBroadcast(
-                    'DeployComplianceDepositPermissions.s.sol',
-                    network,
-                );
-
-                // Verify contracts using broadcast files
-                await verifyBroadcastContracts('DeployComplianceDepositPermissions.s.sol', network, false);
-
-                console.log('\n📝 Next steps:');
-                console.log('   1. Check network-config.ts for the updated addresses');
-                console.log('   2. Contract verification has been attempted automatically');
-                console.log('   3. Set this as the depositPermissions on the factoring pool');
-
-                resolve();
-            } else {
-                reject(new Error(`ComplianceDepositPermissions deployment failed with exit code ${code}`));
+            try {
+                if (code === 0) {
+                    console.log('\n✅ ComplianceDepositPermissions deployment completed successfully!');
+                    console.log(`🎉 Your ComplianceDepositPermissions is now live on ${network}!`);
+
+                    // Update network config with new addresses
+                    console.log('\n📝 Updating config/deployments.json...');
+                    updateBullaKycGateFromBroadcast('DeployComplianceDepositPermissions.s.sol', network);
+                    updateComplianceDepositPermissionsFromBroadcast(
+                        'DeployComplianceDepositPermissions.s.sol',
+                        network,
+                    );
+
+                    // Verify contracts using broadcast files
+                    await verifyBroadcastContracts('DeployComplianceDepositPermissions.s.sol', network, false);
+
+                    console.log('\n📝 Next steps:');
+                    console.log('   1. Check config/deployments.json for the updated addresses');
+                    console.log('   2. Contract verification has been attempted automatically');
+                    console.log('   3. Set this as the depositPermissions on the factoring pool');
+
+                    resolve();
+                } else {
+                    reject(new Error(`ComplianceDepositPermissions deployment failed with exit code ${code}`));
+                }
+            } catch (error) {
+                reject(error);
             }
         });
 
@@ -148,21 +168,22 @@ export async function deployComplianceDepositPermissionsWorkflow(
 /**
  * Launcher: Get network and private key interactively, then run workflow
  */
-async function deployComplianceDepositPermissionsLauncher(): Promise<void> {
-    try {
+export async function deployComplianceDepositPermissionsLauncher(): Promise<void> {
+    await runScript('deploy-complianceDepositPermissions', async context => {
         const network = await getNetworkInteractive();
+        context.network = network;
         const privateKey = await getPrivateKeyInteractively();
 
         // Allow overriding sanctions list address via env var (useful for testnets with mocks)
         const sanctionsListOverride = process.env.SANCTIONS_LIST_ADDRESS;
 
-        await deployComplianceDepositPermissionsWorkflow(network, privateKey, {
-            sanctionsListAddress: sanctionsListOverride,
-        });
-    } catch (error: any) {
-        console.error('❌ Deployment error:', error.message);
-        process.exit(1);
-    }
+        await deployComplianceDepositPermissionsWorkflow(
+            network,
+            privateKey,
+            { sanctionsListAddress: sanctionsListOverride },
+            { dryRun: hasFlag('--dry-run') },
+        );
+    });
 }
 
 // Only run launcher if this script is run directly
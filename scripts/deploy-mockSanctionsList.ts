@@ -1,14 +1,19 @@
-import { getNetworkOnlyConfig, getRpcUrl } from './network-config';
+import { getNetworkOnlyConfig } from './network-config';
+import { hasFlag } from './utils/cli';
+import { dryRunForgeScript, ForgeWorkflowOptions } from './utils/dry-run';
 import { getPrivateKeyInteractively, runForgeScript, setupGracefulExit } from './utils/interactive-deploy';
 import { getNetworkInteractive } from './utils/interactive-prompt';
+import { getNetworkMetadata } from './utils/networks';
+import { resolveRpcUrl } from './utils/rpc';
+import { runScript } from './utils/script-runner';
 import { updateMockSanctionsListFromBroadcast } from './utils/update-config';
 import { verifyBroadcastContracts } from './utils/verify-forge';
 
 /**
  * Deploy MockSanctionsList workflow (testnets only — production networks use the real Chainalysis oracle)
  */
-export async function deployMockSanctionsListWorkflow(network: string, privateKey: string): Promise<void> {
-    if (network !== 'sepolia') {
+export async function deployMockSanctionsListWorkflow(network: string, privateKey: string, options?: ForgeWorkflowOptions): Promise<void> {
+    if (!getNetworkMetadata(network).testnet) {
         throw new Error(
             `MockSanctionsList is only intended for testnets. ` +
                 `Network '${network}' should use the real Chainalysis oracle (already configured).`,
@@ -37,7 +42,7 @@ export async function deployMockSanctionsListWorkflow(network: string, privateKe
     console.log(`📡 Starting MockSanctionsList deployment to ${network}...\n`);
 
     // Get RPC URL using shared config
-    const rpcUrl = getRpcUrl(network);
+    const rpcUrl = await resolveRpcUrl(network);
 
     // Set environment variables for the deployment script
     const env: NodeJS.ProcessEnv = {
@@ -47,6 +52,11 @@ export async function deployMockSanctionsListWorkflow(network: string, privateKe
         DEPLOY_PK: privateKey,
     };
 
+    if (options?.dryRun) {
+        await dryRunForgeScript('script/DeployMockSanctionsList.s.sol:DeployMockSanctionsList', rpcUrl, privateKey, env, network);
+        return;
+    }
+
     // Run forge script and wait for completion
     await new Promise<void>((resolve, reject) => {
         const forgeProcess = runForgeScript(
@@ -58,25 +68,29 @@ export async function deployMockSanctionsListWorkflow(network: string, privateKe
         );
 
         forgeProcess.on('close', async code => {
-            if (code === 0) {
-                console.log('\n✅ MockSanctionsList deployment completed successfully!');
-                console.log(`🎉 Your MockSanctionsList is now live on ${network}!`);
-
-                // Update network config with new address
-                console.log('\n📝 Updating network-config.ts...');
-                updateMockSanctionsListFromBroadcast('DeployMockSanctionsList.s.sol', network);
-
-                // Verify contracts using broadcast files
-                await verifyBroadcastContracts('DeployMockSanctionsList.s.sol', network, false);
-
-                console.log('\n📝 Next steps:');
-                console.log('   1. Check network-config.ts for the updated sanctionsListAddress');
-                console.log('   2. Contract verification has been attempted automatically');
-                console.log('   3. Use addToSanctionsList(addrs) to add test sanctioned addresses');
-
-                resolve();
-            } else {
-                reject(new Error(`MockSanctionsList deployment failed with exit code ${code}`));
+            try {
+                if (code === 0) {
+                    console.log('\n✅ MockSanctionsList deployment completed successfully!');
+                    console.log(`🎉 Your MockSanctionsList is now live on ${network}!`);
+
+                    // Update network config with new address
+                    console.log('\n📝 Updating config/deployments.json...');
+                    updateMockSanctionsListFromBroadcast('DeployMockSanctionsList.s.sol', network);
+
+                    // Verify contracts using broadcast files
+                    await verifyBroadcastContracts('DeployMockSanctionsList.s.sol', network, false);
+
+                    console.log('\n📝 Next steps:');
+                    console.log('   1. Check config/deployments.json for the updated sanctionsListAddress');
+                    console.log('   2. Contract verification has been attempted automatically');
+                    console.log('   3. Use addToSanctionsList(addrs) to add test sanctioned addresses');
+
+                    resolve();
+                } else {
+                    reject(new Error(`MockSanctionsList deployment failed with exit code ${code}`));
+                }
+            } catch (error) {
+                reject(error);
             }
         });
 
@@ -93,16 +107,14 @@ export async function deployMockSanctionsListWorkflow(network: string, privateKe
 /**
  * Launcher: Get network and private key interactively, then run workflow
  */
-async function deployMockSanctionsListLauncher(): Promise<void> {
-    try {
+export async function deployMockSanctionsListLauncher(): Promise<void> {
+    await runScript('deploy-mockSanctionsList', async context => {
         const network = await getNetworkInteractive();
+        context.network = network;
         const privateKey = await getPrivateKeyInteractively();
 
-        await deployMockSanctionsListWorkflow(network, privateKey);
-    } catch (error: any) {
-        console.error('❌ Deployment error:', error.message);
-        process.exit(1);
-    }
+        await deployMockSanctionsListWorkflow(network, privateKey, { dryRun: hasFlag('--dry-run') });
+    });
 }
 
 // Only run launcher if this script is run directly
@@ -1,6 +1,10 @@
-import { getAvailablePools, getDeployedPoolConfig, getNetworkOnlyConfig, getRpcUrl } from './network-config';
+import { getAvailablePools, getDeployedPoolConfig, getNetworkOnlyConfig } from './network-config';
+import { hasFlag } from './utils/cli';
+import { dryRunForgeScript, ForgeWorkflowOptions } from './utils/dry-run';
 import { getPrivateKeyInteractively, runForgeScript, setupGracefulExit } from './utils/interactive-deploy';
 import { getNetworkInteractive } from './utils/interactive-prompt';
+import { resolveRpcUrl } from './utils/rpc';
+import { runScript } from './utils/script-runner';
 import { updateSumsubKycIssuerFromBroadcast } from './utils/update-config';
 import { verifyBroadcastContracts } from './utils/verify-forge';
 
@@ -18,7 +22,7 @@ export function getUnderwriterAddress(network: string): string {
 /**
  * Deploy SumsubKycIssuer workflow (can be called with parameters or standalone)
  */
-export async function deploySumsubKycIssuerWorkflow(network: string, privateKey: string): Promise<void> {
+export async function deploySumsubKycIssuerWorkflow(network: string, privateKey: string, options?: ForgeWorkflowOptions): Promise<void> {
     console.log(`🚀 Deploying SumsubKycIssuer to ${network} network...\n`);
 
     // Get network configuration
@@ -45,7 +49,7 @@ export async function deploySumsubKycIssuerWorkflow(network: string, privateKey:
     console.log(`📡 Starting SumsubKycIssuer deployment to ${network}...\n`);
 
     // Get RPC URL using shared config
-    const rpcUrl = getRpcUrl(network);
+    const rpcUrl = await resolveRpcUrl(network);
 
     // Set environment variables for the deployment script
     const env: NodeJS.ProcessEnv = {
@@ -56,6 +60,11 @@ export async function deploySumsubKycIssuerWorkflow(network: string, privateKey:
         INITIAL_KYC_APPROVER: initialKycApprover,
     };
 
+    if (options?.dryRun) {
+        await dryRunForgeScript('script/DeploySumsubKycIssuer.s.sol:DeploySumsubKycIssuer', rpcUrl, privateKey, env, network);
+        return;
+    }
+
     // Run forge script and wait for completion
     await new Promise<void>((resolve, reject) => {
         const forgeProcess = runForgeScript(
@@ -67,25 +76,29 @@ export async function deploySumsubKycIssuerWorkflow(network: string, privateKey:
         );
 
         forgeProcess.on('close', async code => {
-            if (code === 0) {
-                console.log('\n✅ SumsubKycIssuer deployment completed successfully!');
-                console.log(`🎉 Your SumsubKycIssuer is now live on ${network}!`);
-
-                // Update network config with new address
-                console.log('\n📝 Updating network-config.ts...');
-                updateSumsubKycIssuerFromBroadcast('DeploySumsubKycIssuer.s.sol', network);
-
-                // Verify contracts using broadcast files
-                await verifyBroadcastContracts('DeploySumsubKycIssuer.s.sol', network, false);
-
-                console.log('\n📝 Next steps:');
-                console.log('   1. Check network-config.ts for the updated SumsubKycIssuer address');
-                console.log('   2. Contract verification has been attempted automatically');
-                console.log('   3. Register this issuer with BullaKycGate if needed');
-
-                resolve();
-            } else {
-                reject(new Error(`SumsubKycIssuer deployment failed with exit code ${code}`));
+            try {
+                if (code === 0) {
+                    console.log('\n✅ SumsubKycIssuer deployment completed successfully!');
+                    console.log(`🎉 Your SumsubKycIssuer is now live on ${network}!`);
+
+                    // Update network config with new address
+                    console.log('\n📝 Updating config/deployments.json...');
+                    updateSumsubKycIssuerFromBroadcast('DeploySumsubKycIssuer.s.sol', network);
+
+                    // Verify contracts using broadcast files
+                    await verifyBroadcastContracts('DeploySumsubKycIssuer.s.sol', network, false);
+
+                    console.log('\n📝 Next steps:');
+                    console.log('   1. Check config/deployments.json for the updated SumsubKycIssuer address');
+                    console.log('   2. Contract verification has been attempted automatically');
+                    console.log('   3. Register this issuer with BullaKycGate if needed');
+
+                    resolve();
+                } else {
+                    reject(new Error(`SumsubKycIssuer deployment failed with exit code ${code}`));
+                }
+            } catch (error) {
+                reject(error);
             }
         });
 
@@ -102,16 +115,14 @@ export async function deploySumsubKycIssuerWorkflow(network: string, privateKey:
 /**
  * Launcher: Get network and private key interactively, then run workflow
  */
-async function deploySumsubKycIssuerLauncher(): Promise<void> {
-    try {
+export async function deploySumsubKycIssuerLauncher(): Promise<void> {
+    await runScript('deploy-sumsubKycIssuer', async context => {
         const network = await getNetworkInteractive();
+        context.network = network;
         const privateKey = await getPrivateKeyInteractively();
 
-        await deploySumsubKycIssuerWorkflow(network, privateKey);
-    } catch (error: any) {
-        console.error('❌ Deployment error:', error.message);
-        process.exit(1);
-    }
+        await deploySumsubKycIssuerWorkflow(network, privateKey, { dryRun: hasFlag('--dry-run') });
+    });
 }
 
 // Only run launcher if this script is run directly
@@ -0,0 +1,322 @@
+import { BigNumber, utils } from 'ethers';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import {
+    Broadcast,
+    BroadcastTransaction,
+    getLatestBroadcastPath,
+    listBroadcastChainIds,
+    listBroadcastScripts,
+    readAllBroadcasts,
+    readLatestBroadcast,
+} from './utils/broadcast';
+import { getArgValue, hasFlag, InputError } from './utils/cli';
+import { DEPLOY_STATE_DIR } from './utils/deploy-state';
+import { findNetworkByChainId, getNetworkMetadata, NETWORKS } from './utils/networks';
+import { runScript } from './utils/script-runner';
+
+// Reports what forge scripts actually sent, from the transactions and receipts in broadcast/,
+// as Markdown and JSON for audit and ops records (e.g. AUDIT_CHANGELOG_POST_V2.md)
+
+export const REPORT_DIR = join(DEPLOY_STATE_DIR, 'reports');
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ReportedTransaction = {
+    hash: string;
+    type: 'create' | 'call';
+    /** `pending` when forge exited before a receipt was written */
+    status: 'success' | 'reverted' | 'pending';
+    blockNumber?: number;
+    from?: string;
+    /** Call target; undefined for creations */
+    to?: string;
+    /** Contract created, or contract called when forge knows its ABI */
+    contractName?: string;
+    /** Address of the contract created */
+    createdContract?: string;
+    /** Function signature, e.g. addToPaidCallbackWhitelist(address,bytes4), or the raw selector when forge could not decode it */
+    function?: string;
+    /** Constructor or call arguments, decoded by forge */
+    arguments: string[];
+    /** Native token sent with the transaction, in wei */
+    value: string;
+    gasUsed?: string;
+    /** In wei */
+    effectiveGasPrice?: string;
+    /** gasUsed * effectiveGasPrice, plus the L1 data fee on OP-stack chains, in wei */
+    cost?: string;
+};
+
+export type BroadcastRunReport = {
+    scriptName: string;
+    network: string;
+    chainId: number;
+    /** ISO timestamp of the run */
+    runAt: string;
+    commit?: string;
+    transactions: ReportedTransaction[];
+    totalGasUsed: string;
+    /** Sum of the transaction costs, in wei */
+    totalCost: string;
+};
+
+export type DeploymentReport = {
+    generatedAt: string;
+    runs: BroadcastRunReport[];
+};
+
+export type ReportFilter = {
+    /** Script name, with or without the .s.sol suffix */
+    script?: string;
+    network?: string;
+    /** Only each script's latest run per network */
+    latestOnly?: boolean;
+};
+
+// ============================================================================
+// Building
+// ============================================================================
+
+function toReportedTransaction(broadcast: Broadcast, tx: BroadcastTransaction): ReportedTransaction | undefined {
+    if (!tx.hash) {
+        return undefined;
+    }
+
+    const request = tx.transaction || {};
+    const isCreate = tx.transactionType === 'CREATE' || tx.transactionType === 'CREATE2';
+    const calldata = request.input || request.data || '0x';
+    const receipt = (broadcast.receipts || []).find(r => r.transactionHash.toLowerCase() === tx.hash!.toLowerCase());
+
+    const reported: ReportedTransaction = {
+        hash: tx.hash,
+        type: isCreate ? 'create' : 'call',
+        status: !receipt ? 'pending' : BigNumber.from(receipt.status).eq(1) ? 'success' : 'reverted',
+        from: request.from,
+        to: isCreate ? undefined : request.to || undefined,
+        contractName: tx.contractName || undefined,
+        // Fall back to the raw selector when forge could not match the target's ABI
+        function: isCreate ? undefined : tx.function || (calldata.length >= 10 ? calldata.slice(0, 10) : undefined),
+        arguments: tx.arguments || [],
+        value: BigNumber.from(request.value || 0).toString(),
+    };
+
+    if (receipt) {
+        const gasUsed = BigNumber.from(receipt.gasUsed);
+        const effectiveGasPrice = BigNumber.from(receipt.effectiveGasPrice);
+        reported.blockNumber = BigNumber.from(receipt.blockNumber).toNumber();
+        reported.gasUsed = gasUsed.toString();
+        reported.effectiveGasPrice = effectiveGasPrice.toString();
+        reported.cost = gasUsed
+            .mul(effectiveGasPrice)
+            .add(receipt.l1Fee || 0)
+            .toString();
+        reported.createdContract = isCreate ? receipt.contractAddress || tx.contractAddress || undefined : undefined;
+    } else if (isCreate) {
+        reported.createdContract = tx.contractAddress || undefined;
+    }
+
+    return reported;
+}
+
+/**
+ * Report on one broadcast run
+ */
+export function buildRunReport(scriptName: string, network: string, broadcast: Broadcast): BroadcastRunReport {
+    const transactions = (broadcast.transactions || [])
+        .map(tx => toReportedTransaction(broadcast, tx))
+        .filter((tx): tx is ReportedTransaction => !!tx);
+
+    return {
+        scriptName,
+        network,
+        chainId: getNetworkMetadata(network).chainId,
+        runAt: new Date(broadcast.timestamp * 1000).toISOString(),
+        commit: broadcast.commit,
+        transactions,
+        totalGasUsed: transactions.reduce((sum, tx) => sum.add(tx.gasUsed || 0), BigNumber.from(0)).toString(),
+        totalCost: transactions.reduce((sum, tx) => sum.add(tx.cost || 0), BigNumber.from(0)).toString(),
+    };
+}
+
+/**
+ * Report on the broadcast runs matching a filter, oldest first
+ * Chains with no entry in utils/networks.ts (e.g. a local Anvil node) are skipped.
+ * @throws InputError if the script has no broadcast files
+ */
+export function buildDeploymentReport(filter: ReportFilter = {}): DeploymentReport {
+    const scriptFilter = filter.script && !filter.script.endsWith('.s.sol') ? `${filter.script}.s.sol` : filter.script;
+    const scripts = listBroadcastScripts().filter(script => !scriptFilter || script === scriptFilter);
+    if (scriptFilter && scripts.length === 0) {
+        throw new InputError(`No broadcast files for ${scriptFilter}. Scripts with broadcasts: ${listBroadcastScripts().join(', ')}`);
+    }
+
+    const runs: BroadcastRunReport[] = [];
+    for (const scriptName of scripts) {
+        for (const chainId of listBroadcastChainIds(scriptName)) {
+            const network = findNetworkByChainId(chainId)?.name;
+            if (!network || (filter.network && network !== filter.network)) {
+                continue;
+            }
+
+            // A chain directory can hold only simulations, with no run-latest.json
+            const broadcasts = !filter.latestOnly
+                ? readAllBroadcasts(scriptName, network)
+                : existsSync(getLatestBroadcastPath(scriptName, network))
+                ? [readLatestBroadcast(scriptName, network)]
+                : [];
+            runs.push(...broadcasts.map(broadcast => buildRunReport(scriptName, network, broadcast)));
+        }
+    }
+
+    runs.sort((a, b) => a.runAt.localeCompare(b.runAt));
+    return { generatedAt: new Date().toISOString(), runs };
+}
+
+// ============================================================================
+// Output
+// ============================================================================
+
+/** Long arguments (bytecode, encoded structs) are cut short in Markdown; the JSON report keeps them whole */
+function shorten(value: string, max: number = 66): string {
+    return value.length > max ? `${value.slice(0, max - 10)}…${value.slice(-8)}` : value;
+}
+
+function formatCall(tx: ReportedTransaction): string {
+    if (tx.type === 'create') {
+        return tx.arguments.length > 0 ? `constructor(${tx.arguments.map(arg => shorten(arg)).join(', ')})` : 'constructor()';
+    }
+    if (!tx.function) {
+        return '—';
+    }
+    const name = tx.function.includes('(') ? tx.function.slice(0, tx.function.indexOf('(')) : tx.function;
+    return `${name}(${tx.arguments.map(arg => shorten(arg)).join(', ')})`;
+}
+
+function formatCost(wei: string | undefined, currency: string): string {
+    return wei === undefined ? '—' : `${utils.formatEther(wei)} ${currency}`;
+}
+
+/**
+ * Render a deployment report as Markdown, one section per broadcast run
+ */
+export function formatDeploymentReport(report: DeploymentReport): string {
+    const lines = [`# Deployment Report`, '', `Generated ${report.generatedAt} from ${report.runs.length} broadcast run(s).`, ''];
+
+    const totals = new Map<string, BigNumber>();
+    for (const run of report.runs) {
+        const currency = getNetworkMetadata(run.network).nativeCurrency;
+        const key = `${run.network} (${currency})`;
+        totals.set(key, (totals.get(key) || BigNumber.from(0)).add(run.totalCost));
+    }
+    if (totals.size > 0) {
+        lines.push('| Network | Total cost |', '| --- | --- |');
+        totals.forEach((total, key) => lines.push(`| ${key} | ${utils.formatEther(total)} |`));
+        lines.push('');
+    }
+
+    for (const run of report.runs) {
+        const { nativeCurrency, explorer } = getNetworkMetadata(run.network);
+        lines.push(`## ${run.scriptName} on ${run.network}, ${run.runAt}`, '');
+        if (run.commit) {
+            lines.push(`Commit: \`${run.commit}\``, '');
+        }
+        lines.push(
+            `${run.transactions.length} transaction(s), ${run.totalGasUsed} gas, ${formatCost(run.totalCost, nativeCurrency)}`,
+            '',
+            '| Transaction | Block | Status | Call | Created contract | Gas used | Gas price (gwei) | Cost |',
+            '| --- | --- | --- | --- | --- | --- | --- | --- |',
+        );
+
+        for (const tx of run.transactions) {
+            const target = tx.type === 'create' ? tx.contractName || 'contract' : tx.contractName || tx.to;
+            const call = `${target ? `${target}.` : ''}${formatCall(tx)}`.replace(/\|/g, '\\|');
+            const created = tx.createdContract ? `${tx.contractName ? `${tx.contractName} ` : ''}\`${tx.createdContract}\`` : '';
+            const hash = `\`${shorten(tx.hash, 18)}\``;
+            lines.push(
+                `| ${explorer ? `[${hash}](${explorer.url}/tx/${tx.hash})` : hash} | ${tx.blockNumber ?? '—'} | ${
+                    tx.status
+                } | \`${call}\` | ${created} | ${tx.gasUsed ?? '—'} | ${
+                    tx.effectiveGasPrice ? utils.formatUnits(tx.effectiveGasPrice, 'gwei') : '—'
+                } | ${formatCost(tx.cost, nativeCurrency)} |`,
+            );
+        }
+        lines.push('');
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Write a report as <name>.md and <name>.json
+ * @returns Paths of the Markdown and JSON files
+ */
+export function writeDeploymentReport(
+    report: DeploymentReport,
+    name: string,
+    dir: string = REPORT_DIR,
+): { markdown: string; json: string } {
+    if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+    }
+
+    const markdown = join(dir, `${name}.md`);
+    const json = join(dir, `${name}.json`);
+    writeFileSync(markdown, formatDeploymentReport(report));
+    writeFileSync(json, `${JSON.stringify(report, null, 2)}\n`);
+    return { markdown, json };
+}
+
+// ============================================================================
+// Launcher
+// ============================================================================
+
+/**
+ * Launcher: report on every broadcast run, or those selected with --script/--network
+ * Options: --latest for only the latest run of each script, --out <dir> to write somewhere other than deploy_info/reports
+ */
+export async function deploymentReportLauncher(): Promise<void> {
+    await runScript('deployment-report', async context => {
+        const filter: ReportFilter = {
+            script: getArgValue('--script'),
+            network: getArgValue('--network'),
+            latestOnly: hasFlag('--latest'),
+        };
+        if (filter.network && !NETWORKS[filter.network]) {
+            throw new InputError(`Unknown network: ${filter.network}. Known networks: ${Object.keys(NETWORKS).join(', ')}`);
+        }
+        context.network = filter.network;
+
+        console.log('📊 Reading broadcast runs...');
+        const report = buildDeploymentReport(filter);
+        if (report.runs.length === 0) {
+            console.log('⚠️  No broadcast runs matched');
+            return;
+        }
+
+        const name = [
+            'deployment-report',
+            filter.script?.replace(/\.s\.sol$/, ''),
+            filter.network,
+            report.generatedAt.replace(/[:.]/g, '-'),
+        ]
+            .filter(Boolean)
+            .join('-');
+        const paths = writeDeploymentReport(report, name, getArgValue('--out'));
+        const transactions = report.runs.reduce((count, run) => count + run.transactions.length, 0);
+
+        console.log(`\n✅ Reported ${transactions} transaction(s) from ${report.runs.length} run(s)`);
+        console.log(`   📝 ${paths.markdown}`);
+        console.log(`   📝 ${paths.json}`);
+        context.details.runs = report.runs.length;
+        context.details.transactions = transactions;
+        context.details.reportPaths = paths;
+    });
+}
+
+// Only run launcher if this script is run directly
+if (require.main === module) {
+    deploymentReportLauncher();
+}
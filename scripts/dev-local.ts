@@ -0,0 +1,168 @@
+import { providers, utils } from 'ethers';
+import { getPoolConfig, PoolName } from './network-config';
+import { getDeployedContracts, readLatestBroadcast } from './utils/broadcast';
+import { getArgValue, getInput } from './utils/cli';
+import { getPrivateKeyInteractively, runForgeScript, setupGracefulExit } from './utils/interactive-deploy';
+import { getNetworkMetadata } from './utils/networks';
+import { resolveRpcUrl } from './utils/rpc';
+import { runScript } from './utils/script-runner';
+import { replaceNetworkDeployment } from './utils/update-config';
+
+// Stands up a local development stack on a Hardhat or Anvil node (script/DeployLocalStack.s.sol)
+// and records it as the `local` network, so every other script can target it.
+
+const LOCAL_NETWORK = 'local';
+const SCRIPT_NAME = 'DeployLocalStack.s.sol';
+
+/** Account 0 of the default Hardhat/Anvil mnemonic, used when no signer is configured */
+const DEV_DEPLOYER_PK = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+/** Balance the deployer is topped up to, since a configured signer is not one of the node's prefunded accounts */
+const DEPLOYER_BALANCE = utils.parseEther('10000');
+
+/**
+ * Top up the deployer's balance with hardhat_setBalance, which Anvil also supports
+ */
+async function fundDeployer(provider: providers.JsonRpcProvider, address: string): Promise<void> {
+    if ((await provider.getBalance(address)).gte(DEPLOYER_BALANCE)) {
+        return;
+    }
+    await provider.send('hardhat_setBalance', [address, utils.hexStripZeros(DEPLOYER_BALANCE.toHexString())]);
+    console.log(`💰 Funded ${address} with ${utils.formatEther(DEPLOYER_BALANCE)} ETH`);
+}
+
+/**
+ * Record the local stack in config/deployments.json, replacing any previous `local` entry
+ * @throws Error if the broadcast is missing a contract the stack deploys
+ */
+function recordLocalStack(pool: PoolName, deployer: string, poolNames: { display: string; token: string; symbol: string }): void {
+    const contracts = getDeployedContracts(readLatestBroadcast(SCRIPT_NAME, LOCAL_NETWORK));
+    const address = (contractName: string): string => {
+        if (!contracts[contractName]) {
+            throw new Error(`${contractName} not found in the ${SCRIPT_NAME} broadcast`);
+        }
+        return contracts[contractName];
+    };
+
+    replaceNetworkDeployment(LOCAL_NETWORK, {
+        contracts: {
+            bullaClaim: address('BullaClaimV2'),
+            bullaDao: deployer,
+            bullaFrendLendAddress: address('BullaFrendLendV2'),
+            bullaInvoiceAddress: address('BullaInvoice'),
+            BullaClaimInvoiceProviderAdapterAddress: address('BullaClaimV2InvoiceProviderAdapterV2'),
+            agreementSignatureRepoAddress: address('AgreementSignatureRepo'),
+            sanctionsListAddress: address('MockSanctionsList'),
+            bullaKycGateAddress: address('BullaKycGate'),
+            complianceDepositPermissionsAddress: address('ComplianceDepositPermissions'),
+        },
+        pools: {
+            [pool]: {
+                underlyingAsset: address('MockUSDC'),
+                poolDisplayName: poolNames.display,
+                poolTokenName: poolNames.token,
+                poolTokenSymbol: poolNames.symbol,
+                underwriter: deployer,
+                factoringPermissionsAddress: address('FactoringPermissions'),
+                depositPermissionsAddress: address('ComplianceDepositPermissions'),
+                redeemPermissionsAddress: address('ComplianceDepositPermissions'),
+                bullaFactoringAddress: address('BullaFactoringV2_2'),
+                insurer: deployer,
+                writeNewAddresses: true,
+            },
+        },
+    });
+}
+
+/**
+ * Local stack workflow (can be called with parameters or standalone)
+ * The pool is deployed with the fee parameters configured for `pool`, so drift checks pass against it.
+ * @param privateKey - Deployer; becomes owner, underwriter, insurer and bullaDao of the local stack
+ */
+export async function devLocalWorkflow(pool: PoolName, privateKey: string): Promise<void> {
+    console.log(`🧰 Deploying a local development stack for pool ${pool}...\n`);
+
+    const poolConfig = getPoolConfig(pool);
+    let rpcUrl: string;
+    try {
+        rpcUrl = await resolveRpcUrl(LOCAL_NETWORK);
+    } catch (error) {
+        throw new Error(`${(error as Error).message}\n   Start a node with 'yarn dev' (Hardhat) or 'anvil' first, or set LOCAL_RPC_URL`);
+    }
+
+    const provider = new providers.JsonRpcProvider(rpcUrl, getNetworkMetadata(LOCAL_NETWORK).chainId);
+    const deployer = utils.computeAddress(privateKey);
+    await fundDeployer(provider, deployer);
+
+    const poolNames = { display: `Local ${pool} Pool`, token: `Local ${pool} Pool Token`, symbol: `BFT-${pool.toUpperCase()}-LOCAL` };
+    const env: NodeJS.ProcessEnv = {
+        ...process.env,
+        NETWORK: LOCAL_NETWORK,
+        PROTOCOL_FEE_BPS: poolConfig.protocolFeeBps.toString(),
+        ADMIN_FEE_BPS: poolConfig.adminFeeBps.toString(),
+        TARGET_YIELD_BPS: poolConfig.targetYieldBps.toString(),
+        INSURANCE_FEE_BPS: poolConfig.insuranceFeeBps.toString(),
+        IMPAIRMENT_GROSS_GAIN_BPS: poolConfig.impairmentGrossGainBps.toString(),
+        RECOVERY_PROFIT_RATIO_BPS: poolConfig.recoveryProfitRatioBps.toString(),
+        POOL_NAME: poolNames.display,
+        POOL_TOKEN_NAME: poolNames.token,
+        POOL_TOKEN_SYMBOL: poolNames.symbol,
+    };
+
+    await new Promise<void>((resolve, reject) => {
+        const forgeProcess = runForgeScript(`script/${SCRIPT_NAME}:DeployLocalStack`, rpcUrl, privateKey, env, LOCAL_NETWORK);
+
+        forgeProcess.on('close', code => {
+            if (code === 0) {
+                resolve();
+            } else {
+                reject(new Error(`Local stack deployment failed with exit code ${code}`));
+            }
+        });
+
+        forgeProcess.on('error', error => {
+            if ((error as any).code === 'ENOENT') {
+                reject(new Error('Forge not found. Make sure Foundry is installed and in your PATH.'));
+            } else {
+                reject(error);
+            }
+        });
+    });
+
+    console.log('\n📝 Updating config/deployments.json...');
+    recordLocalStack(pool, deployer, poolNames);
+
+    console.log('\n✅ Local stack deployed!');
+    console.log(`\n📋 Every script now works against it with network '${LOCAL_NETWORK}', e.g.:`);
+    console.log(`   yarn smoke-test --network ${LOCAL_NETWORK} --pool ${pool}`);
+    console.log(`   yarn check-drift --network ${LOCAL_NETWORK}`);
+    console.log('\n   Sign as the deployer to act as owner, underwriter and bullaDao.');
+    console.log('   The depositor, creditor and debtor are dev accounts 1-3 of the node (override with DEV_*_PK).');
+}
+
+/**
+ * Launcher: deploy the local stack for --pool (default tcs)
+ * The deployer is the configured signer, or the node's dev account 0 when none is configured.
+ */
+export async function devLocalLauncher(): Promise<void> {
+    await runScript('dev-local', async context => {
+        const pool = getArgValue('--pool') || 'tcs';
+        context.network = LOCAL_NETWORK;
+        context.pool = pool;
+
+        const signerConfigured =
+            getInput('--keystore', 'ETH_KEYSTORE') || getInput('--account', 'ETH_KEYSTORE_ACCOUNT') || process.env.DEPLOY_PK;
+        const privateKey = signerConfigured ? await getPrivateKeyInteractively() : DEV_DEPLOYER_PK;
+        if (!signerConfigured) {
+            console.log(`🔑 Signer: ${utils.computeAddress(privateKey)} (dev account 0)`);
+        }
+
+        await devLocalWorkflow(pool, privateKey);
+    });
+}
+
+// Only run launcher if this script is run directly
+if (require.main === module) {
+    setupGracefulExit();
+    devLocalLauncher();
+}
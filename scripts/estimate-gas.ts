@@ -1,111 +1,395 @@
-// Script to estimate gas for contract deployments
-import { TransactionRequest } from '@ethersproject/abstract-provider';
-import { BigNumber, ContractFactory } from 'ethers';
-import { ethers } from 'hardhat';
-
-async function main(): Promise<void> {
-    // Use 1 gwei for all cost calculations
-    const gweiValue = 1;
-
-    console.log('Estimating gas costs for contract deployments...');
-    console.log(`Using ${gweiValue} gwei for all cost calculations`);
-
-    // Get the contract factories
-    const BullaFactoring: ContractFactory = await ethers.getContractFactory('BullaFactoring');
-    const BullaClaimInvoiceProviderAdapter: ContractFactory = await ethers.getContractFactory('BullaClaimV2InvoiceProviderAdapterV2');
-    const FactoringPermissions: ContractFactory = await ethers.getContractFactory('FactoringPermissions');
-    const DepositPermissions: ContractFactory = await ethers.getContractFactory('DepositPermissions');
-
-    // Get signers
-    const [deployer] = await ethers.getSigners();
-    const deployerAddress = await deployer.getAddress();
-    console.log(`Using deployer address: ${deployerAddress}`);
-
-    // Example for FactoringPermissions contract
-    // Custom Permissions contracts don't take constructor arguments
-    const factoringPermissionsDeployTx: TransactionRequest = await FactoringPermissions.getDeployTransaction();
-    const factoringPermissionsGasEstimate: BigNumber = await ethers.provider.estimateGas(factoringPermissionsDeployTx);
-    console.log(`FactoringPermissions contract deployment gas estimate: ${factoringPermissionsGasEstimate.toString()}`);
-
-    // Also estimate DepositPermissions
-    const depositPermissionsDeployTx: TransactionRequest = await DepositPermissions.getDeployTransaction();
-    const depositPermissionsGasEstimate: BigNumber = await ethers.provider.estimateGas(depositPermissionsDeployTx);
-    console.log(`DepositPermissions contract deployment gas estimate: ${depositPermissionsGasEstimate.toString()}`);
-
-    // Simulated deployment of BullaClaimV2InvoiceProviderAdapterV2
-    // Replace with your actual constructor arguments
-    try {
-        const adapterDeployTx: TransactionRequest = await BullaClaimInvoiceProviderAdapter.getDeployTransaction(
-            '0x1234567890123456789012345678901234567890', // _bullaClaimV2Address
-            '0x1234567890123456789012345678901234567890', // _bullaFrendLend
-            '0x1234567890123456789012345678901234567890', // _bullaInvoice
-        );
-        const adapterGasEstimate: BigNumber = await ethers.provider.estimateGas(adapterDeployTx);
-        console.log(`BullaClaimV2InvoiceProviderAdapterV2 deployment gas estimate: ${adapterGasEstimate.toString()}`);
-
-        // For BullaFactoring, you'll need to provide all the constructor parameters
-        // This is a placeholder - replace with your actual parameters
+import { BigNumber, constants, Contract, providers, utils } from 'ethers';
+import { FullConfig, getConfig, PoolName } from './network-config';
+import { getInput, hasFlag, InputError } from './utils/cli';
+import { getCreationBytecode, readForgeArtifact } from './utils/artifacts';
+import { setupGracefulExit } from './utils/interactive-deploy';
+import { getNetworkAndPoolInteractive } from './utils/interactive-prompt';
+import { getNetworkMetadata, NetworkMetadata } from './utils/networks';
+import { getProvider } from './utils/rpc';
+import { runScript } from './utils/script-runner';
+
+// Estimates what deploying a pool on a network would cost, from the same plan and constructor arguments the
+// forge scripts use. Bytecode comes from the compiled forge artifacts, so run `yarn build:forge` first.
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A contract a deployment would create */
+export type PlannedDeployment = {
+    contractName: string;
+    /** Source file the forge artifact is under, e.g. BullaFactoring.sol */
+    sourceFile: string;
+    args: unknown[];
+    /** Set when config already has the contract, which the forge scripts then reuse */
+    existingAddress?: string;
+    /** Dependencies not deployed yet, estimated with the deployer as a stand-in address */
+    placeholders?: string[];
+};
+
+export type DeploymentEstimate = PlannedDeployment & {
+    /** Gas units for the creation transaction, including L1 gas on Arbitrum */
+    gas?: string;
+    /** Part of the cost paid for posting the transaction to L1, in wei */
+    l1Fee?: string;
+    /** gas * gasPrice plus the L1 data fee on OP-stack chains, in wei */
+    cost?: string;
+    error?: string;
+};
+
+export type GasEstimateReport = {
+    network: string;
+    pool: PoolName;
+    deployer: string;
+    gasPrice: string;
+    /** Whether the gas price was given with --gas-price rather than fetched from the node */
+    gasPriceConfigured: boolean;
+    estimates: DeploymentEstimate[];
+    totalGas: string;
+    totalCost: string;
+};
+
+/** OP-stack GasPriceOracle predeploy */
+const OP_GAS_PRICE_ORACLE = '0x420000000000000000000000000000000000000F';
+const OP_GAS_PRICE_ORACLE_ABI = ['function getL1Fee(bytes _data) view returns (uint256)'];
+
+/** Arbitrum NodeInterface precompile, only reachable through eth_call */
+const ARBITRUM_NODE_INTERFACE = '0x00000000000000000000000000000000000000C8';
+const ARBITRUM_NODE_INTERFACE_ABI = [
+    'function gasEstimateL1Component(address to, bool contractCreation, bytes data) payable returns (uint64 gasEstimateForL1, uint256 baseFee, uint256 l1BaseFeeEstimate)',
+];
+
+// ============================================================================
+// Deployment Plan
+// ============================================================================
+
+function isSet(address: string | undefined): address is string {
+    return !!address && address !== constants.AddressZero;
+}
+
+/**
+ * The contracts a full deployment of the pool creates, with the constructor arguments the forge scripts pass
+ * Mirrors DeployBullaFactoring, DeployBullaFactoringFactory and the compliance scripts; the RedemptionQueue is
+ * created by the BullaFactoringV2_2 constructor, so its gas is part of the pool's.
+ */
+export function buildDeploymentPlan(config: FullConfig, deployer: string): PlannedDeployment[] {
+    const plan: PlannedDeployment[] = [];
+    const testnet = getNetworkMetadata(config.network).testnet;
+
+    // An address that is configured, or the deployer standing in for a contract this plan deploys first
+    const dependency = (address: string | undefined, name: string, placeholders: string[]): string => {
+        if (isSet(address)) {
+            return address;
+        }
+        placeholders.push(name);
+        return deployer;
+    };
+
+    plan.push({
+        contractName: 'BullaClaimV2InvoiceProviderAdapterV2',
+        sourceFile: 'BullaClaimV2InvoiceProviderAdapterV2.sol',
+        args: [config.bullaClaim, config.bullaFrendLendAddress, config.bullaInvoiceAddress],
+        existingAddress: config.BullaClaimInvoiceProviderAdapterAddress,
+    });
+    plan.push({
+        contractName: 'FactoringPermissions',
+        sourceFile: 'FactoringPermissions.sol',
+        args: [],
+        existingAddress: config.factoringPermissionsAddress,
+    });
+    plan.push({
+        contractName: 'DepositPermissions',
+        sourceFile: 'DepositPermissions.sol',
+        args: [],
+        existingAddress: config.depositPermissionsAddress,
+    });
+
+    const poolPlaceholders: string[] = [];
+    const depositPermissions = dependency(config.depositPermissionsAddress, 'DepositPermissions', poolPlaceholders);
+    plan.push({
+        contractName: 'BullaFactoringV2_2',
+        sourceFile: 'BullaFactoring.sol',
+        args: [
+            config.underlyingAsset,
+            dependency(config.BullaClaimInvoiceProviderAdapterAddress, 'BullaClaimV2InvoiceProviderAdapterV2', poolPlaceholders),
+            config.underwriter,
+            depositPermissions,
+            // DeployBullaFactoring.s.sol reuses the deposit permissions when no redeem permissions are configured
+            isSet(config.redeemPermissionsAddress) ? config.redeemPermissionsAddress : depositPermissions,
+            dependency(config.factoringPermissionsAddress, 'FactoringPermissions', poolPlaceholders),
+            config.bullaDao,
+            config.protocolFeeBps,
+            config.adminFeeBps,
+            config.poolName,
+            config.targetYieldBps,
+            config.poolTokenName,
+            config.poolTokenSymbol,
+            isSet(config.insurer) ? config.insurer : deployer,
+            config.insuranceFeeBps,
+            config.impairmentGrossGainBps,
+            config.recoveryProfitRatioBps,
+        ],
+        existingAddress: config.bullaFactoringAddress,
+        placeholders: poolPlaceholders,
+    });
+
+    // The factory pins the hash of the pool's init bytecode, so it is read from the same artifact
+    const poolInitBytecode = getCreationBytecode(readForgeArtifact('BullaFactoring.sol', 'BullaFactoringV2_2'), 'BullaFactoringV2_2');
+    const factoryPlaceholders: string[] = [];
+    plan.push({
+        contractName: 'BullaFactoringFactoryV2_1',
+        sourceFile: 'BullaFactoringFactoryV2_1.sol',
+        args: [
+            dependency(config.BullaClaimInvoiceProviderAdapterAddress, 'BullaClaimV2InvoiceProviderAdapterV2', factoryPlaceholders),
+            config.bullaClaim,
+            config.bullaDao,
+            config.protocolFeeBps,
+            utils.hexDataLength(poolInitBytecode),
+            utils.keccak256(poolInitBytecode),
+        ],
+        existingAddress: config.bullaFactoringFactoryAddress,
+        placeholders: factoryPlaceholders,
+    });
+
+    // Production networks use the Chainalysis oracle, so the mock is only ever deployed on testnets
+    if (testnet) {
+        plan.push({
+            contractName: 'MockSanctionsList',
+            sourceFile: 'MockSanctionsList.sol',
+            args: [],
+            existingAddress: config.sanctionsListAddress,
+        });
+    }
+    plan.push({
+        contractName: 'SumsubKycIssuer',
+        sourceFile: 'SumsubKycIssuer.sol',
+        args: [config.underwriter],
+        existingAddress: config.sumsubKycIssuerAddress,
+    });
+    plan.push({
+        contractName: 'AgreementSignatureRepo',
+        sourceFile: 'AgreementSignatureRepo.sol',
+        args: [config.underwriter],
+        existingAddress: config.agreementSignatureRepoAddress,
+    });
+    plan.push({
+        contractName: 'BullaKycGate',
+        sourceFile: 'BullaKycGate.sol',
+        args: [],
+        existingAddress: config.bullaKycGateAddress,
+    });
+
+    const compliancePlaceholders: string[] = [];
+    plan.push({
+        contractName: 'ComplianceDepositPermissions',
+        sourceFile: 'ComplianceDepositPermissions.sol',
+        args: [
+            dependency(config.sanctionsListAddress, 'MockSanctionsList', compliancePlaceholders),
+            dependency(config.bullaKycGateAddress, 'BullaKycGate', compliancePlaceholders),
+            dependency(config.agreementSignatureRepoAddress, 'AgreementSignatureRepo', compliancePlaceholders),
+        ],
+        existingAddress: config.complianceDepositPermissionsAddress,
+        placeholders: compliancePlaceholders,
+    });
+
+    return plan.map(deployment => (isSet(deployment.existingAddress) ? deployment : { ...deployment, existingAddress: undefined }));
+}
+
+// ============================================================================
+// Estimation
+// ============================================================================
+
+/**
+ * Creation transaction data: init bytecode followed by the ABI-encoded constructor arguments
+ */
+function getDeployData(deployment: PlannedDeployment): string {
+    const artifact = readForgeArtifact(deployment.sourceFile, deployment.contractName);
+    const bytecode = getCreationBytecode(artifact, deployment.contractName);
+    return utils.hexConcat([bytecode, new utils.Interface(artifact.abi).encodeDeploy(deployment.args)]);
+}
+
+/**
+ * L1 data fee of a creation transaction on a rollup, in wei
+ * On Arbitrum the L1 component is already part of eth_estimateGas, so it is reported but not added again.
+ */
+async function estimateL1Fee(
+    provider: providers.Provider,
+    metadata: NetworkMetadata,
+    data: string,
+    gas: BigNumber,
+    gasPrice: BigNumber,
+): Promise<BigNumber | undefined> {
+    if (metadata.l1DataFee === 'op-stack') {
+        const unsigned = utils.serializeTransaction({
+            type: 2,
+            chainId: metadata.chainId,
+            nonce: 0,
+            gasLimit: gas,
+            maxFeePerGas: gasPrice,
+            maxPriorityFeePerGas: gasPrice,
+            data,
+        });
+        return new Contract(OP_GAS_PRICE_ORACLE, OP_GAS_PRICE_ORACLE_ABI, provider).getL1Fee(unsigned);
+    }
+    if (metadata.l1DataFee === 'arbitrum') {
+        const nodeInterface = new Contract(ARBITRUM_NODE_INTERFACE, ARBITRUM_NODE_INTERFACE_ABI, provider);
+        const { gasEstimateForL1 } = await nodeInterface.callStatic.gasEstimateL1Component(constants.AddressZero, true, data);
+        return BigNumber.from(gasEstimateForL1).mul(gasPrice);
+    }
+    return undefined;
+}
+
+/**
+ * Estimate every deployment in the plan
+ * A deployment whose estimate reverts is reported with its error and left out of the totals.
+ * @param includeExisting - Also price contracts config already has, e.g. to estimate a fresh network
+ */
+export async function estimateDeploymentPlan(
+    provider: providers.Provider,
+    config: FullConfig,
+    deployer: string,
+    gasPrice: BigNumber,
+    includeExisting: boolean = false,
+): Promise<DeploymentEstimate[]> {
+    const metadata = getNetworkMetadata(config.network);
+    const estimates: DeploymentEstimate[] = [];
+
+    for (const deployment of buildDeploymentPlan(config, deployer)) {
+        if (deployment.existingAddress && !includeExisting) {
+            estimates.push(deployment);
+            continue;
+        }
+
         try {
-            const factoringSampleArgs = [
-                ethers.constants.AddressZero, // IERC20 _asset
-                ethers.constants.AddressZero, // IInvoiceProviderAdapter
-                deployerAddress, // _underwriter
-                ethers.constants.AddressZero, // _depositPermissions
-                ethers.constants.AddressZero, // _factoringPermissions
-                deployerAddress, // _bullaDao
-                200, // _protocolFeeBps (2%)
-                300, // _adminFeeBps (3%)
-                'Test Pool', // _poolName
-                100, // _taxBps (1%)
-                500, // _targetYieldBps (5%)
-                'Test Token', // _tokenName
-                'TEST', // _tokenSymbol
-            ];
-
-            const factoringDeployTx: TransactionRequest = await BullaFactoring.getDeployTransaction(...factoringSampleArgs);
-            const factoringGasEstimate: BigNumber = await ethers.provider.estimateGas(factoringDeployTx);
-            console.log(`BullaFactoring contract deployment gas estimate: ${factoringGasEstimate.toString()}`);
-
-            // Calculate total with all contracts
-            const totalEstimate: BigNumber = factoringPermissionsGasEstimate
-                .add(depositPermissionsGasEstimate)
-                .add(adapterGasEstimate)
-                .add(factoringGasEstimate);
-
-            console.log(`Total gas estimate: ${totalEstimate.toString()}`);
-            console.log(
-                `At ${gweiValue} gwei, this would cost approximately: ${ethers.utils.formatEther(
-                    totalEstimate.mul(gweiValue).mul(1e9),
-                )} ETH`,
-            );
+            const data = getDeployData(deployment);
+            const gas = await provider.estimateGas({ from: deployer, data });
+            const l1Fee = await estimateL1Fee(provider, metadata, data, gas, gasPrice);
+            const cost = gas.mul(gasPrice).add(metadata.l1DataFee === 'op-stack' && l1Fee ? l1Fee : 0);
+            estimates.push({ ...deployment, gas: gas.toString(), l1Fee: l1Fee?.toString(), cost: cost.toString() });
         } catch (error) {
-            console.error('Error estimating BullaFactoring deployment:', (error as Error).message);
+            estimates.push({ ...deployment, error: (error as Error).message });
+        }
+    }
+
+    return estimates;
+}
+
+/**
+ * Gas price from --gas-price / GAS_PRICE_GWEI, otherwise the node's current price
+ * @throws InputError if the configured price is not a positive number
+ */
+async function resolveGasPrice(provider: providers.Provider): Promise<{ gasPrice: BigNumber; configured: boolean }> {
+    const input = getInput('--gas-price', 'GAS_PRICE_GWEI');
+    if (!input) {
+        return { gasPrice: await provider.getGasPrice(), configured: false };
+    }
+
+    let gasPrice: BigNumber;
+    try {
+        gasPrice = utils.parseUnits(input, 'gwei');
+    } catch {
+        throw new InputError(`Invalid gas price: ${input} (expected gwei, e.g. 0.05)`);
+    }
+    if (gasPrice.lte(0)) {
+        throw new InputError(`Invalid gas price: ${input} (must be positive)`);
+    }
+    return { gasPrice, configured: true };
+}
+
+/**
+ * Estimate gas workflow (can be called with parameters or standalone)
+ * @param deployer - Address the deployments are simulated from; only needs to be a valid address
+ */
+export async function estimateGasWorkflow(
+    network: string,
+    pool: PoolName,
+    deployer: string,
+    includeExisting: boolean = false,
+): Promise<GasEstimateReport> {
+    const config = getConfig(network, pool);
+    const provider = await getProvider(network);
+    const { gasPrice, configured } = await resolveGasPrice(provider);
 
-            // Calculate partial total (without BullaFactoring)
-            const partialEstimate: BigNumber = factoringPermissionsGasEstimate.add(depositPermissionsGasEstimate).add(adapterGasEstimate);
+    const estimates = await estimateDeploymentPlan(provider, config, deployer, gasPrice, includeExisting);
+    const priced = estimates.filter(estimate => estimate.cost !== undefined);
+
+    return {
+        network,
+        pool,
+        deployer,
+        gasPrice: gasPrice.toString(),
+        gasPriceConfigured: configured,
+        estimates,
+        totalGas: priced.reduce((total, estimate) => total.add(estimate.gas!), BigNumber.from(0)).toString(),
+        totalCost: priced.reduce((total, estimate) => total.add(estimate.cost!), BigNumber.from(0)).toString(),
+    };
+}
 
-            console.log(`Partial gas estimate (without BullaFactoring): ${partialEstimate.toString()}`);
-            console.log(
-                `At ${gweiValue} gwei, this would cost approximately: ${ethers.utils.formatEther(
-                    partialEstimate.mul(gweiValue).mul(1e9),
-                )} ETH`,
-            );
+// ============================================================================
+// Output
+// ============================================================================
+
+/**
+ * Print a gas estimate report as a table, with costs in the network's native token
+ */
+export function printGasEstimateReport(report: GasEstimateReport): void {
+    const { nativeCurrency } = getNetworkMetadata(report.network);
+    const format = (wei: string): string => `${Number(utils.formatEther(wei)).toFixed(6)} ${nativeCurrency}`;
+
+    console.log(`\n⛽ Deployment estimate for ${report.network}/${report.pool}`);
+    console.log(
+        `   Gas price: ${utils.formatUnits(report.gasPrice, 'gwei')} gwei (${report.gasPriceConfigured ? 'configured' : 'current'})`,
+    );
+    console.log(`   Simulated from: ${report.deployer}\n`);
+
+    const width = Math.max(...report.estimates.map(estimate => estimate.contractName.length));
+    for (const estimate of report.estimates) {
+        const name = estimate.contractName.padEnd(width);
+        if (estimate.error) {
+            console.log(`   ❌ ${name}  estimate failed: ${estimate.error}`);
+        } else if (estimate.cost === undefined) {
+            console.log(`   ⏭️  ${name}  already deployed at ${estimate.existingAddress}`);
+        } else {
+            const l1 = estimate.l1Fee ? `  (L1 data: ${format(estimate.l1Fee)})` : '';
+            const placeholders = estimate.placeholders?.length ? `  [stand-in for ${estimate.placeholders.join(', ')}]` : '';
+            const existing = estimate.existingAddress ? '  [already deployed]' : '';
+            console.log(`   ⛽ ${name}  ${estimate.gas!.padStart(9)} gas  ${format(estimate.cost)}${l1}${existing}${placeholders}`);
         }
-    } catch (error) {
-        console.error('Error estimating adapter deployment:', (error as Error).message);
-
-        // Calculate minimal total (only permissions contracts)
-        const minimalEstimate: BigNumber = factoringPermissionsGasEstimate.add(depositPermissionsGasEstimate);
-        console.log(`Minimal gas estimate (permissions only): ${minimalEstimate.toString()}`);
-        console.log(
-            `At ${gweiValue} gwei, this would cost approximately: ${ethers.utils.formatEther(minimalEstimate.mul(gweiValue).mul(1e9))} ETH`,
-        );
+    }
+
+    console.log(`\n   Total: ${report.totalGas} gas, ${format(report.totalCost)}`);
+    if (report.estimates.some(estimate => estimate.error)) {
+        console.log('   ⚠️  The total leaves out deployments whose estimate failed');
     }
 }
 
-main()
-    .then(() => process.exit(0))
-    .catch((error: Error) => {
-        console.error(error);
-        process.exit(1);
+// ============================================================================
+// Launcher
+// ============================================================================
+
+/**
+ * Launcher: Get network and pool interactively, then estimate the deployment
+ * Options: --gas-price <gwei>, --from <address> (default bullaDao), --all to also price contracts already deployed
+ */
+export async function estimateGasLauncher(): Promise<void> {
+    await runScript('estimate-gas', async context => {
+        const { network, pool } = await getNetworkAndPoolInteractive();
+        context.network = network;
+        context.pool = pool;
+
+        const from = getInput('--from', 'DEPLOYER_ADDRESS') || getConfig(network, pool).bullaDao;
+        if (!utils.isAddress(from)) {
+            throw new InputError(`Invalid deployer address: ${from}`);
+        }
+
+        const report = await estimateGasWorkflow(network, pool, utils.getAddress(from), hasFlag('--all'));
+        context.details.estimate = report;
+        printGasEstimateReport(report);
     });
+}
+
+// Only run launcher if this script is run directly
+if (require.main === module) {
+    setupGracefulExit();
+    estimateGasLauncher();
+}
@@ -1,54 +1,248 @@
 import { deployAdapterWorkflow } from './deploy-adapter';
 import { deployFactoringWorkflow } from './deploy-bullaFactoring';
+import { getConfig, PoolName } from './network-config';
+import { setupPoolParamsWorkflow } from './setup-pool-params';
+import { smokeTestWorkflow } from './smoke-test';
+import { getDeployedContracts, getTransactionHashes, readBroadcastSince } from './utils/broadcast';
+import { getArgValue, hasFlag, InputError } from './utils/cli';
+import { DeployRunState, getDeployStatePath, readDeployState, StepState, updateStepState } from './utils/deploy-state';
+import { ForgeWorkflowOptions } from './utils/dry-run';
 import { getPrivateKeyInteractively, setupGracefulExit } from './utils/interactive-deploy';
 import { getNetworkAndPoolInteractive } from './utils/interactive-prompt';
+import { runScript, ScriptContext } from './utils/script-runner';
 import { verifyAllContractsWorkflow } from './verify-all-contracts';
 import { whitelistCallbackWorkflow } from './whitelist-callback';
 
+const FLOW_NAME = 'full-deploy';
+
+type DeployStep = {
+    id: string;
+    icon: string;
+    title: string;
+    /** Forge script whose broadcast file records the step's transactions and created contracts */
+    broadcastScript?: string;
+    /** Why the step is skipped in a dry run, for steps that have nothing to simulate */
+    skipInDryRun?: string;
+    /** The step acts on the deployed pool, so a dry run skips it until the pool exists */
+    requiresPool?: boolean;
+    run: (network: string, pool: PoolName, privateKey: string, options: ForgeWorkflowOptions) => Promise<void>;
+};
+
+const DEPLOY_STEPS: DeployStep[] = [
+    {
+        id: 'adapter',
+        icon: '📦',
+        title: 'Deploying Invoice Provider Adapter',
+        broadcastScript: 'DeployAdapter.s.sol',
+        run: (network, _pool, privateKey, options) => deployAdapterWorkflow(network, privateKey, options),
+    },
+    {
+        id: 'factoring',
+        icon: '📦',
+        title: 'Deploying BullaFactoring Contracts',
+        broadcastScript: 'DeployBullaFactoring.s.sol',
+        run: deployFactoringWorkflow,
+    },
+    {
+        id: 'params',
+        icon: '🔧',
+        title: 'Applying Operational Parameters',
+        broadcastScript: 'SetupPoolParams.s.sol',
+        requiresPool: true,
+        run: setupPoolParamsWorkflow,
+    },
+    {
+        id: 'verify',
+        icon: '🔍',
+        title: 'Verifying Deployed Contracts',
+        skipInDryRun: 'nothing was deployed to verify',
+        run: network => verifyAllContractsWorkflow(network),
+    },
+    {
+        id: 'whitelist',
+        icon: '🔐',
+        title: 'Whitelisting Callbacks',
+        broadcastScript: 'WhitelistCallback.s.sol',
+        requiresPool: true,
+        run: whitelistCallbackWorkflow,
+    },
+    {
+        id: 'smoke',
+        icon: '🧪',
+        title: 'Smoke Testing Pool Wiring',
+        skipInDryRun: 'nothing was deployed to test',
+        run: async (network, pool) => {
+            await smokeTestWorkflow(network, pool);
+        },
+    },
+];
+
+// ============================================================================
+// Step selection
+// ============================================================================
+
+/**
+ * Resolve a step given by id or 1-based number
+ * @throws Error if no step matches
+ */
+function findStepIndex(step: string): number {
+    const number = parseInt(step, 10);
+    const index = !isNaN(number) && String(number) === step ? number - 1 : DEPLOY_STEPS.findIndex(s => s.id === step);
+    if (index < 0 || index >= DEPLOY_STEPS.length) {
+        throw new InputError(`Unknown step '${step}'. Steps: ${DEPLOY_STEPS.map((s, i) => `${i + 1}=${s.id}`).join(', ')}`);
+    }
+    return index;
+}
+
+/**
+ * Pick the steps to run: everything from the first incomplete step (or --from-step), plus any --force-step
+ */
+function selectSteps(state: DeployRunState, fromStep: string | undefined, forceSteps: string[]): DeployStep[] {
+    const forced = forceSteps.map(findStepIndex);
+    const firstIncomplete = DEPLOY_STEPS.findIndex(step => state.steps[step.id].status !== 'completed');
+    const start = fromStep !== undefined ? findStepIndex(fromStep) : firstIncomplete === -1 ? DEPLOY_STEPS.length : firstIncomplete;
+
+    return DEPLOY_STEPS.filter((_, index) => index >= start || forced.includes(index));
+}
+
+/**
+ * Why a dry run skips a step, or undefined to simulate it
+ */
+function getDryRunSkipReason(step: DeployStep, network: string, pool: PoolName): string | undefined {
+    if (step.skipInDryRun) {
+        return step.skipInDryRun;
+    }
+    if (step.requiresPool && !getConfig(network, pool).bullaFactoringAddress) {
+        return 'BullaFactoring is only simulated, so there is no pool to act on yet';
+    }
+    return undefined;
+}
+
+/**
+ * Record what a step broadcast, ignoring broadcast files left over from earlier runs
+ */
+function recordBroadcastOutputs(state: DeployRunState, step: DeployStep, network: string, startedAt: Date): void {
+    const broadcast = step.broadcastScript ? readBroadcastSince(step.broadcastScript, network, startedAt.getTime()) : undefined;
+    if (!broadcast) {
+        return;
+    }
+
+    updateStepState(state, step.id, { txHashes: getTransactionHashes(broadcast), addresses: getDeployedContracts(broadcast) });
+}
+
+// ============================================================================
+// Flow
+// ============================================================================
+
 /**
  * Full deployment flow: Deploy everything and set up configurations
+ * Progress is saved to deploy_info/ after every step, so a rerun resumes at the first incomplete step.
+ * Options: --from-step <id|number> reruns from that step on, --force-step <id|number>[,...] reruns specific steps,
+ * --dry-run simulates the selected steps without broadcasting or saving progress.
+ * @param context Receives the network, pool and step states for the launcher's result
  */
-async function fullDeployFlow(): Promise<void> {
+export async function fullDeployFlow(context?: ScriptContext): Promise<void> {
     console.log('╔═══════════════════════════════════════════════════════════╗');
     console.log('║        🚀 FULL FACTORING DEPLOYMENT FLOW 🚀              ║');
     console.log('╚═══════════════════════════════════════════════════════════╝\n');
 
+    const fromStep = getArgValue('--from-step');
+    const forceSteps = (getArgValue('--force-step') || '').split(',').filter(Boolean);
+    const options: ForgeWorkflowOptions = { dryRun: hasFlag('--dry-run') };
+    let currentStep: DeployStep | undefined;
+
+    // A dry run reads the saved progress to pick its steps, but never writes it
+    const saveStepState = (state: DeployRunState, stepId: string, update: Partial<StepState>): void => {
+        if (!options.dryRun) {
+            updateStepState(state, stepId, update);
+        }
+    };
+
     try {
         // Get network, pool, and private key once at the start
         const { network, pool } = await getNetworkAndPoolInteractive();
-        const privateKey = await getPrivateKeyInteractively();
+        if (context) {
+            context.network = network;
+            context.pool = pool;
+        }
+
+        const state = readDeployState(
+            FLOW_NAME,
+            network,
+            pool,
+            DEPLOY_STEPS.map(step => step.id),
+        );
+        const steps = selectSteps(state, fromStep, forceSteps);
+        if (context) {
+            context.details.steps = state.steps;
+        }
 
         console.log('\n═══════════════════════════════════════════════════════════');
         console.log('📋 Deployment Configuration:');
         console.log(`   Network: ${network}`);
         console.log(`   Pool: ${pool}`);
+        console.log(`   Run State: ${getDeployStatePath(FLOW_NAME, network, pool)}${options.dryRun ? ' (dry run: not updated)' : ''}`);
+        DEPLOY_STEPS.forEach((step, index) => {
+            const willRun = steps.includes(step);
+            const status = state.steps[step.id].status;
+            console.log(`   ${willRun ? '▶️ ' : '⏭️ '} ${index + 1}. ${step.id} (${status})`);
+        });
         console.log('═══════════════════════════════════════════════════════════\n');
 
-        // Step 1: Deploy Adapter
-        console.log('📦 STEP 1/4: Deploying Invoice Provider Adapter...');
-        console.log('───────────────────────────────────────────────────────────');
-        await deployAdapterWorkflow(network, privateKey);
+        if (steps.length === 0) {
+            console.log('✅ All steps already completed. Use --from-step or --force-step to rerun steps.');
+            return;
+        }
+
+        const privateKey = await getPrivateKeyInteractively();
+
+        for (const step of steps) {
+            currentStep = step;
+            const index = DEPLOY_STEPS.indexOf(step);
+            const startedAt = new Date();
 
-        // Wait a bit between deployments
-        await new Promise(resolve => setTimeout(resolve, 2000));
+            console.log(`\n${step.icon} STEP ${index + 1}/${DEPLOY_STEPS.length}: ${step.title}...`);
+            console.log('───────────────────────────────────────────────────────────');
 
-        // Step 2: Deploy BullaFactoring
-        console.log('\n📦 STEP 2/4: Deploying BullaFactoring Contracts...');
-        console.log('───────────────────────────────────────────────────────────');
-        await deployFactoringWorkflow(network, pool, privateKey);
+            if (options.dryRun) {
+                const skipReason = getDryRunSkipReason(step, network, pool);
+                if (skipReason) {
+                    console.log(`⏭️  Skipped in dry run: ${skipReason}`);
+                    continue;
+                }
+            }
 
-        // Wait a bit between deployments
-        await new Promise(resolve => setTimeout(resolve, 2000));
+            saveStepState(state, step.id, {
+                status: 'running',
+                startedAt: startedAt.toISOString(),
+                completedAt: undefined,
+                error: undefined,
+                txHashes: [],
+                addresses: {},
+            });
 
-        // Step 3: Verify Contracts
-        console.log('\n🔍 STEP 3/4: Verifying Deployed Contracts...');
-        console.log('───────────────────────────────────────────────────────────');
-        await verifyAllContractsWorkflow(network);
+            try {
+                await step.run(network, pool, privateKey, options);
+                if (!options.dryRun) {
+                    recordBroadcastOutputs(state, step, network, startedAt);
+                }
+            } catch (error: any) {
+                saveStepState(state, step.id, { status: 'failed', error: error.message });
+                throw error;
+            }
 
-        // Step 4: Whitelist Callbacks
-        console.log('\n🔐 STEP 4/4: Whitelisting Callbacks...');
-        console.log('───────────────────────────────────────────────────────────');
-        await whitelistCallbackWorkflow(network, pool, privateKey);
+            saveStepState(state, step.id, { status: 'completed', completedAt: new Date().toISOString() });
+
+            // Wait a bit between deployments
+            if (step !== steps[steps.length - 1]) {
+                await new Promise(resolve => setTimeout(resolve, 2000));
+            }
+        }
+
+        if (options.dryRun) {
+            console.log('\nℹ️  Dry run completed: nothing was broadcast, and config/deployments.json and the run state are unchanged');
+            return;
+        }
 
         // Success!
         console.log('\n╔═══════════════════════════════════════════════════════════╗');
@@ -61,11 +255,13 @@ async function fullDeployFlow(): Promise<void> {
         console.log('   ✅ BullaFactoring Contract');
         console.log('   ✅ Factoring Permissions');
         console.log('   ✅ Deposit Permissions');
+        console.log('   ✅ Operational Parameters');
         console.log('   ✅ Contract Verification');
         console.log('   ✅ Callback Whitelisting');
+        console.log('   ✅ Smoke Test');
 
         console.log('\n📋 Next Steps:');
-        console.log('   1. Check network-config.ts for all deployed addresses');
+        console.log('   1. Check config/deployments.json for all deployed addresses');
         console.log('   2. Test deposit/withdraw functionality');
         console.log('   3. Approve and fund test invoices');
         console.log('   4. Monitor contract interactions on block explorer\n');
@@ -74,13 +270,16 @@ async function fullDeployFlow(): Promise<void> {
         console.error('║              ❌ DEPLOYMENT FAILED ❌                      ║');
         console.error('╚═══════════════════════════════════════════════════════════╝\n');
         console.error('❌ Error:', error.message);
-        console.error('\n💡 You can retry individual steps using the specific deployment scripts.');
-        process.exit(1);
+        if (currentStep && !options.dryRun) {
+            console.error(`\n💡 Progress has been saved. Rerun to resume at step '${currentStep.id}',`);
+            console.error(`   or pass --from-step ${currentStep.id} / --force-step <step> to choose steps explicitly.`);
+        }
+        throw error;
     }
 }
 
-// Setup graceful exit handling
-setupGracefulExit();
-
-// Run the full deployment flow
-fullDeployFlow();
+// Only run flow if this script is run directly
+if (require.main === module) {
+    setupGracefulExit();
+    runScript('full-deploy', fullDeployFlow);
+}
@@ -0,0 +1,567 @@
+import { BigNumber, Contract, providers, Wallet } from 'ethers';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { deployFactoringWorkflow } from './deploy-bullaFactoring';
+import { FullConfig, getConfig, PoolName } from './network-config';
+import { hasFlag } from './utils/cli';
+import { DEPLOY_STATE_DIR } from './utils/deploy-state';
+import { ForgeWorkflowOptions } from './utils/dry-run';
+import { getPrivateKeyInteractively, setupGracefulExit } from './utils/interactive-deploy';
+import { getNetworkAndPoolInteractive } from './utils/interactive-prompt';
+import { getNetworkMetadata } from './utils/networks';
+import { resolveRpcUrl } from './utils/rpc';
+import { isProposeMode, resolveSafeAddress, writeSafeBatches } from './utils/safe-batch';
+import { runScript } from './utils/script-runner';
+import { deprecatePoolDeployment } from './utils/update-config';
+import { whitelistCallbackWorkflow } from './whitelist-callback';
+
+// Moves a live pool to the current BullaFactoring version: snapshots the old pool, deploys BullaFactoringV2_2 with
+// the same parameters, rewires it, records the old pool as deprecated and writes a checklist of what is left to do by hand.
+
+export const MIGRATION_DIR = join(DEPLOY_STATE_DIR, 'migrations');
+
+const TARGET_CONTRACT = 'BullaFactoringV2_2';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** On-chain state of a pool at the time of migration; undefined fields could not be read from its version */
+export type PoolSnapshot = {
+    network: string;
+    pool: PoolName;
+    bullaFactoringAddress: string;
+    /** BullaFactoringV2_1 when the V2_2 insurance getters are missing */
+    contractName: string;
+    blockNumber: number;
+    owner: string;
+    asset: string;
+    invoiceProviderAdapter: string;
+    underwriter: string;
+    insurer?: string;
+    bullaDao: string;
+    protocolFeeBps: number;
+    adminFeeBps: number;
+    targetYieldBps: number;
+    insuranceFeeBps?: number;
+    impairmentGrossGainBps?: number;
+    recoveryProfitRatioBps?: number;
+    poolName: string;
+    tokenName: string;
+    tokenSymbol: string;
+    depositPermissions: string;
+    redeemPermissions: string;
+    factoringPermissions: string;
+    gracePeriodDays: string;
+    approvalDuration: string;
+    redemptionQueue: string;
+    maxQueueSize?: string;
+    queuedRedemptions?: string;
+    totalSupply: string;
+    totalAssets: string;
+    activeInvoices?: string[];
+    /** Agreement version required by ComplianceDepositPermissions, when the pool uses it */
+    documentVersion?: string;
+};
+
+/** An owner-only call made while rewiring the new pool */
+type RewireCall = {
+    to: string;
+    contractLabel: string;
+    signature: string;
+    args: unknown[];
+    description: string;
+};
+
+const BULLA_FACTORING_ABI = [
+    'function owner() view returns (address)',
+    'function name() view returns (string)',
+    'function symbol() view returns (string)',
+    'function getFundInfo() view returns (tuple(string name, uint256 creationTimestamp, uint256 fundBalance, uint256 deployedCapital, uint256 capitalAccount, uint256 price, uint256 tokensAvailableForRedemption, uint16 adminFeeBps, uint256 targetYieldBps))',
+    'function assetAddress() view returns (address)',
+    'function invoiceProviderAdapter() view returns (address)',
+    'function underwriter() view returns (address)',
+    'function insurer() view returns (address)',
+    'function bullaDao() view returns (address)',
+    'function protocolFeeBps() view returns (uint16)',
+    'function insuranceFeeBps() view returns (uint16)',
+    'function impairmentGrossGainBps() view returns (uint16)',
+    'function recoveryProfitRatioBps() view returns (uint16)',
+    'function depositPermissions() view returns (address)',
+    'function redeemPermissions() view returns (address)',
+    'function factoringPermissions() view returns (address)',
+    'function gracePeriodDays() view returns (uint256)',
+    'function approvalDuration() view returns (uint256)',
+    'function getRedemptionQueue() view returns (address)',
+    'function totalSupply() view returns (uint256)',
+    'function totalAssets() view returns (uint256)',
+    'function getActiveInvoices() view returns (uint256[])',
+    'function activeInvoices(uint256 index) view returns (uint256)',
+];
+
+const REDEMPTION_QUEUE_ABI = [
+    'function maxQueueSize() view returns (uint256)',
+    'function getQueueStats() view returns (uint256 queueLength, uint256 totalShares, uint256 totalAssets)',
+];
+
+const COMPLIANCE_ABI = ['function poolDocumentVersion(address pool) view returns (uint256)'];
+
+/** Upper bound when walking the public activeInvoices array of pools without getActiveInvoices() */
+const MAX_ACTIVE_INVOICES = 1000;
+
+// ============================================================================
+// Snapshot
+// ============================================================================
+
+async function tryRead<T>(read: () => Promise<T>): Promise<T | undefined> {
+    try {
+        return await read();
+    } catch {
+        return undefined;
+    }
+}
+
+function sameAddress(a: string | undefined, b: string | undefined): boolean {
+    return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Active invoice IDs, from getActiveInvoices() or by walking the public activeInvoices array of older versions
+ */
+async function readActiveInvoices(pool: Contract): Promise<string[] | undefined> {
+    const invoices: BigNumber[] | undefined = await tryRead(() => pool.getActiveInvoices());
+    if (invoices) {
+        return invoices.map(id => id.toString());
+    }
+
+    const walked: string[] = [];
+    for (let index = 0; index < MAX_ACTIVE_INVOICES; index++) {
+        const id: BigNumber | undefined = await tryRead(() => pool.activeInvoices(index));
+        if (!id) {
+            // A revert at index 0 means either no invoices or no such getter, which cannot be told apart
+            return index === 0 ? undefined : walked;
+        }
+        walked.push(id.toString());
+    }
+    return walked;
+}
+
+/**
+ * Read everything a migration needs from a deployed pool
+ * Takes the provider as a parameter so it can run against any node, including a fork of the pool's network.
+ * @throws Error if there is no contract at the address or a getter every version has reverts
+ */
+export async function snapshotPool(provider: providers.Provider, config: FullConfig, address: string): Promise<PoolSnapshot> {
+    if ((await provider.getCode(address)) === '0x') {
+        throw new Error(`No contract at ${address} on ${config.network}`);
+    }
+
+    const pool = new Contract(address, BULLA_FACTORING_ABI, provider);
+    const fundInfo = await pool.getFundInfo();
+    const insuranceFeeBps: number | undefined = await tryRead(() => pool.insuranceFeeBps());
+    const redemptionQueue: string = await pool.getRedemptionQueue();
+    const queue = new Contract(redemptionQueue, REDEMPTION_QUEUE_ABI, provider);
+    const depositPermissions: string = await pool.depositPermissions();
+
+    const maxQueueSize: BigNumber | undefined = await tryRead(() => queue.maxQueueSize());
+    const queueStats: { queueLength: BigNumber } | undefined = await tryRead(() => queue.getQueueStats());
+    const documentVersion: BigNumber | undefined = sameAddress(depositPermissions, config.complianceDepositPermissionsAddress)
+        ? await tryRead(() => new Contract(depositPermissions, COMPLIANCE_ABI, provider).poolDocumentVersion(address))
+        : undefined;
+
+    return {
+        network: config.network,
+        pool: config.poolName,
+        bullaFactoringAddress: address,
+        contractName: insuranceFeeBps === undefined ? 'BullaFactoringV2_1' : TARGET_CONTRACT,
+        blockNumber: await provider.getBlockNumber(),
+        owner: await pool.owner(),
+        asset: await pool.assetAddress(),
+        invoiceProviderAdapter: await pool.invoiceProviderAdapter(),
+        underwriter: await pool.underwriter(),
+        insurer: await tryRead(() => pool.insurer()),
+        bullaDao: await pool.bullaDao(),
+        protocolFeeBps: await pool.protocolFeeBps(),
+        adminFeeBps: fundInfo.adminFeeBps,
+        targetYieldBps: fundInfo.targetYieldBps.toNumber(),
+        insuranceFeeBps,
+        impairmentGrossGainBps: await tryRead(() => pool.impairmentGrossGainBps()),
+        recoveryProfitRatioBps: await tryRead(() => pool.recoveryProfitRatioBps()),
+        poolName: fundInfo.name,
+        tokenName: await pool.name(),
+        tokenSymbol: await pool.symbol(),
+        depositPermissions,
+        redeemPermissions: await pool.redeemPermissions(),
+        factoringPermissions: await pool.factoringPermissions(),
+        gracePeriodDays: (await pool.gracePeriodDays()).toString(),
+        approvalDuration: (await pool.approvalDuration()).toString(),
+        redemptionQueue,
+        maxQueueSize: maxQueueSize?.toString(),
+        queuedRedemptions: queueStats?.queueLength.toString(),
+        totalSupply: (await pool.totalSupply()).toString(),
+        totalAssets: (await pool.totalAssets()).toString(),
+        activeInvoices: await readActiveInvoices(pool),
+        documentVersion: documentVersion?.toString(),
+    };
+}
+
+/**
+ * Deployment parameters for the new pool, taken from the snapshot rather than config
+ * The invoice adapter and bullaDao stay as configured: the new version needs the V2 adapter,
+ * and bullaDao is network-wide. Insurance parameters fall back to config for pools older than V2_2.
+ */
+export function getMigrationOverrides(snapshot: PoolSnapshot): Partial<FullConfig> {
+    return {
+        bullaFactoringAddress: undefined,
+        underlyingAsset: snapshot.asset,
+        underwriter: snapshot.underwriter,
+        depositPermissionsAddress: snapshot.depositPermissions,
+        redeemPermissionsAddress: snapshot.redeemPermissions,
+        factoringPermissionsAddress: snapshot.factoringPermissions,
+        protocolFeeBps: snapshot.protocolFeeBps,
+        adminFeeBps: snapshot.adminFeeBps,
+        targetYieldBps: snapshot.targetYieldBps,
+        // DeployBullaFactoring.s.sol takes the on-chain pool name from poolName
+        poolName: snapshot.poolName,
+        poolTokenName: snapshot.tokenName,
+        poolTokenSymbol: snapshot.tokenSymbol,
+        ...(snapshot.insurer && { insurer: snapshot.insurer }),
+        ...(snapshot.insuranceFeeBps !== undefined && { insuranceFeeBps: snapshot.insuranceFeeBps }),
+        ...(snapshot.impairmentGrossGainBps !== undefined && { impairmentGrossGainBps: snapshot.impairmentGrossGainBps }),
+        ...(snapshot.recoveryProfitRatioBps !== undefined && { recoveryProfitRatioBps: snapshot.recoveryProfitRatioBps }),
+    };
+}
+
+// ============================================================================
+// Rewiring
+// ============================================================================
+
+/**
+ * Calls the deployer (owner of the new pool and its queue) makes to match the old pool's operational parameters
+ */
+async function planRewireCalls(provider: providers.Provider, snapshot: PoolSnapshot, newPoolAddress: string): Promise<RewireCall[]> {
+    const newPool = new Contract(newPoolAddress, BULLA_FACTORING_ABI, provider);
+    const label = `${TARGET_CONTRACT} (${snapshot.pool})`;
+    const calls: RewireCall[] = [];
+
+    const gracePeriodDays: BigNumber = await newPool.gracePeriodDays();
+    if (!gracePeriodDays.eq(snapshot.gracePeriodDays)) {
+        calls.push({
+            to: newPoolAddress,
+            contractLabel: label,
+            signature: 'function setGracePeriodDays(uint256 _days)',
+            args: [snapshot.gracePeriodDays],
+            description: `gracePeriodDays: ${gracePeriodDays} → ${snapshot.gracePeriodDays}`,
+        });
+    }
+
+    const approvalDuration: BigNumber = await newPool.approvalDuration();
+    if (!approvalDuration.eq(snapshot.approvalDuration)) {
+        calls.push({
+            to: newPoolAddress,
+            contractLabel: label,
+            signature: 'function setApprovalDuration(uint256 _duration)',
+            args: [snapshot.approvalDuration],
+            description: `approvalDuration: ${approvalDuration} → ${snapshot.approvalDuration}`,
+        });
+    }
+
+    if (snapshot.maxQueueSize !== undefined) {
+        const queue: string = await newPool.getRedemptionQueue();
+        const maxQueueSize: BigNumber = await new Contract(queue, REDEMPTION_QUEUE_ABI, provider).maxQueueSize();
+        if (!maxQueueSize.eq(snapshot.maxQueueSize)) {
+            calls.push({
+                to: queue,
+                contractLabel: 'RedemptionQueue',
+                signature: 'function setMaxQueueSize(uint256 _maxQueueSize)',
+                args: [snapshot.maxQueueSize],
+                description: `maxQueueSize: ${maxQueueSize} → ${snapshot.maxQueueSize}`,
+            });
+        }
+    }
+
+    return calls;
+}
+
+/**
+ * Carry the old pool's agreement document version over to the new pool on ComplianceDepositPermissions
+ * ComplianceDepositPermissions is owned by bullaDao, so with `propose` the call is written as a Safe batch.
+ * @returns Whether the call is still waiting for the Safe
+ */
+async function copyDocumentVersion(
+    provider: providers.Provider,
+    signer: Wallet | undefined,
+    snapshot: PoolSnapshot,
+    newPoolAddress: string,
+    options: ForgeWorkflowOptions,
+): Promise<boolean> {
+    if (snapshot.documentVersion === undefined) {
+        return false;
+    }
+
+    const signature = 'function setPoolDocumentVersion(address pool, uint256 version)';
+    const compliance = new Contract(snapshot.depositPermissions, [...COMPLIANCE_ABI, signature], signer || provider);
+    if ((await compliance.poolDocumentVersion(newPoolAddress)).eq(snapshot.documentVersion)) {
+        return false;
+    }
+
+    console.log(`\n📄 Setting the new pool's document version to ${snapshot.documentVersion} on ComplianceDepositPermissions...`);
+    if (options.propose) {
+        writeSafeBatches(
+            snapshot.network,
+            `migrate-${snapshot.pool}-document-version`,
+            `Carry the ${snapshot.pool} pool's document version over`,
+            [
+                {
+                    to: snapshot.depositPermissions,
+                    contractLabel: 'ComplianceDepositPermissions',
+                    signature,
+                    args: [newPoolAddress, snapshot.documentVersion],
+                    safe: await resolveSafeAddress(provider, snapshot.depositPermissions),
+                },
+            ],
+        );
+        return true;
+    }
+
+    const tx = await compliance.setPoolDocumentVersion(newPoolAddress, snapshot.documentVersion);
+    console.log(`   ⏳ ${tx.hash}`);
+    await tx.wait();
+    return false;
+}
+
+// ============================================================================
+// Checklist
+// ============================================================================
+
+/**
+ * Manual steps left after the migration, in the order they should be done
+ */
+export function buildMigrationChecklist(
+    snapshot: PoolSnapshot,
+    newPoolAddress: string,
+    deployer: string,
+    config: FullConfig,
+    pending: { documentVersion: boolean; callbackWhitelist: boolean },
+): string[] {
+    const checklist: string[] = [];
+    const { network, pool } = snapshot;
+
+    if (pending.callbackWhitelist) {
+        checklist.push(`Execute the Safe batch whitelisting reconcileSingleInvoice of ${newPoolAddress} on BullaClaimV2`);
+    }
+    if (pending.documentVersion) {
+        checklist.push(
+            `Execute the Safe batch setting document version ${snapshot.documentVersion} for ${newPoolAddress} on ComplianceDepositPermissions`,
+        );
+    }
+    if (!sameAddress(snapshot.owner, deployer)) {
+        checklist.push(
+            `Transfer ownership of the new pool ${newPoolAddress} and its redemption queue from ${deployer} to ${snapshot.owner}, the old pool's owner`,
+        );
+    }
+    checklist.push(
+        `Stop new deposits into the old pool ${snapshot.bullaFactoringAddress}. Its permissions contracts are shared with the new pool, so point its deposit permissions at an empty DepositPermissions rather than revoking investors`,
+    );
+    if (!BigNumber.from(snapshot.totalSupply).isZero()) {
+        const queued =
+            snapshot.queuedRedemptions && snapshot.queuedRedemptions !== '0' ? `, ${snapshot.queuedRedemptions} redemption(s) queued` : '';
+        checklist.push(
+            `Have investors redeem from the old pool and deposit into the new one: ${snapshot.totalSupply} shares outstanding, ${snapshot.totalAssets} assets${queued}`,
+        );
+    }
+    if (snapshot.activeInvoices === undefined) {
+        checklist.push('Active invoices could not be read from the old pool; check them on the explorer before winding it down');
+    } else if (snapshot.activeInvoices.length > 0) {
+        checklist.push(
+            `Let the old pool's ${
+                snapshot.activeInvoices.length
+            } active invoice(s) be paid or impaired there (IDs: ${snapshot.activeInvoices.join(
+                ', ',
+            )}). Keep its callback whitelisted on BullaClaimV2 until they are`,
+        );
+    }
+    checklist.push('Have the underwriter re-approve any invoices approved on the old pool but not yet funded, on the new pool');
+    checklist.push('Withdraw admin fees and spread gains (owner) and protocol fees (bullaDao) from the old pool once it is wound down');
+    if (!sameAddress(snapshot.invoiceProviderAdapter, config.BullaClaimInvoiceProviderAdapterAddress)) {
+        checklist.push(
+            `The new pool uses the configured adapter ${config.BullaClaimInvoiceProviderAdapterAddress}, not the old pool's ${snapshot.invoiceProviderAdapter}`,
+        );
+    }
+
+    const configured: [string, string | number | undefined, string | number | undefined][] = [
+        ['underwriter', config.underwriter, snapshot.underwriter],
+        ['insurer', config.insurer, snapshot.insurer],
+        ['poolDisplayName', config.poolDisplayName, snapshot.poolName],
+        ['poolTokenName', config.poolTokenName, snapshot.tokenName],
+        ['poolTokenSymbol', config.poolTokenSymbol, snapshot.tokenSymbol],
+        ['protocolFeeBps', config.protocolFeeBps, snapshot.protocolFeeBps],
+        ['adminFeeBps', config.adminFeeBps, snapshot.adminFeeBps],
+        ['targetYieldBps', config.targetYieldBps, snapshot.targetYieldBps],
+    ];
+    configured
+        .filter(([, expected, actual]) => actual !== undefined && expected?.toString().toLowerCase() !== actual.toString().toLowerCase())
+        .forEach(([field, expected, actual]) =>
+            checklist.push(
+                `Update ${field} for ${network}/${pool} in config/deployments.json: the new pool was deployed with ${actual}, config has ${expected}`,
+            ),
+        );
+
+    checklist.push(`Point the app, subgraph and any integrations at ${newPoolAddress}`);
+    checklist.push(`Run yarn smoke-test and yarn check-drift for ${network}/${pool}`);
+    return checklist;
+}
+
+/**
+ * Write the snapshot and checklist to deploy_info/migrations/
+ * @returns Path of the checklist
+ */
+function writeMigrationRecord(snapshot: PoolSnapshot, newPoolAddress: string, checklist: string[]): string {
+    if (!existsSync(MIGRATION_DIR)) {
+        mkdirSync(MIGRATION_DIR, { recursive: true });
+    }
+
+    const baseName = `${snapshot.network}-${snapshot.pool}-${snapshot.bullaFactoringAddress.slice(0, 10)}`;
+    writeFileSync(join(MIGRATION_DIR, `${baseName}.json`), JSON.stringify({ snapshot, newPoolAddress, checklist }, null, 2));
+
+    const lines = [
+        `# ${snapshot.network}/${snapshot.pool}: ${snapshot.contractName} → ${TARGET_CONTRACT}`,
+        '',
+        `- Old pool: \`${snapshot.bullaFactoringAddress}\` (snapshot at block ${snapshot.blockNumber})`,
+        `- New pool: \`${newPoolAddress}\``,
+        '',
+        '## Remaining steps',
+        '',
+        ...checklist.map(item => `- [ ] ${item}`),
+        '',
+    ];
+    const checklistPath = join(MIGRATION_DIR, `${baseName}.md`);
+    writeFileSync(checklistPath, lines.join('\n'));
+    return checklistPath;
+}
+
+// ============================================================================
+// Workflow
+// ============================================================================
+
+/**
+ * Find the pool being migrated away from and, when a previous run already deployed it, its replacement
+ * A run that failed after deploying resumes from the deprecated entry it recorded, instead of deploying again.
+ */
+async function resolveMigration(provider: providers.Provider, config: FullConfig): Promise<{ oldAddress: string; newAddress?: string }> {
+    const current = config.bullaFactoringAddress!;
+    const previous = config.deprecatedDeployments?.[config.deprecatedDeployments.length - 1];
+    if (previous && sameAddress(previous.replacedBy, current)) {
+        return { oldAddress: previous.bullaFactoringAddress, newAddress: current };
+    }
+
+    const insuranceFeeBps = await tryRead(() => new Contract(current, BULLA_FACTORING_ABI, provider).insuranceFeeBps());
+    if (insuranceFeeBps !== undefined) {
+        throw new Error(`${config.network}/${config.poolName} at ${current} is already ${TARGET_CONTRACT}, there is nothing to migrate`);
+    }
+    return { oldAddress: current };
+}
+
+/**
+ * Pool migration workflow (can be called with parameters or standalone)
+ * The deployer owns the new pool and its queue, so their parameters are always set with the key.
+ * With `propose`, calls to contracts owned by bullaDao or a Safe (callback whitelist, document version) become Safe batches.
+ * @returns Address of the new pool, undefined in a dry run
+ */
+export async function migratePoolWorkflow(
+    network: string,
+    pool: PoolName,
+    privateKey: string,
+    options: ForgeWorkflowOptions = {},
+): Promise<string | undefined> {
+    console.log(`🚚 Migrating ${network}/${pool} to ${TARGET_CONTRACT}...\n`);
+
+    const config = getConfig(network, pool);
+    if (!config.bullaFactoringAddress) {
+        throw new Error(`No bullaFactoringAddress configured for ${network}/${pool}`);
+    }
+
+    const rpcUrl = await resolveRpcUrl(network);
+    const provider = new providers.StaticJsonRpcProvider(rpcUrl, getNetworkMetadata(network).chainId);
+    const migration = await resolveMigration(provider, config);
+
+    console.log(`📸 Snapshotting the old pool at ${migration.oldAddress}...`);
+    const snapshot = await snapshotPool(provider, config, migration.oldAddress);
+    console.log(
+        `   ${snapshot.contractName}, ${snapshot.totalSupply} shares, ${snapshot.activeInvoices?.length ?? 'unknown'} active invoice(s)\n`,
+    );
+
+    let newAddress = migration.newAddress;
+    if (newAddress) {
+        console.log(`⏭️  ${TARGET_CONTRACT} already deployed at ${newAddress}, resuming\n`);
+    } else {
+        await deployFactoringWorkflow(network, pool, privateKey, options, getMigrationOverrides(snapshot));
+        if (options.dryRun) {
+            console.log('\n🧪 Dry run: the new pool would then be rewired and the old one recorded as deprecated');
+            return undefined;
+        }
+
+        newAddress = getConfig(network, pool).bullaFactoringAddress;
+        if (!newAddress || sameAddress(newAddress, snapshot.bullaFactoringAddress)) {
+            throw new Error(`The ${TARGET_CONTRACT} deployment was not recorded in config/deployments.json`);
+        }
+        deprecatePoolDeployment(network, pool, {
+            bullaFactoringAddress: snapshot.bullaFactoringAddress,
+            contractName: snapshot.contractName,
+            replacedBy: newAddress,
+            deprecatedAt: new Date().toISOString(),
+        });
+    }
+
+    const signer = new Wallet(privateKey, provider);
+    const calls = await planRewireCalls(provider, snapshot, newAddress);
+    if (calls.length > 0) {
+        console.log(`\n🔧 Matching the old pool's operational parameters (${calls.length} transaction(s))...`);
+        for (const call of calls) {
+            const contract = new Contract(call.to, [call.signature], signer);
+            const tx = await contract[Object.values(contract.interface.functions)[0].name](...call.args);
+            console.log(`   ${call.description}  ⏳ ${tx.hash}`);
+            await tx.wait();
+        }
+    }
+
+    const documentVersionPending = await copyDocumentVersion(provider, signer, snapshot, newAddress, options);
+
+    await whitelistCallbackWorkflow(network, pool, privateKey, options);
+
+    const checklist = buildMigrationChecklist(snapshot, newAddress, signer.address, getConfig(network, pool), {
+        documentVersion: documentVersionPending,
+        callbackWhitelist: !!options.propose,
+    });
+    const checklistPath = writeMigrationRecord(snapshot, newAddress, checklist);
+
+    console.log(`\n✅ ${network}/${pool} migrated: ${snapshot.bullaFactoringAddress} → ${newAddress}`);
+    console.log('\n📝 Remaining steps:');
+    checklist.forEach((item, index) => console.log(`   ${index + 1}. ${item}`));
+    console.log(`\n📁 Snapshot and checklist written to ${checklistPath.replace(/\.md$/, '.{json,md}')}`);
+    return newAddress;
+}
+
+/**
+ * Launcher: Get network, pool, and private key interactively, then run workflow
+ * Options: --dry-run, --propose (for the calls bullaDao or a Safe must make)
+ */
+export async function migratePoolLauncher(): Promise<void> {
+    await runScript('migrate-pool', async context => {
+        const { network, pool } = await getNetworkAndPoolInteractive();
+        context.network = network;
+        context.pool = pool;
+
+        // The new pool is always deployed from a key, so it is needed even when proposing
+        const privateKey = await getPrivateKeyInteractively();
+
+        const newAddress = await migratePoolWorkflow(network, pool, privateKey, { dryRun: hasFlag('--dry-run'), propose: isProposeMode() });
+        context.details.newBullaFactoringAddress = newAddress;
+    });
+}
+
+// Only run launcher if this script is run directly
+if (require.main === module) {
+    setupGracefulExit();
+    migratePoolLauncher();
+}
@@ -1,5 +1,9 @@
 // Shared network and pool configurations for deployment and permissions scripts
 
+import { readRegistry } from './utils/deployment-registry';
+import { getExplorerApiKey, getNetworkMetadata, NETWORKS } from './utils/networks';
+import { getRpcUrls } from './utils/rpc';
+
 // ============================================================================
 // Global Constants
 // ============================================================================
@@ -7,12 +11,17 @@
 /** Default protocol fee in basis points (30 bps = 0.30%) */
 export const DEFAULT_PROTOCOL_FEE_BPS = 30;
 
+/** Default insurance parameters, matching the fallbacks in DeployBullaFactoring.s.sol */
+export const DEFAULT_INSURANCE_FEE_BPS = 100;
+export const DEFAULT_IMPAIRMENT_GROSS_GAIN_BPS = 500;
+export const DEFAULT_RECOVERY_PROFIT_RATIO_BPS = 5000;
+
 // ============================================================================
 // Types
 // ============================================================================
 
-const allPools = ['tcs', 'taram', 'fundora'] as const;
-export type PoolName = typeof allPools[number];
+/** Pool names are the keys of `pools` in config/deployments.json (add new ones with `yarn add-pool`) */
+export type PoolName = string;
 
 /** Network-specific configuration (not tied to any pool) */
 export type NetworkConfig = {
@@ -34,6 +43,36 @@ export type PoolConfig = {
     protocolFeeBps: number;
     adminFeeBps: number;
     targetYieldBps: number;
+    /** Share of each invoice's fees paid to the insurer */
+    insuranceFeeBps: number;
+    /** Gross gain taken on impairment; must be positive */
+    impairmentGrossGainBps: number;
+    /** Share of recovered profit paid to the insurer */
+    recoveryProfitRatioBps: number;
+};
+
+/**
+ * Post-deployment settings applied by the setup step (setup-pool-params.ts)
+ * Unset values are left as they are on-chain.
+ */
+export type OperationalParams = {
+    gracePeriodDays?: number;
+    /** How long an invoice approval stays valid, in seconds */
+    approvalDuration?: number;
+    maxQueueSize?: number;
+    /** Impair reserve in the asset's smallest unit; only BullaFactoring V1 pools have one */
+    impairReserve?: string;
+};
+
+/** A factoring contract a pool was migrated away from, kept so it can be wound down and audited */
+export type DeprecatedPoolDeployment = {
+    bullaFactoringAddress: string;
+    /** Contract the old pool was deployed from, e.g. BullaFactoringV2_1 */
+    contractName: string;
+    /** bullaFactoringAddress of the pool that replaced it */
+    replacedBy: string;
+    /** ISO 8601 timestamp of the migration */
+    deprecatedAt: string;
 };
 
 /** Deployed pool configuration (specific to network + pool combination) */
@@ -47,6 +86,11 @@ export type DeployedPoolConfig = {
     depositPermissionsAddress?: string;
     redeemPermissionsAddress?: string;
     bullaFactoringAddress?: string;
+    /** Receives insurance fees; required before deploying a new factoring contract */
+    insurer?: string;
+    operationalParams?: OperationalParams;
+    /** Earlier factoring contracts of this pool, oldest first */
+    deprecatedDeployments?: DeprecatedPoolDeployment[];
     writeNewAddresses: boolean;
 };
 
@@ -57,75 +101,51 @@ export type FullConfig = NetworkConfig & PoolConfig & DeployedPoolConfig & { poo
 // Network Configurations (Network-only, no pool info)
 // ============================================================================
 
-export const networkConfigs: Record<string, NetworkConfig> = {
-    sepolia: {
-        bullaClaim: '0x0d9EF9d436fF341E500360a6B5E5750aB85BCCB6',
-        bullaDao: '0x47Ee085AC0Cdd254D4BFeca3405cD970f44728AB', // Bulla Protocol Safe's address
-        bullaFrendLendAddress: '0x4d6A66D32CF34270e4cc9C9F201CA4dB650Be3f2',
-        bullaInvoiceAddress: '0xa2c4B7239A0d179A923751cC75277fe139AB092F',
-        BullaClaimInvoiceProviderAdapterAddress: '0x2c6c46d6b1b5121b0072c8b9f4eb836fe1252f78',
-        sumsubKycIssuerAddress: '0x4f51c54d5a335c4e42c974d0709ef034a5864858',
-        agreementSignatureRepoAddress: '0xead7c69c5216fdf189c4bed56185dbbdb456812c',
-        bullaKycGateAddress: '0xe8681068fa56b8e1423fabb904e1413b2fff36aa',
-        complianceDepositPermissionsAddress: '0x62919a63ad1e3176c5b178a072ff2b04cd8a748a',
-        // Chainalysis does not deploy on Sepolia — deploy a mock and set the address here
-        sanctionsListAddress: '0x1743972c13e24da42330e8768ac3e18b5cfe0ae7',
-    },
-    polygon: {
-        bullaClaim: '0x5A809C17d33c92f9EFF31e579E9DeDF247e1EBe4',
-        bullaDao: '0x47Ee085AC0Cdd254D4BFeca3405cD970f44728AB', // Bulla Protocol Safe's address
-        bullaFrendLendAddress: '0x0000000000000000000000000000000000000000',
-        bullaInvoiceAddress: '0x0000000000000000000000000000000000000000',
-        BullaClaimInvoiceProviderAdapterAddress: '0xB5B31E95f0C732450Bc869A6467A9941C8565b10',
-        sanctionsListAddress: '0x40C57923924B5c5c5455c48D93317139ADDaC8fb', // Chainalysis OFAC oracle
-    },
-    mainnet: {
-        bullaClaim: '0x10a55a4dbd24fa188eed98a2adae2ebff0ef1219',
-        bullaDao: '0x47Ee085AC0Cdd254D4BFeca3405cD970f44728AB', // Bulla Protocol Safe's address
-        bullaFrendLendAddress: '0x1097b7ecf0721aaffff147cf7bec154422896317',
-        bullaInvoiceAddress: '0xfe2631bcb3e622750b6fbb605a416173ffa3a770',
-        BullaClaimInvoiceProviderAdapterAddress: '0x74c62f475464a03a462578d65629240b34221c1b',
-        sanctionsListAddress: '0x40C57923924B5c5c5455c48D93317139ADDaC8fb', // Chainalysis OFAC oracle
-    },
-    base: {
-        bullaClaim: '0x8D59E594a3e4D0647C15887Cde5ECBfBE583b441',
-        bullaDao: '0x47Ee085AC0Cdd254D4BFeca3405cD970f44728AB', // Bulla Protocol Safe's address
-        bullaFrendLendAddress: '0x777A7966464a4E5684FE95025aDb2AD56bdaE77B',
-        bullaInvoiceAddress: '0x1E1d535a41515D3D2c29C1524C825236D67733E1',
-        BullaClaimInvoiceProviderAdapterAddress: '0x4d4f494f4e6232d2be0a055359eb29edb17ae0ca',
-        sanctionsListAddress: '0x3A91A31cB3dC49b4db9Ce721F50a9D076c8D739B', // Chainalysis OFAC oracle (Base-specific)
-    },
-    arbitrum: {
-        bullaClaim: '0xb58f4f651553d51d95c69f59364a9ee1ca554b7e',
-        bullaDao: '0x47Ee085AC0Cdd254D4BFeca3405cD970f44728AB', // Bulla Protocol Safe's address
-        bullaFrendLendAddress: '0x1a34dfd1ee17130228452f3d9cdda5908865d22d',
-        bullaInvoiceAddress: '0x74c62f475464a03a462578d65629240b34221c1b',
-        BullaClaimInvoiceProviderAdapterAddress: '0x2C6c46d6b1b5121b0072c8B9F4eB836fE1252f78',
-        sanctionsListAddress: '0x40C57923924B5c5c5455c48D93317139ADDaC8fb', // Chainalysis OFAC oracle
-    },
-};
+/**
+ * Network-wide contract addresses are stored in config/deployments.json (see utils/deployment-registry.ts)
+ * The registry is read on every call so addresses written by a deployment are visible to later steps.
+ */
+function getNetworkConfigs(): Record<string, NetworkConfig> {
+    const configs: Record<string, NetworkConfig> = {};
+    for (const [network, deployment] of Object.entries(readRegistry().networks)) {
+        if (!NETWORKS[network]) {
+            throw new Error(`Network '${network}' is in config/deployments.json but has no metadata in scripts/utils/networks.ts`);
+        }
+        configs[network] = deployment.contracts;
+    }
+    return configs;
+}
 
 // ============================================================================
 // Pool Configurations (Pool-only, network-agnostic)
 // ============================================================================
 
-export const poolConfigs: Record<PoolName, PoolConfig> = {
-    tcs: {
-        protocolFeeBps: 30,
-        adminFeeBps: 0,
-        targetYieldBps: 795,
-    },
-    taram: {
-        protocolFeeBps: 30,
-        adminFeeBps: 50,
-        targetYieldBps: 800,
-    },
-    fundora: {
-        protocolFeeBps: 30,
-        adminFeeBps: 50,
-        targetYieldBps: 900,
-    },
-};
+/**
+ * Fee parameters per pool, stored under `pools` in config/deployments.json and shared by every network the pool is deployed on
+ */
+export function getPoolConfigs(): Record<PoolName, PoolConfig> {
+    return readRegistry().pools;
+}
+
+/**
+ * Check insurance parameters against the bounds enforced by setInsuranceParams and the BullaFactoringV2_2 constructor
+ * @returns List of human-readable problems (empty when valid)
+ */
+export function getInsuranceParamsErrors(config: PoolConfig): string[] {
+    const errors: string[] = [];
+    const inRange = (value: number, min: number) => Number.isInteger(value) && value >= min && value <= 10000;
+
+    if (!inRange(config.insuranceFeeBps, 0)) {
+        errors.push(`insuranceFeeBps must be an integer between 0 and 10000, got ${config.insuranceFeeBps}`);
+    }
+    if (!inRange(config.impairmentGrossGainBps, 1)) {
+        errors.push(`impairmentGrossGainBps must be an integer between 1 and 10000, got ${config.impairmentGrossGainBps}`);
+    }
+    if (!inRange(config.recoveryProfitRatioBps, 0)) {
+        errors.push(`recoveryProfitRatioBps must be an integer between 0 and 10000, got ${config.recoveryProfitRatioBps}`);
+    }
+    return errors;
+}
 
 // ============================================================================
 // Deployed Pool Configurations (Network + Pool specific)
@@ -136,118 +156,7 @@ export const poolConfigs: Record<PoolName, PoolConfig> = {
  * Returns undefined if the pool is not deployed on that network
  */
 function getDeploymentConfig(network: string, pool: PoolName): DeployedPoolConfig | undefined {
-    switch (network) {
-        case 'sepolia':
-            switch (pool) {
-                case 'tcs':
-                    return {
-                        underlyingAsset: '0x94a9D9AC8a22534E3FaCa9F4e7F2E2cf85d5E4C8', // Sepolia USDC
-                        poolDisplayName: 'Bulla TCS Factoring Pool Sepolia Test v2.1',
-                        poolTokenName: 'Bulla TCS Factoring Pool',
-                        poolTokenSymbol: 'BFT-TCS',
-                        underwriter: '0x5d72984B2e1170EAA0DA4BC22B25C87729C5EBB3',
-                        factoringPermissionsAddress: '0x996e2beFD170CeB741b0072AE97E524Bdf410E9e',
-                        depositPermissionsAddress: '0xB39bF6Fcd9bd97F7616FAD7b6118Fc2E911eA1d8',
-                        redeemPermissionsAddress: '0xB39bF6Fcd9bd97F7616FAD7b6118Fc2E911eA1d8',
-                        bullaFactoringAddress: '0xbc1dd527c3CF1302Cb189CaB9683Ef5CF27F0308',
-                        writeNewAddresses: true,
-                    };
-                case 'fundora':
-                    return {
-                        underlyingAsset: '0x94a9D9AC8a22534E3FaCa9F4e7F2E2cf85d5E4C8', // USDC
-                        poolDisplayName: 'Test Pool V2.1',
-                        poolTokenName: 'Test Token V2.1',
-                        poolTokenSymbol: 'BFT-V2_1',
-                        underwriter: '0x5d72984B2e1170EAA0DA4BC22B25C87729C5EBB3',
-                        depositPermissionsAddress: '0x764E845528e177aF40D508F46E948d5440AaC13D',
-                        redeemPermissionsAddress: '0x764E845528e177aF40D508F46E948d5440AaC13D',
-                        factoringPermissionsAddress: '0x523e35a7A0c2f2e48E32bb6363090BB436Ac433F',
-                        bullaFactoringAddress: '0x8ce8Fe0C4aDf44469f138A8389bDA91cC721A515',
-                        writeNewAddresses: true,
-                    };
-                default:
-                    return undefined;
-            }
-
-        case 'polygon':
-            switch (pool) {
-                case 'tcs':
-                    return {
-                        underlyingAsset: '0x3c499c542cef5e3811e1192ce70d8cc03d5c3359', // Polygon USDC
-                        poolDisplayName: 'Bulla TCS Factoring Pool - Polygon V2',
-                        poolTokenName: 'Bulla TCS Factoring Pool Token',
-                        poolTokenSymbol: 'BFT-TCS',
-                        underwriter: '0x5d72984B2e1170EAA0DA4BC22B25C87729C5EBB3',
-                        factoringPermissionsAddress: '0x72c1cD1C6A7132e58b334E269Ec5bE1adC1030d4',
-                        depositPermissionsAddress: '0xBB56c6E4e0812de05bf870941676F6467D964d5e',
-                        redeemPermissionsAddress: '0x0000000000000000000000000000000000000000',
-                        bullaFactoringAddress: '0xA7033191Eb07DC6205015075B204Ba0544bc460d',
-                        writeNewAddresses: true,
-                    };
-                default:
-                    return undefined;
-            }
-
-        case 'mainnet':
-            switch (pool) {
-                case 'tcs':
-                    return {
-                        underlyingAsset: '0x6c3ea9036406852006290770BEdFcAbA0e23A0e8', // Mainnet PyUSD
-                        poolDisplayName: 'TCS Settlement Pool - Mainnet V2.1',
-                        poolTokenName: 'TCS Settlement Pool Token V2.1',
-                        poolTokenSymbol: 'BFT-TCS-V2_1',
-                        underwriter: '0x5d72984B2e1170EAA0DA4BC22B25C87729C5EBB3',
-                        factoringPermissionsAddress: '0x1c534661326b41c8b8aab5631ECED6D9755ff192',
-                        depositPermissionsAddress: '0xeB0f09EEF3DCc3f35f605dAefa474e6caab96CD6',
-                        redeemPermissionsAddress: '0xeB0f09EEF3DCc3f35f605dAefa474e6caab96CD6',
-                        bullaFactoringAddress: '0x1a34dfd1ee17130228452f3d9cdda5908865d22d',
-                        writeNewAddresses: true,
-                    };
-                default:
-                    return undefined;
-            }
-
-        case 'base':
-            switch (pool) {
-                case 'tcs':
-                    return {
-                        underlyingAsset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', // USDC
-                        poolDisplayName: 'TCS Settlement Pool V2',
-                        poolTokenName: 'TCS Settlement Pool Token V2',
-                        poolTokenSymbol: 'BFT-TCS-V2',
-                        underwriter: '0x5d72984B2e1170EAA0DA4BC22B25C87729C5EBB3',
-                        depositPermissionsAddress: '0xFCD0440E253A00FD938ce4a67fC3680aD2D685cf',
-                        redeemPermissionsAddress: '0xFCD0440E253A00FD938ce4a67fC3680aD2D685cf',
-                        factoringPermissionsAddress: '0x0313433613F24c73efc15c5c74408F40B462fd9e',
-                        bullaFactoringAddress: '0xc65abf8aba06510f777be4ba2c29da4d93257d42',
-                        writeNewAddresses: true,
-                    };
-                default:
-                    return undefined;
-            }
-
-        case 'arbitrum':
-            switch (pool) {
-                case 'tcs':
-                    return {
-                        underlyingAsset: '0x46850aD61C2B7d64d08c9C754F45254596696984', // pyUSD
-                        poolDisplayName: 'TCS Settlement Pool - Arbitrum V2.1',
-                        poolTokenName: 'TCS Settlement Pool Token V2.1',
-                        poolTokenSymbol: 'BFT-TCS-V2_1',
-                        underwriter: '0x5d72984B2e1170EAA0DA4BC22B25C87729C5EBB3',
-                        factoringPermissionsAddress: '0x3204562dbb6465193525e0da1e5e016643b2b117',
-                        depositPermissionsAddress: '0xb842d5c5200841ef153100cc4d9fcac47620dd0a',
-                        redeemPermissionsAddress: '0xb842d5c5200841ef153100cc4d9fcac47620dd0a',
-                        bullaFactoringAddress: '0x30fbdae8d1a2946ca00137eaf3de9b512d1ee859',
-                        writeNewAddresses: true,
-                    };
-                default:
-                    return undefined;
-            }
-
-        default:
-            return undefined;
-    }
+    return readRegistry().networks[network]?.pools[pool];
 }
 
 // ============================================================================
@@ -256,8 +165,8 @@ function getDeploymentConfig(network: string, pool: PoolName): DeployedPoolConfi
 
 /**
  * Get full configuration for a network and pool combination
- * @param network - Network name (sepolia, polygon, mainnet, base)
- * @param pool - Pool name (tcs, taram, fundora). Defaults to 'tcs'
+ * @param network - Network name (sepolia, polygon, mainnet, base, arbitrum)
+ * @param pool - Pool name as listed in config/deployments.json. Defaults to 'tcs'
  * @throws Error if network is unsupported, pool doesn't exist, or pool is not deployed on the network
  */
 export function getConfig(network: string, pool: PoolName = 'tcs'): FullConfig {
@@ -265,11 +174,13 @@ export function getConfig(network: string, pool: PoolName = 'tcs'): FullConfig {
         throw new Error('Network parameter is required');
     }
 
+    const networkConfigs = getNetworkConfigs();
     const networkConfig = networkConfigs[network];
     if (!networkConfig) {
         throw new Error(`Unsupported network: ${network}. Available: ${Object.keys(networkConfigs).join(', ')}`);
     }
 
+    const poolConfigs = getPoolConfigs();
     const poolConfig = poolConfigs[pool];
     if (!poolConfig) {
         throw new Error(`Unsupported pool: ${pool}. Available: ${Object.keys(poolConfigs).join(', ')}`);
@@ -301,64 +212,32 @@ export function getNetworkConfig(network: string): FullConfig {
 // Utility Functions
 // ============================================================================
 
+/**
+ * First configured RPC endpoint, without a health check
+ * Prefer resolveRpcUrl() from utils/rpc.ts, which fails over to the next endpoint when one is down.
+ */
 export function getRpcUrl(network: string): string {
-    switch (network) {
-        case 'sepolia':
-            return `https://rpc.ankr.com/eth_sepolia/ba1559bd45627ea35b516452751976567e0fd8864450470f207b8d01cbc3f4dc`;
-        case 'polygon':
-            return 'https://rpc.ankr.com/polygon/ba1559bd45627ea35b516452751976567e0fd8864450470f207b8d01cbc3f4dc';
-        case 'mainnet':
-            return `https://go.getblock.io/${process.env.MAINNET_GETBLOCK_API_KEY}`;
-        case 'base':
-            return 'https://rpc.ankr.com/base/ba1559bd45627ea35b516452751976567e0fd8864450470f207b8d01cbc3f4dc';
-        case 'arbitrum':
-            return 'https://rpc.ankr.com/arbitrum/ba1559bd45627ea35b516452751976567e0fd8864450470f207b8d01cbc3f4dc';
-        default:
-            throw new Error(`Unsupported network: ${network}`);
-    }
+    return getRpcUrls(network)[0];
 }
 
 export function getEtherscanApiKey(network: string): string {
-    switch (network) {
-        case 'sepolia':
-        case 'base':
-        case 'mainnet':
-            return process.env.ETHERSCAN_API_KEY!;
-        case 'polygon':
-            return process.env.POLYGONSCAN_API_KEY!;
-        case 'arbitrum':
-            return process.env.ARBISCAN_API_KEY!;
-        default:
-            throw new Error(`No Etherscan API key configured for network: ${network}`);
-    }
+    return getExplorerApiKey(network);
 }
 
 export function getChainId(network: string): number {
-    switch (network) {
-        case 'sepolia':
-            return 11155111;
-        case 'polygon':
-            return 137;
-        case 'mainnet':
-            return 1;
-        case 'base':
-            return 8453;
-        case 'arbitrum':
-            return 42161;
-        default:
-            throw new Error(`Unknown chain ID for network: ${network}`);
-    }
+    return getNetworkMetadata(network).chainId;
 }
 
 export function getAvailablePools(network: string): PoolName[] {
-    return allPools.filter(pool => getDeploymentConfig(network, pool) !== undefined);
+    return Object.keys(readRegistry().networks[network]?.pools ?? {});
 }
 
 export function getAvailableNetworks(): string[] {
-    return Object.keys(networkConfigs);
+    return Object.keys(getNetworkConfigs());
 }
 
 export function getPoolConfig(pool: PoolName): PoolConfig {
+    const poolConfigs = getPoolConfigs();
     const config = poolConfigs[pool];
     if (!config) {
         throw new Error(`Unsupported pool: ${pool}. Available: ${Object.keys(poolConfigs).join(', ')}`);
@@ -367,6 +246,7 @@ export function getPoolConfig(pool: PoolName): PoolConfig {
 }
 
 export function getNetworkOnlyConfig(network: string): NetworkConfig {
+    const networkConfigs = getNetworkConfigs();
     const config = networkConfigs[network];
     if (!config) {
         throw new Error(`Unsupported network: ${network}. Available: ${Object.keys(networkConfigs).join(', ')}`);
@@ -0,0 +1,256 @@
+import { Contract, providers, Wallet } from 'ethers';
+import { FullConfig, getConfig, PoolName } from './network-config';
+import { getArgValue, getInput, hasFlag, InputError } from './utils/cli';
+import { ForgeWorkflowOptions } from './utils/dry-run';
+import { getPrivateKeyInteractively, setupGracefulExit } from './utils/interactive-deploy';
+import { getNetworkAndPoolInteractive } from './utils/interactive-prompt';
+import { getNetworkMetadata } from './utils/networks';
+import { getProvider, resolveRpcUrl } from './utils/rpc';
+import { isProposeMode, resolveSafeAddress, writeSafeBatches } from './utils/safe-batch';
+import { runScript } from './utils/script-runner';
+
+// Reads and configures a pool's redemption queue, the contract its BullaFactoring returns from getRedemptionQueue().
+// setMaxQueueSize is owner-only on the queue, which the pool deployer owns, so it can also be proposed to a Safe.
+
+const SET_MAX_QUEUE_SIZE = 'function setMaxQueueSize(uint256 _maxQueueSize)';
+
+const BULLA_FACTORING_ABI = ['function getRedemptionQueue() view returns (address)'];
+
+const REDEMPTION_QUEUE_ABI = [
+    'function owner() view returns (address)',
+    'function factoringContract() view returns (address)',
+    'function maxQueueSize() view returns (uint256)',
+    'function getQueueLength() view returns (uint256)',
+    'function getQueueStats() view returns (uint256 queueLength, uint256 totalShares, uint256 totalAssets)',
+    'function getNextRedemption() view returns (tuple(address owner, address receiver, uint256 shares, uint256 assets))',
+    SET_MAX_QUEUE_SIZE,
+];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type QueuedRedemption = {
+    owner: string;
+    receiver: string;
+    /** Shares to redeem, 0 for an asset-based withdrawal */
+    shares: string;
+    /** Assets to withdraw, 0 for a share-based redemption */
+    assets: string;
+};
+
+export type QueueStats = {
+    network: string;
+    pool: PoolName;
+    bullaFactoringAddress: string;
+    redemptionQueue: string;
+    owner: string;
+    factoringContract: string;
+    maxQueueSize: number;
+    /** Active redemptions, which count against maxQueueSize */
+    activeRedemptions: number;
+    /** Entries from the head of the queue on, including cancelled ones not yet compacted */
+    entries: number;
+    totalShares: string;
+    totalAssets: string;
+    /** Redemption processed next, undefined when the queue is empty */
+    nextRedemption?: QueuedRedemption;
+};
+
+// ============================================================================
+// Queue Stats
+// ============================================================================
+
+/**
+ * @throws Error if the config has no bullaFactoringAddress
+ */
+async function getRedemptionQueue(provider: providers.Provider, config: FullConfig): Promise<string> {
+    if (!config.bullaFactoringAddress) {
+        throw new Error(`BullaFactoring address not found for ${config.network}/${config.poolName}. Please deploy BullaFactoring first.`);
+    }
+    return new Contract(config.bullaFactoringAddress, BULLA_FACTORING_ABI, provider).getRedemptionQueue();
+}
+
+/**
+ * Read a pool's redemption queue: its owner, size limit and what is queued
+ * Takes the provider as a parameter so it can run against any node, including a local Hardhat node.
+ * @throws Error if the config has no bullaFactoringAddress or the queue cannot be read
+ */
+export async function readQueueStats(provider: providers.Provider, config: FullConfig): Promise<QueueStats> {
+    const redemptionQueue = await getRedemptionQueue(provider, config);
+    const queue = new Contract(redemptionQueue, REDEMPTION_QUEUE_ABI, provider);
+
+    const [owner, factoringContract, maxQueueSize, activeRedemptions, stats, next] = await Promise.all([
+        queue.owner(),
+        queue.factoringContract(),
+        queue.maxQueueSize(),
+        queue.getQueueLength(),
+        queue.getQueueStats(),
+        queue.getNextRedemption(),
+    ]);
+
+    return {
+        network: config.network,
+        pool: config.poolName,
+        bullaFactoringAddress: config.bullaFactoringAddress!,
+        redemptionQueue,
+        owner,
+        factoringContract,
+        maxQueueSize: maxQueueSize.toNumber(),
+        activeRedemptions: activeRedemptions.toNumber(),
+        entries: stats.queueLength.toNumber(),
+        totalShares: stats.totalShares.toString(),
+        totalAssets: stats.totalAssets.toString(),
+        // An empty queue returns a zero redemption rather than reverting
+        nextRedemption: stats.queueLength.isZero()
+            ? undefined
+            : { owner: next.owner, receiver: next.receiver, shares: next.shares.toString(), assets: next.assets.toString() },
+    };
+}
+
+/**
+ * Print queue stats as a table
+ */
+export function printQueueStats(stats: QueueStats): void {
+    console.log(`\n📋 ${stats.network}/${stats.pool} redemption queue (${stats.redemptionQueue})`);
+    console.log(`   Owner:               ${stats.owner}`);
+    console.log(`   Factoring contract:  ${stats.factoringContract}`);
+    console.log(`   Active redemptions:  ${stats.activeRedemptions} of ${stats.maxQueueSize}`);
+    console.log(`   Entries:             ${stats.entries} (including cancelled ones not yet compacted)`);
+    console.log(`   Queued shares:       ${stats.totalShares}`);
+    console.log(`   Queued assets:       ${stats.totalAssets}`);
+    if (stats.nextRedemption) {
+        const { owner, shares, assets } = stats.nextRedemption;
+        console.log(`   Next redemption:     ${owner} (${shares !== '0' ? `${shares} shares` : `${assets} assets`})`);
+    }
+
+    if (stats.factoringContract.toLowerCase() !== stats.bullaFactoringAddress.toLowerCase()) {
+        console.log(`\n⚠️  The queue points at ${stats.factoringContract}, not the pool ${stats.bullaFactoringAddress}`);
+    }
+}
+
+// ============================================================================
+// Max Queue Size
+// ============================================================================
+
+/**
+ * Read the size from --max-queue-size or MAX_QUEUE_SIZE, falling back to operationalParams.maxQueueSize
+ * @throws InputError if no size is given or it is not a positive integer
+ */
+function getMaxQueueSize(config: FullConfig): number {
+    const input = getInput('--max-queue-size', 'MAX_QUEUE_SIZE') ?? config.operationalParams?.maxQueueSize?.toString();
+    if (input === undefined) {
+        throw new InputError(
+            `Missing max queue size: use --max-queue-size <n>, MAX_QUEUE_SIZE=<n> or operationalParams.maxQueueSize for ${config.network}/${config.poolName}`,
+        );
+    }
+
+    const maxQueueSize = Number(input);
+    if (!Number.isSafeInteger(maxQueueSize) || maxQueueSize <= 0) {
+        throw new InputError(`Invalid max queue size: ${input}`);
+    }
+    return maxQueueSize;
+}
+
+/**
+ * Set max queue size workflow (can be called with parameters or standalone)
+ * With `propose` the call is written as a Safe batch for the queue owner instead of sent.
+ * @returns Hashes of the transactions sent
+ */
+export async function setMaxQueueSizeWorkflow(
+    network: string,
+    pool: PoolName,
+    privateKey: string,
+    maxQueueSize: number,
+    options?: ForgeWorkflowOptions,
+): Promise<string[]> {
+    console.log(`📏 Checking the redemption queue size of ${network}/${pool}...\n`);
+
+    const config = getConfig(network, pool);
+    const rpcUrl = await resolveRpcUrl(network);
+    const provider = new providers.StaticJsonRpcProvider(rpcUrl, getNetworkMetadata(network).chainId);
+    const redemptionQueue = await getRedemptionQueue(provider, config);
+    const current = (await new Contract(redemptionQueue, REDEMPTION_QUEUE_ABI, provider).maxQueueSize()).toNumber();
+
+    if (current === maxQueueSize) {
+        console.log(`✅ maxQueueSize is already ${maxQueueSize}, nothing to send`);
+        return [];
+    }
+    console.log(`📋 maxQueueSize: ${current} → ${maxQueueSize}`);
+
+    if (options?.propose) {
+        writeSafeBatches(network, `set-max-queue-size-${pool}`, `Set the ${pool} pool's max redemption queue size to ${maxQueueSize}`, [
+            {
+                safe: await resolveSafeAddress(provider, redemptionQueue),
+                to: redemptionQueue,
+                contractLabel: `RedemptionQueue (${pool})`,
+                signature: SET_MAX_QUEUE_SIZE,
+                args: [maxQueueSize],
+            },
+        ]);
+        return [];
+    }
+
+    if (options?.dryRun) {
+        console.log('\n🧪 Dry run: nothing was sent');
+        return [];
+    }
+
+    const queue = new Contract(redemptionQueue, REDEMPTION_QUEUE_ABI, new Wallet(privateKey, provider));
+    const tx = await queue.setMaxQueueSize(maxQueueSize);
+    console.log(`\n   ⏳ ${tx.hash}`);
+    await tx.wait();
+
+    console.log('\n✅ Max queue size updated successfully!');
+    return [tx.hash];
+}
+
+// ============================================================================
+// Launchers
+// ============================================================================
+
+/**
+ * Launcher: Get network and pool interactively, then print the queue stats
+ * Options: --json for a ScriptResult with the stats in `details.stats`, --rpc-url to point at a specific node (e.g. a local Hardhat node).
+ */
+export async function queueStatsLauncher(): Promise<void> {
+    await runScript('queue-stats', async context => {
+        const { network, pool } = await getNetworkAndPoolInteractive();
+        context.network = network;
+        context.pool = pool;
+
+        const rpcUrlOverride = getArgValue('--rpc-url');
+        const provider = rpcUrlOverride ? new providers.StaticJsonRpcProvider(rpcUrlOverride) : await getProvider(network);
+        const stats = await readQueueStats(provider, getConfig(network, pool));
+        context.details.stats = stats;
+        printQueueStats(stats);
+    });
+}
+
+/**
+ * Launcher: Get network, pool, and private key interactively, then run the set max queue size workflow
+ */
+export async function setMaxQueueSizeLauncher(): Promise<void> {
+    await runScript('set-max-queue-size', async context => {
+        const { network, pool } = await getNetworkAndPoolInteractive();
+        context.network = network;
+        context.pool = pool;
+
+        const maxQueueSize = getMaxQueueSize(getConfig(network, pool));
+        // Proposals are signed in the Safe, so no key is needed
+        const options: ForgeWorkflowOptions = { dryRun: hasFlag('--dry-run'), propose: isProposeMode() };
+        const privateKey = options.propose || options.dryRun ? '' : await getPrivateKeyInteractively();
+
+        context.txHashes.push(...(await setMaxQueueSizeWorkflow(network, pool, privateKey, maxQueueSize, options)));
+    });
+}
+
+// Only run a launcher if this script is run directly: `stats` (the default) or `set-max-size`
+if (require.main === module) {
+    setupGracefulExit();
+    if (process.argv.includes('set-max-size')) {
+        setMaxQueueSizeLauncher();
+    } else {
+        queueStatsLauncher();
+    }
+}
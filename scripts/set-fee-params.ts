@@ -0,0 +1,195 @@
+import { Contract, providers, Wallet } from 'ethers';
+import { FullConfig, getConfig, getInsuranceParamsErrors, PoolName } from './network-config';
+import { hasFlag, InputError } from './utils/cli';
+import { ForgeWorkflowOptions } from './utils/dry-run';
+import { getPrivateKeyInteractively, setupGracefulExit } from './utils/interactive-deploy';
+import { getNetworkAndPoolInteractive } from './utils/interactive-prompt';
+import { getNetworkMetadata } from './utils/networks';
+import { resolveRpcUrl } from './utils/rpc';
+import { isProposeMode, resolveSafeAddress, SafeCall, SafeRole, writeSafeBatches } from './utils/safe-batch';
+import { runScript } from './utils/script-runner';
+
+// Brings a pool's insurance parameters and protocol fee in line with config.
+// setInsuranceParams is owner-only and setProtocolFeeBps is bullaDao-only, so both are usually proposed to a Safe.
+
+const SET_PROTOCOL_FEE = 'function setProtocolFeeBps(uint16 _newProtocolFeeBps)';
+const SET_INSURANCE_PARAMS =
+    'function setInsuranceParams(uint16 _insuranceFeeBps, uint16 _impairmentGrossGainBps, uint16 _recoveryProfitRatioBps)';
+
+const BULLA_FACTORING_ABI = [
+    'function protocolFeeBps() view returns (uint16)',
+    'function insuranceFeeBps() view returns (uint16)',
+    'function impairmentGrossGainBps() view returns (uint16)',
+    'function recoveryProfitRatioBps() view returns (uint16)',
+    SET_PROTOCOL_FEE,
+    SET_INSURANCE_PARAMS,
+];
+
+/** A fee parameter whose on-chain value differs from config */
+export type FeeChange = {
+    param: 'protocolFeeBps' | 'insuranceFeeBps' | 'impairmentGrossGainBps' | 'recoveryProfitRatioBps';
+    current: number;
+    target: number;
+};
+
+/**
+ * Compare the configured fee parameters with the chain
+ * @returns Only the parameters that differ
+ * @throws Error if a parameter cannot be read, e.g. insurance parameters on a pool older than V2_2
+ */
+export async function planFeeChanges(provider: providers.Provider, config: FullConfig): Promise<FeeChange[]> {
+    if (!config.bullaFactoringAddress) {
+        throw new Error(`BullaFactoring address not found for ${config.network}/${config.poolName}. Please deploy BullaFactoring first.`);
+    }
+
+    const pool = new Contract(config.bullaFactoringAddress, BULLA_FACTORING_ABI, provider);
+    const changes: FeeChange[] = [];
+
+    for (const param of ['protocolFeeBps', 'insuranceFeeBps', 'impairmentGrossGainBps', 'recoveryProfitRatioBps'] as const) {
+        let current: number;
+        try {
+            current = Number(await pool[param]());
+        } catch {
+            throw new Error(
+                `${param} could not be read from BullaFactoring at ${config.bullaFactoringAddress} (insurance parameters need V2_2)`,
+            );
+        }
+
+        if (current !== config[param]) {
+            changes.push({ param, current, target: config[param] });
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * Turn fee changes into calls: setInsuranceParams for the pool owner, setProtocolFeeBps for bullaDao
+ * setInsuranceParams sets all three insurance parameters, so it is sent once with the configured values.
+ */
+export function toFeeCalls(config: FullConfig, changes: FeeChange[]): Omit<SafeCall, 'safe'>[] {
+    const to = config.bullaFactoringAddress!;
+    const contractLabel = `BullaFactoring (${config.poolName})`;
+    const calls: Omit<SafeCall, 'safe'>[] = [];
+
+    if (changes.some(change => change.param !== 'protocolFeeBps')) {
+        calls.push({
+            to,
+            contractLabel,
+            signature: SET_INSURANCE_PARAMS,
+            args: [config.insuranceFeeBps, config.impairmentGrossGainBps, config.recoveryProfitRatioBps],
+        });
+    }
+    if (changes.some(change => change.param === 'protocolFeeBps')) {
+        calls.push({ to, contractLabel, signature: SET_PROTOCOL_FEE, args: [config.protocolFeeBps] });
+    }
+
+    return calls;
+}
+
+/**
+ * Account that must send a fee call: setProtocolFeeBps is bullaDao-only, setInsuranceParams owner-only
+ */
+function getFeeCallRole(call: Omit<SafeCall, 'safe'>): SafeRole {
+    return call.signature === SET_PROTOCOL_FEE ? 'bullaDao' : 'owner';
+}
+
+/**
+ * Set fee params workflow (can be called with parameters or standalone)
+ * With `propose` the calls are written as Safe batches instead of sent, one for the owner's calls and one for bullaDao's.
+ * @throws InputError if the configured insurance parameters are out of range
+ */
+export async function setFeeParamsWorkflow(
+    network: string,
+    pool: PoolName,
+    privateKey: string,
+    options?: ForgeWorkflowOptions,
+): Promise<string[]> {
+    console.log(`💸 Checking fee parameters on ${network}/${pool}...\n`);
+
+    const config = getConfig(network, pool);
+
+    // setInsuranceParams reverts on out-of-range values, so reject them before anything is sent or proposed
+    const insuranceErrors = getInsuranceParamsErrors(config);
+    if (insuranceErrors.length > 0) {
+        throw new InputError(`Invalid insurance parameters for ${network}/${pool}:\n   ${insuranceErrors.join('\n   ')}`);
+    }
+
+    const rpcUrl = await resolveRpcUrl(network);
+    const provider = new providers.StaticJsonRpcProvider(rpcUrl, getNetworkMetadata(network).chainId);
+    const changes = await planFeeChanges(provider, config);
+
+    if (changes.length === 0) {
+        console.log('✅ All fee parameters already match config, nothing to send');
+        return [];
+    }
+
+    console.log('📋 Fee Changes:');
+    changes.forEach(change => console.log(`   ${change.param}: ${change.current} → ${change.target}`));
+
+    const calls = toFeeCalls(config, changes);
+    const bullaFactoringAddress = config.bullaFactoringAddress!;
+
+    if (options?.propose) {
+        // One batch per role, so owner and bullaDao calls stay apart even when they resolve to the same Safe
+        for (const role of ['owner', 'bullaDao'] as const) {
+            const safeCalls: SafeCall[] = [];
+            for (const call of calls.filter(call => getFeeCallRole(call) === role)) {
+                safeCalls.push({ ...call, safe: await resolveSafeAddress(provider, bullaFactoringAddress, role) });
+            }
+            if (safeCalls.length > 0) {
+                writeSafeBatches(
+                    network,
+                    `set-fee-params-${pool}-${role}`,
+                    `Bring the ${pool} pool's ${role === 'owner' ? 'insurance parameters' : 'protocol fee'} in line with config`,
+                    safeCalls,
+                );
+            }
+        }
+        return [];
+    }
+
+    if (options?.dryRun) {
+        console.log('\n🧪 Dry run: nothing was sent');
+        return [];
+    }
+
+    const signer = new Wallet(privateKey, provider);
+    const factoring = new Contract(bullaFactoringAddress, BULLA_FACTORING_ABI, signer);
+    const txHashes: string[] = [];
+
+    console.log(`\n📡 Sending ${calls.length} transaction(s) on ${network}...\n`);
+    for (const call of calls) {
+        const method = call.signature === SET_PROTOCOL_FEE ? 'setProtocolFeeBps' : 'setInsuranceParams';
+        const tx = await factoring[method](...call.args);
+        txHashes.push(tx.hash);
+        console.log(`   ⏳ ${tx.hash}`);
+        await tx.wait();
+    }
+
+    console.log('\n✅ Fee parameters updated successfully!');
+    return txHashes;
+}
+
+/**
+ * Launcher: Get network, pool, and private key interactively, then run workflow
+ */
+export async function setFeeParamsLauncher(): Promise<void> {
+    await runScript('set-fee-params', async context => {
+        const { network, pool } = await getNetworkAndPoolInteractive();
+        context.network = network;
+        context.pool = pool;
+
+        // Proposals are signed in the Safe, so no key is needed
+        const options: ForgeWorkflowOptions = { dryRun: hasFlag('--dry-run'), propose: isProposeMode() };
+        const privateKey = options.propose || options.dryRun ? '' : await getPrivateKeyInteractively();
+
+        context.txHashes.push(...(await setFeeParamsWorkflow(network, pool, privateKey, options)));
+    });
+}
+
+// Only run launcher if this script is run directly
+if (require.main === module) {
+    setupGracefulExit();
+    setFeeParamsLauncher();
+}
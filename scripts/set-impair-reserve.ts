@@ -1,13 +1,37 @@
+import { BigNumber, Contract, providers } from 'ethers';
 import * as readline from 'readline';
-import { getConfig, getRpcUrl } from './network-config';
+import { getConfig } from './network-config';
+import { assertCanPrompt, getInput, hasFlag, InputError, isJsonOutput } from './utils/cli';
+import { dryRunForgeScript } from './utils/dry-run';
 import { getPrivateKeyInteractively, runForgeScript, setupGracefulExit } from './utils/interactive-deploy';
 import { getNetworkAndPoolInteractive } from './utils/interactive-prompt';
+import { getNetworkMetadata } from './utils/networks';
+import { resolveRpcUrl } from './utils/rpc';
+import { runScript } from './utils/script-runner';
+import { isProposeMode, resolveSafeAddress, SafeCall, writeSafeBatches } from './utils/safe-batch';
 import { verifyBroadcastContracts } from './utils/verify-forge';
 
+/**
+ * Read the amount from --amount or IMPAIR_RESERVE_AMOUNT, prompting when neither is set
+ */
+async function getImpairReserveAmount(defaultAmount: number): Promise<number> {
+    const input = getInput('--amount', 'IMPAIR_RESERVE_AMOUNT');
+    if (input !== undefined) {
+        const amount = Number(input);
+        if (!Number.isSafeInteger(amount) || amount < 0) {
+            throw new InputError(`Invalid impair reserve amount: ${input}`);
+        }
+        return amount;
+    }
+
+    assertCanPrompt('impair reserve amount', ['--amount <amount>', 'IMPAIR_RESERVE_AMOUNT=<amount>']);
+    return promptForAmount(defaultAmount);
+}
+
 async function promptForAmount(defaultAmount: number): Promise<number> {
     const rl = readline.createInterface({
         input: process.stdin,
-        output: process.stdout,
+        output: isJsonOutput() ? process.stderr : process.stdout,
     });
 
     return new Promise(resolve => {
@@ -29,10 +53,53 @@ async function promptForAmount(defaultAmount: number): Promise<number> {
     });
 }
 
-async function setImpairReserve(): Promise<void> {
-    try {
+/**
+ * Write the approve + setImpairReserve calls SetImpairReserve.s.sol makes as a batch for the pool owner Safe
+ */
+async function proposeImpairReserve(
+    provider: providers.Provider,
+    network: string,
+    bullaFactoringAddress: string,
+    pool: string,
+    impairReserveAmount: number,
+): Promise<void> {
+    const factoring = new Contract(
+        bullaFactoringAddress,
+        ['function assetAddress() view returns (address)', 'function impairReserve() view returns (uint256)'],
+        provider,
+    );
+    const safe = await resolveSafeAddress(provider, bullaFactoringAddress);
+    const currentImpairReserve: BigNumber = await factoring.impairReserve();
+    const amountToAdd = BigNumber.from(impairReserveAmount).sub(currentImpairReserve);
+    const calls: SafeCall[] = [];
+
+    // Raising the reserve pulls the difference from the Safe
+    if (amountToAdd.gt(0)) {
+        calls.push({
+            to: await factoring.assetAddress(),
+            contractLabel: 'Asset',
+            signature: 'function approve(address spender, uint256 amount)',
+            args: [bullaFactoringAddress, amountToAdd.toString()],
+            safe,
+        });
+    }
+    calls.push({
+        to: bullaFactoringAddress,
+        contractLabel: `BullaFactoring (${pool})`,
+        signature: 'function setImpairReserve(uint256 _impairReserve)',
+        args: [impairReserveAmount],
+        safe,
+    });
+
+    writeSafeBatches(network, `set-impair-reserve-${pool}`, `Set the ${pool} pool's impair reserve to ${impairReserveAmount}`, calls);
+}
+
+export async function setImpairReserve(): Promise<void> {
+    await runScript('set-impair-reserve', async context => {
         // Get network and pool interactively
         const { network, pool } = await getNetworkAndPoolInteractive();
+        context.network = network;
+        context.pool = pool;
 
         console.log(`🔧 Setting impair reserve on ${network}/${pool}...\n`);
 
@@ -50,19 +117,27 @@ async function setImpairReserve(): Promise<void> {
         console.log(`   Pool Display Name: ${config.poolDisplayName}`);
         console.log(`   BullaFactoring: ${config.bullaFactoringAddress || 'Not deployed'}`);
 
-        // Prompt for impair reserve amount
+        // Get impair reserve amount from flags/env or prompt
         const defaultAmount = 5000;
-        const impairReserveAmount = await promptForAmount(defaultAmount);
+        const impairReserveAmount = await getImpairReserveAmount(defaultAmount);
+        context.details.impairReserve = impairReserveAmount;
 
         console.log(`\n💰 Setting impair reserve to: ${impairReserveAmount}`);
 
+        if (isProposeMode()) {
+            const rpcUrl = await resolveRpcUrl(network);
+            const provider = new providers.StaticJsonRpcProvider(rpcUrl, getNetworkMetadata(network).chainId);
+            await proposeImpairReserve(provider, network, config.bullaFactoringAddress, pool, impairReserveAmount);
+            return;
+        }
+
         // Get private key interactively
         const formattedPrivateKey = await getPrivateKeyInteractively();
 
         console.log(`\n📡 Starting impair reserve update on ${network}...\n`);
 
         // Get RPC URL using shared config
-        const rpcUrl = getRpcUrl(network);
+        const rpcUrl = await resolveRpcUrl(network);
 
         // Set environment variables for the forge script
         const env: NodeJS.ProcessEnv = {
@@ -74,45 +149,58 @@ async function setImpairReserve(): Promise<void> {
             IMPAIR_RESERVE_AMOUNT: impairReserveAmount.toString(),
         };
 
-        // Run forge script
-        const forgeProcess = runForgeScript('script/SetImpairReserve.s.sol:SetImpairReserve', rpcUrl, formattedPrivateKey, env, network);
-
-        // Handle forge process events
-        forgeProcess.on('close', async code => {
-            if (code === 0) {
-                console.log('\n✅ Impair reserve set successfully!');
-                console.log(`🎉 Impair reserve is now set to ${impairReserveAmount} on ${network}!`);
-
-                // Verify contracts using broadcast files
-                await verifyBroadcastContracts('SetImpairReserve.s.sol', network, false);
+        if (hasFlag('--dry-run')) {
+            await dryRunForgeScript('script/SetImpairReserve.s.sol:SetImpairReserve', rpcUrl, formattedPrivateKey, env, network);
+            return;
+        }
 
-                console.log('\n📝 Next steps:');
-                console.log('   1. Check broadcast files for transaction details');
-                console.log('   2. Contract interaction has been verified automatically');
-                console.log('   3. Impair reserve is now active on the contract');
-            } else {
-                console.error(`\n❌ Setting impair reserve failed with exit code ${code}`);
-                process.exit(code || 1);
-            }
-        });
+        // Run forge script and wait for completion
+        await new Promise<void>((resolve, reject) => {
+            const forgeProcess = runForgeScript(
+                'script/SetImpairReserve.s.sol:SetImpairReserve',
+                rpcUrl,
+                formattedPrivateKey,
+                env,
+                network,
+            );
+
+            // Handle forge process events
+            forgeProcess.on('close', async code => {
+                try {
+                    if (code === 0) {
+                        console.log('\n✅ Impair reserve set successfully!');
+                        console.log(`🎉 Impair reserve is now set to ${impairReserveAmount} on ${network}!`);
+
+                        // Verify contracts using broadcast files
+                        await verifyBroadcastContracts('SetImpairReserve.s.sol', network, false);
+
+                        console.log('\n📝 Next steps:');
+                        console.log('   1. Check broadcast files for transaction details');
+                        console.log('   2. Contract interaction has been verified automatically');
+                        console.log('   3. Impair reserve is now active on the contract');
+
+                        resolve();
+                    } else {
+                        reject(new Error(`Setting impair reserve failed with exit code ${code}`));
+                    }
+                } catch (error) {
+                    reject(error);
+                }
+            });
 
-        forgeProcess.on('error', error => {
-            if ((error as any).code === 'ENOENT') {
-                console.error('❌ Forge not found. Make sure Foundry is installed and in your PATH.');
-                console.error('   Install from: https://getfoundry.sh/');
-            } else {
-                console.error('❌ Failed to start forge:', error.message);
-            }
-            process.exit(1);
+            forgeProcess.on('error', error => {
+                if ((error as any).code === 'ENOENT') {
+                    reject(new Error('Forge not found. Make sure Foundry is installed and in your PATH.'));
+                } else {
+                    reject(error);
+                }
+            });
         });
-    } catch (error: any) {
-        console.error('❌ Error setting impair reserve:', error.message);
-        process.exit(1);
-    }
+    });
 }
 
-// Setup graceful exit handling
-setupGracefulExit();
-
-// Run the script
-setImpairReserve();
+// Only run launcher if this script is run directly
+if (require.main === module) {
+    setupGracefulExit();
+    setImpairReserve();
+}
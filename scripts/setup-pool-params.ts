@@ -0,0 +1,255 @@
+import { BigNumber, Contract, providers } from 'ethers';
+import { FullConfig, getConfig, OperationalParams, PoolName } from './network-config';
+import { hasFlag } from './utils/cli';
+import { dryRunForgeScript, ForgeWorkflowOptions } from './utils/dry-run';
+import { getPrivateKeyInteractively, runForgeScript, setupGracefulExit } from './utils/interactive-deploy';
+import { getNetworkAndPoolInteractive } from './utils/interactive-prompt';
+import { getNetworkMetadata } from './utils/networks';
+import { resolveRpcUrl } from './utils/rpc';
+import { runScript } from './utils/script-runner';
+import { isProposeMode, resolveSafeAddress, SafeCall, writeSafeBatches } from './utils/safe-batch';
+
+/** A parameter whose on-chain value differs from config */
+export type ParamChange = {
+    param: keyof OperationalParams;
+    /** Environment variable read by SetupPoolParams.s.sol */
+    envVar: string;
+    current: string;
+    target: string;
+};
+
+const BULLA_FACTORING_ABI = [
+    'function gracePeriodDays() view returns (uint256)',
+    'function approvalDuration() view returns (uint256)',
+    'function getRedemptionQueue() view returns (address)',
+    'function impairReserve() view returns (uint256)',
+    'function assetAddress() view returns (address)',
+];
+
+const REDEMPTION_QUEUE_ABI = ['function maxQueueSize() view returns (uint256)'];
+
+const PARAM_READERS: {
+    param: keyof OperationalParams;
+    envVar: string;
+    read: (pool: Contract, provider: providers.Provider) => Promise<BigNumber>;
+}[] = [
+    { param: 'gracePeriodDays', envVar: 'GRACE_PERIOD_DAYS', read: pool => pool.gracePeriodDays() },
+    { param: 'approvalDuration', envVar: 'APPROVAL_DURATION', read: pool => pool.approvalDuration() },
+    {
+        param: 'maxQueueSize',
+        envVar: 'MAX_QUEUE_SIZE',
+        read: async (pool, provider) => new Contract(await pool.getRedemptionQueue(), REDEMPTION_QUEUE_ABI, provider).maxQueueSize(),
+    },
+    { param: 'impairReserve', envVar: 'IMPAIR_RESERVE', read: pool => pool.impairReserve() },
+];
+
+/**
+ * Compare configured operational parameters with the chain
+ * @returns Only the parameters that need a transaction
+ * @throws Error if a configured parameter cannot be read, e.g. impairReserve on a V2 pool
+ */
+export async function planParamChanges(provider: providers.Provider, config: FullConfig): Promise<ParamChange[]> {
+    const params = config.operationalParams || {};
+    if (!config.bullaFactoringAddress) {
+        throw new Error(`BullaFactoring address not found for ${config.network}/${config.poolName}. Please deploy BullaFactoring first.`);
+    }
+
+    const pool = new Contract(config.bullaFactoringAddress, BULLA_FACTORING_ABI, provider);
+    const changes: ParamChange[] = [];
+
+    for (const reader of PARAM_READERS) {
+        const configured = params[reader.param];
+        if (configured === undefined) {
+            continue;
+        }
+
+        let current: BigNumber;
+        try {
+            current = await reader.read(pool, provider);
+        } catch {
+            const hint = reader.param === 'impairReserve' ? ' (only BullaFactoring V1 pools have an impair reserve)' : '';
+            throw new Error(
+                `${reader.param} is configured but could not be read from BullaFactoring at ${config.bullaFactoringAddress}${hint}`,
+            );
+        }
+
+        const target = BigNumber.from(configured);
+        if (!current.eq(target)) {
+            changes.push({ param: reader.param, envVar: reader.envVar, current: current.toString(), target: target.toString() });
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * Turn parameter changes into the calls SetupPoolParams.s.sol would make, for the owner Safe to execute
+ */
+export async function planParamSafeCalls(provider: providers.Provider, config: FullConfig, changes: ParamChange[]): Promise<SafeCall[]> {
+    const factoringAddress = config.bullaFactoringAddress!;
+    const pool = new Contract(factoringAddress, BULLA_FACTORING_ABI, provider);
+    const owner = await resolveSafeAddress(provider, factoringAddress);
+    const label = `BullaFactoring (${config.poolName})`;
+    const calls: SafeCall[] = [];
+
+    for (const change of changes) {
+        switch (change.param) {
+            case 'gracePeriodDays':
+                calls.push({
+                    to: factoringAddress,
+                    contractLabel: label,
+                    signature: 'function setGracePeriodDays(uint256 _days)',
+                    args: [change.target],
+                    safe: owner,
+                });
+                break;
+            case 'approvalDuration':
+                calls.push({
+                    to: factoringAddress,
+                    contractLabel: label,
+                    signature: 'function setApprovalDuration(uint256 _duration)',
+                    args: [change.target],
+                    safe: owner,
+                });
+                break;
+            case 'maxQueueSize': {
+                const queue: string = await pool.getRedemptionQueue();
+                calls.push({
+                    to: queue,
+                    contractLabel: 'RedemptionQueue',
+                    signature: 'function setMaxQueueSize(uint256 _maxQueueSize)',
+                    args: [change.target],
+                    safe: await resolveSafeAddress(provider, queue),
+                });
+                break;
+            }
+            case 'impairReserve': {
+                // Raising the reserve pulls the difference from the Safe
+                const increase = BigNumber.from(change.target).sub(change.current);
+                if (increase.gt(0)) {
+                    calls.push({
+                        to: await pool.assetAddress(),
+                        contractLabel: 'Asset',
+                        signature: 'function approve(address spender, uint256 amount)',
+                        args: [factoringAddress, increase.toString()],
+                        safe: owner,
+                    });
+                }
+                calls.push({
+                    to: factoringAddress,
+                    contractLabel: label,
+                    signature: 'function setImpairReserve(uint256 _impairReserve)',
+                    args: [change.target],
+                    safe: owner,
+                });
+                break;
+            }
+        }
+    }
+
+    return calls;
+}
+
+/**
+ * Setup pool params workflow (can be called with parameters or standalone)
+ * Reads the current on-chain values and sends only the transactions needed to match config.
+ */
+export async function setupPoolParamsWorkflow(
+    network: string,
+    pool: PoolName,
+    privateKey: string,
+    options?: ForgeWorkflowOptions,
+): Promise<void> {
+    console.log(`🔧 Setting up operational parameters on ${network}/${pool}...\n`);
+
+    const config = getConfig(network, pool);
+    if (!config.operationalParams || Object.keys(config.operationalParams).length === 0) {
+        console.log(`ℹ️  No operationalParams configured for ${network}/${pool}, skipping`);
+        return;
+    }
+
+    const rpcUrl = await resolveRpcUrl(network);
+    const provider = new providers.StaticJsonRpcProvider(rpcUrl, getNetworkMetadata(network).chainId);
+    const changes = await planParamChanges(provider, config);
+
+    if (changes.length === 0) {
+        console.log('✅ All operational parameters already match config, nothing to send');
+        return;
+    }
+
+    console.log('📋 Parameter Changes:');
+    changes.forEach(change => console.log(`   ${change.param}: ${change.current} → ${change.target}`));
+
+    if (options?.propose) {
+        const calls = await planParamSafeCalls(provider, config, changes);
+        writeSafeBatches(
+            network,
+            `setup-pool-params-${pool}`,
+            `Bring the ${pool} pool's operational parameters in line with config`,
+            calls,
+        );
+        return;
+    }
+
+    console.log(`\n📡 Sending ${changes.length} update(s) on ${network}...\n`);
+
+    // Only pass the parameters that changed, so the script cannot touch anything else
+    const env: NodeJS.ProcessEnv = {
+        ...process.env,
+        NETWORK: network,
+        PRIVATE_KEY: privateKey,
+        DEPLOY_PK: privateKey,
+        BULLA_FACTORING_ADDRESS: config.bullaFactoringAddress,
+    };
+    PARAM_READERS.forEach(reader => delete env[reader.envVar]);
+    changes.forEach(change => (env[change.envVar] = change.target));
+
+    if (options?.dryRun) {
+        await dryRunForgeScript('script/SetupPoolParams.s.sol:SetupPoolParams', rpcUrl, privateKey, env, network);
+        return;
+    }
+
+    // Run forge script and wait for completion
+    await new Promise<void>((resolve, reject) => {
+        const forgeProcess = runForgeScript('script/SetupPoolParams.s.sol:SetupPoolParams', rpcUrl, privateKey, env, network);
+
+        forgeProcess.on('close', code => {
+            if (code === 0) {
+                console.log('\n✅ Operational parameters updated successfully!');
+                resolve();
+            } else {
+                reject(new Error(`Setting operational parameters failed with exit code ${code}`));
+            }
+        });
+
+        forgeProcess.on('error', error => {
+            if ((error as any).code === 'ENOENT') {
+                reject(new Error('Forge not found. Make sure Foundry is installed and in your PATH.'));
+            } else {
+                reject(error);
+            }
+        });
+    });
+}
+
+/**
+ * Launcher: Get network, pool, and private key interactively, then run workflow
+ */
+export async function setupPoolParamsLauncher(): Promise<void> {
+    await runScript('setup-pool-params', async context => {
+        const { network, pool } = await getNetworkAndPoolInteractive();
+        context.network = network;
+        context.pool = pool;
+        // Proposals are signed in the Safe, so no key is needed
+        const options: ForgeWorkflowOptions = { dryRun: hasFlag('--dry-run'), propose: isProposeMode() };
+        const privateKey = options.propose ? '' : await getPrivateKeyInteractively();
+
+        await setupPoolParamsWorkflow(network, pool, privateKey, options);
+    });
+}
+
+// Only run launcher if this script is run directly
+if (require.main === module) {
+    setupGracefulExit();
+    setupPoolParamsLauncher();
+}
@@ -0,0 +1,277 @@
+import { constants, Contract, providers, utils } from 'ethers';
+import { FullConfig, getConfig, PoolName } from './network-config';
+import { readAllBroadcasts } from './utils/broadcast';
+import { getArgValue } from './utils/cli';
+import { setupGracefulExit } from './utils/interactive-deploy';
+import { getNetworkAndPoolInteractive } from './utils/interactive-prompt';
+import { getProvider } from './utils/rpc';
+import { runScript, ScriptContext } from './utils/script-runner';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** `unverified` means the chain offers no way to check, e.g. BullaClaimV2 has no whitelist getter, or the check is not supported */
+export type SmokeStatus = 'pass' | 'fail' | 'unverified';
+
+export type SmokeCheck = {
+    name: string;
+    status: SmokeStatus;
+    expected?: string;
+    actual?: string;
+    /** Why a check failed or could not be verified, or where a pass came from */
+    detail?: string;
+};
+
+export type SmokeTestReport = {
+    network: string;
+    pool: PoolName;
+    bullaFactoringAddress: string;
+    checks: SmokeCheck[];
+};
+
+const BULLA_FACTORING_ABI = [
+    'function getRedemptionQueue() view returns (address)',
+    'function depositPermissions() view returns (address)',
+    'function redeemPermissions() view returns (address)',
+    'function factoringPermissions() view returns (address)',
+    'function invoiceProviderAdapter() view returns (address)',
+    'function bullaDao() view returns (address)',
+    'function protocolFeeBps() view returns (uint16)',
+];
+
+const REDEMPTION_QUEUE_ABI = ['function factoringContract() view returns (address)'];
+
+const CALLBACKS_WHITELISTED_EVENT = 'event CallbacksWhitelisted(address indexed pool)';
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+function sameAddress(a: string | undefined, b: string | undefined): boolean {
+    return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Compare an on-chain value with the expected one, failing when the call reverts
+ */
+async function checkValue(name: string, expected: string | number | undefined, read: () => Promise<string | number>): Promise<SmokeCheck> {
+    if (expected === undefined) {
+        return { name, status: 'fail', detail: 'not set in config' };
+    }
+
+    let actual: string;
+    try {
+        actual = (await read()).toString();
+    } catch (error) {
+        return { name, status: 'fail', expected: expected.toString(), detail: `could not be read: ${(error as Error).message}` };
+    }
+
+    const matches = actual.toLowerCase() === expected.toString().toLowerCase();
+    return { name, status: matches ? 'pass' : 'fail', expected: expected.toString(), actual };
+}
+
+/**
+ * Look for evidence that reconcileSingleInvoice is whitelisted as a paid callback on BullaClaimV2
+ * BullaClaimV2 has no getter for its whitelist, so this looks for the factory's CallbacksWhitelisted event,
+ * then for a confirmed addToPaidCallbackWhitelist transaction in the WhitelistCallback.s.sol broadcasts.
+ */
+async function checkCallbackWhitelisted(provider: providers.Provider, config: FullConfig): Promise<SmokeCheck> {
+    const name = 'BullaClaimV2 paid callback';
+    const pool = config.bullaFactoringAddress!;
+
+    if (config.bullaFactoringFactoryAddress) {
+        const iface = new utils.Interface([CALLBACKS_WHITELISTED_EVENT]);
+        try {
+            const logs = await provider.getLogs({
+                address: config.bullaFactoringFactoryAddress,
+                topics: iface.encodeFilterTopics(iface.getEvent('CallbacksWhitelisted'), [pool]),
+                fromBlock: 0,
+            });
+            if (logs.length > 0) {
+                return { name, status: 'pass', detail: `CallbacksWhitelisted by the factory in ${logs[0].transactionHash}` };
+            }
+        } catch {
+            // Some providers limit the block range of eth_getLogs; fall back to the broadcast files
+        }
+    }
+
+    const whitelisting = readAllBroadcasts('WhitelistCallback.s.sol', config.network)
+        .flatMap(broadcast => broadcast.transactions || [])
+        .filter(
+            tx =>
+                tx.hash &&
+                tx.function?.startsWith('addToPaidCallbackWhitelist') &&
+                sameAddress(tx.transaction?.to || undefined, config.bullaClaim) &&
+                sameAddress(tx.arguments?.[0], pool),
+        )
+        .pop();
+
+    if (!whitelisting) {
+        return { name, status: 'unverified', detail: 'no whitelisting transaction found; run yarn whitelist-callback' };
+    }
+
+    const receipt = await provider.getTransactionReceipt(whitelisting.hash!);
+    if (!receipt) {
+        return { name, status: 'fail', detail: `whitelisting transaction ${whitelisting.hash} is not on this chain` };
+    }
+    return receipt.status === 1
+        ? { name, status: 'pass', detail: `addToPaidCallbackWhitelist in ${whitelisting.hash}` }
+        : { name, status: 'fail', detail: `whitelisting transaction ${whitelisting.hash} reverted` };
+}
+
+/**
+ * Report the BullaFrendLend callback as unsupported rather than leave it out of the report
+ * WhitelistCallback.s.sol and the factory only whitelist the BullaClaimV2 paid callback, so there is nothing to look for.
+ */
+function checkFrendLendCallback(config: FullConfig): SmokeCheck | undefined {
+    if (!config.bullaFrendLendAddress || config.bullaFrendLendAddress === constants.AddressZero) {
+        return undefined;
+    }
+    return {
+        name: 'BullaFrendLend callback',
+        status: 'unverified',
+        detail: 'not supported: only the BullaClaimV2 paid callback is whitelisted by the deploy scripts and the factory',
+    };
+}
+
+/**
+ * Check that a deployed pool is wired up as configured
+ * Takes the provider as a parameter so it can run against any node, including a local Hardhat or Anvil node.
+ * @throws Error if the config has no bullaFactoringAddress
+ */
+export async function runPoolSmokeTest(provider: providers.Provider, config: FullConfig): Promise<SmokeTestReport> {
+    if (!config.bullaFactoringAddress) {
+        throw new Error(`No bullaFactoringAddress configured for ${config.network}/${config.poolName}`);
+    }
+
+    const report: SmokeTestReport = {
+        network: config.network,
+        pool: config.poolName,
+        bullaFactoringAddress: config.bullaFactoringAddress,
+        checks: [],
+    };
+
+    if ((await provider.getCode(config.bullaFactoringAddress)) === '0x') {
+        report.checks.push({ name: 'BullaFactoring deployed', status: 'fail', detail: 'no contract at bullaFactoringAddress' });
+        return report;
+    }
+    report.checks.push({ name: 'BullaFactoring deployed', status: 'pass' });
+
+    const pool = new Contract(config.bullaFactoringAddress, BULLA_FACTORING_ABI, provider);
+
+    report.checks.push(
+        await checkValue('redemptionQueue.factoringContract', config.bullaFactoringAddress, async () =>
+            new Contract(await pool.getRedemptionQueue(), REDEMPTION_QUEUE_ABI, provider).factoringContract(),
+        ),
+        await checkValue('depositPermissions', config.depositPermissionsAddress, () => pool.depositPermissions()),
+        // DeployBullaFactoring.s.sol reuses the deposit permissions when no redeem permissions are configured
+        await checkValue('redeemPermissions', config.redeemPermissionsAddress || config.depositPermissionsAddress, () =>
+            pool.redeemPermissions(),
+        ),
+        await checkValue('factoringPermissions', config.factoringPermissionsAddress, () => pool.factoringPermissions()),
+        await checkValue('invoiceProviderAdapter', config.BullaClaimInvoiceProviderAdapterAddress, () => pool.invoiceProviderAdapter()),
+        await checkValue('bullaDao', config.bullaDao, () => pool.bullaDao()),
+        await checkValue('protocolFeeBps', config.protocolFeeBps, () => pool.protocolFeeBps()),
+        await checkCallbackWhitelisted(provider, config),
+    );
+
+    const frendLendCallback = checkFrendLendCallback(config);
+    if (frendLendCallback) {
+        report.checks.push(frendLendCallback);
+    }
+
+    return report;
+}
+
+/**
+ * A pool passes when no check failed; unverified checks are reported but do not fail it
+ */
+export function hasFailures(report: SmokeTestReport): boolean {
+    return report.checks.some(check => check.status === 'fail');
+}
+
+// ============================================================================
+// Output
+// ============================================================================
+
+const STATUS_ICONS: Record<SmokeStatus, string> = {
+    pass: '✅',
+    fail: '❌',
+    unverified: '⚠️ ',
+};
+
+/**
+ * Print a smoke test report as a pass/fail table
+ */
+export function printSmokeTestReport(report: SmokeTestReport): void {
+    console.log(`\n📋 ${report.network}/${report.pool} (${report.bullaFactoringAddress})`);
+
+    const width = Math.max(...report.checks.map(check => check.name.length));
+    for (const check of report.checks) {
+        const values =
+            check.status === 'fail' && check.actual !== undefined
+                ? `expected: ${check.expected}  on-chain: ${check.actual}`
+                : check.actual ?? check.expected ?? '';
+        const detail = check.detail ? `${values ? '  ' : ''}(${check.detail})` : '';
+        console.log(`   ${STATUS_ICONS[check.status]} ${check.name.padEnd(width)}  ${values}${detail}`);
+    }
+
+    const counts = (['pass', 'fail', 'unverified'] as SmokeStatus[]).map(
+        status => `${report.checks.filter(check => check.status === status).length} ${status}`,
+    );
+    console.log(`\n   ${counts.join(', ')}`);
+}
+
+/**
+ * Smoke test workflow (can be called with parameters or standalone)
+ * @param rpcUrl - Node to test against instead of the network's configured RPC, e.g. a local node
+ * @param context Receives the checks for the launcher's result, also when the test fails
+ * @throws Error if any check failed
+ */
+export async function smokeTestWorkflow(
+    network: string,
+    pool: PoolName,
+    rpcUrl?: string,
+    context?: ScriptContext,
+): Promise<SmokeTestReport> {
+    console.log(`🧪 Smoke testing ${network}/${pool}...`);
+
+    const config = getConfig(network, pool);
+    const provider = rpcUrl ? new providers.StaticJsonRpcProvider(rpcUrl) : await getProvider(network);
+    const report = await runPoolSmokeTest(provider, config);
+    if (context) {
+        context.details.checks = report.checks;
+    }
+    printSmokeTestReport(report);
+
+    if (hasFailures(report)) {
+        throw new Error(`Smoke test failed for ${network}/${pool}`);
+    }
+    console.log(`\n✅ ${network}/${pool} is wired up as configured`);
+    return report;
+}
+
+// ============================================================================
+// Launcher
+// ============================================================================
+
+/**
+ * Launcher: Get network and pool interactively, then run workflow
+ * Options: --rpc-url to point at a specific node (e.g. a local Hardhat node)
+ */
+export async function smokeTestLauncher(): Promise<void> {
+    await runScript('smoke-test', async context => {
+        const { network, pool } = await getNetworkAndPoolInteractive();
+        context.network = network;
+        context.pool = pool;
+
+        await smokeTestWorkflow(network, pool, getArgValue('--rpc-url'), context);
+    });
+}
+
+// Only run launcher if this script is run directly
+if (require.main === module) {
+    setupGracefulExit();
+    smokeTestLauncher();
+}
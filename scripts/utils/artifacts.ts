@@ -0,0 +1,218 @@
+import { utils } from 'ethers';
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+
+// Compiled forge artifacts (foundry.toml: out = 'artifacts/foundry'), written by `yarn build:forge`
+
+const REPO_ROOT = join(__dirname, '..', '..');
+
+export const FORGE_ARTIFACTS_DIR = join(REPO_ROOT, 'artifacts', 'foundry');
+
+/** The parts of a forge artifact the scripts use */
+export type ForgeArtifact = {
+    abi: any[];
+    bytecode: { object: string };
+    /** Immutables are zero in the artifact and filled in at deployment, at the byte ranges listed in immutableReferences */
+    deployedBytecode?: { object: string; immutableReferences?: Record<string, { start: number; length: number }[]> };
+    /** Solc metadata; compilationTarget maps the source path to the contract name */
+    metadata?: SolcMetadata;
+};
+
+/** The solc metadata of a contract, which records everything needed to reproduce its compilation */
+export type SolcMetadata = {
+    compiler?: { version: string };
+    language?: string;
+    settings?: { compilationTarget?: Record<string, string>; libraries?: Record<string, string>; [setting: string]: any };
+    /** Every source the compilation used, keyed by source unit name */
+    sources?: Record<string, { keccak256: string; content?: string }>;
+};
+
+/** An artifact together with the contract it was compiled for */
+export type LocatedForgeArtifact = {
+    contractName: string;
+    /** Source path relative to the repo root, e.g. contracts/BullaFactoring.sol */
+    sourcePath: string;
+    artifact: ForgeArtifact;
+};
+
+let artifactIndex: LocatedForgeArtifact[] | undefined;
+
+/**
+ * Path of a contract's artifact, e.g. ('BullaFactoring.sol', 'BullaFactoringV2_2') -> artifacts/foundry/BullaFactoring.sol/BullaFactoringV2_2.json
+ */
+export function getForgeArtifactPath(sourceFile: string, contractName: string): string {
+    return join(FORGE_ARTIFACTS_DIR, sourceFile, `${contractName}.json`);
+}
+
+/**
+ * Read a compiled forge artifact
+ * @throws Error if the contract has not been compiled
+ */
+export function readForgeArtifact(sourceFile: string, contractName: string): ForgeArtifact {
+    const path = getForgeArtifactPath(sourceFile, contractName);
+    if (!existsSync(path)) {
+        throw new Error(`Artifact not found: ${path}. Run 'yarn build:forge' first`);
+    }
+    return JSON.parse(readFileSync(path, 'utf8')) as ForgeArtifact;
+}
+
+/**
+ * Creation bytecode of an artifact, without constructor arguments
+ * @throws Error if the bytecode is empty (an interface or abstract contract) or has unlinked libraries
+ */
+export function getCreationBytecode(artifact: ForgeArtifact, contractName: string): string {
+    const bytecode = artifact.bytecode?.object || '';
+    if (bytecode === '' || bytecode === '0x') {
+        throw new Error(`${contractName} has no creation bytecode; is it an interface or abstract contract?`);
+    }
+    if (bytecode.includes('__$')) {
+        throw new Error(`${contractName} has unlinked libraries`);
+    }
+    return bytecode.startsWith('0x') ? bytecode : `0x${bytecode}`;
+}
+
+/**
+ * Every compiled artifact, read once per process
+ * Artifacts without solc metadata (e.g. from an older forge) cannot be attributed to a source and are skipped.
+ */
+export function listForgeArtifacts(): LocatedForgeArtifact[] {
+    if (artifactIndex) {
+        return artifactIndex;
+    }
+    if (!existsSync(FORGE_ARTIFACTS_DIR)) {
+        throw new Error(`No artifacts found in ${FORGE_ARTIFACTS_DIR}. Run 'yarn build:forge' first`);
+    }
+
+    artifactIndex = [];
+    for (const sourceDir of readdirSync(FORGE_ARTIFACTS_DIR)) {
+        const dir = join(FORGE_ARTIFACTS_DIR, sourceDir);
+        if (sourceDir === 'build-info' || !statSync(dir).isDirectory()) {
+            continue;
+        }
+        for (const file of readdirSync(dir).filter(name => name.endsWith('.json'))) {
+            const artifact = JSON.parse(readFileSync(join(dir, file), 'utf8')) as ForgeArtifact;
+            const [target] = Object.entries(artifact.metadata?.settings?.compilationTarget || {});
+            if (target) {
+                artifactIndex.push({ sourcePath: target[0], contractName: target[1], artifact });
+            }
+        }
+    }
+    return artifactIndex;
+}
+
+/**
+ * Find the artifact of a contract by name, wherever its source lives
+ * @throws Error if the contract has not been compiled, or the name is ambiguous
+ */
+export function findForgeArtifact(contractName: string): LocatedForgeArtifact {
+    const matches = listForgeArtifacts().filter(located => located.contractName === contractName);
+    const sources = Array.from(new Set(matches.map(located => located.sourcePath)));
+    if (sources.length === 0) {
+        throw new Error(
+            `No artifact found for ${contractName}. Run 'yarn build:forge' first; contracts whose source has been removed cannot be verified`,
+        );
+    }
+
+    // A name can also be compiled from a dependency (lib/); the repo's own contract wins
+    const own = sources.filter(path => path.startsWith('contracts/'));
+    const source = sources.length === 1 ? sources[0] : own.length === 1 ? own[0] : undefined;
+    if (!source) {
+        throw new Error(`${contractName} is compiled from more than one source: ${sources.join(', ')}`);
+    }
+    return matches.find(located => located.sourcePath === source)!;
+}
+
+/**
+ * Identify the contract a creation transaction deployed, by matching its init code against compiled creation bytecode
+ * Used for contracts created inside another contract's constructor, which forge records without a name.
+ * @returns The artifact and the ABI-encoded constructor arguments that follow its bytecode, or undefined if none match
+ */
+export function identifyCreation(initCode: string): { located: LocatedForgeArtifact; encodedArgs: string } | undefined {
+    const code = initCode.toLowerCase();
+    let best: { located: LocatedForgeArtifact; bytecode: string } | undefined;
+
+    for (const located of listForgeArtifacts()) {
+        const object = located.artifact.bytecode?.object || '';
+        const bytecode = (object.startsWith('0x') ? object : `0x${object}`).toLowerCase();
+        if (bytecode.length > 2 && code.startsWith(bytecode) && (!best || bytecode.length > best.bytecode.length)) {
+            best = { located, bytecode };
+        }
+    }
+    return best && { located: best.located, encodedArgs: `0x${code.slice(best.bytecode.length)}` };
+}
+
+/**
+ * Rebuild the solc standard JSON input a contract was compiled from, out of its metadata and the sources on disk
+ * This is what verification services compile to match the deployed bytecode.
+ * @throws Error if the artifact has no metadata, or a source is missing or has changed since it was compiled
+ */
+export function buildStandardJsonInput(located: LocatedForgeArtifact): { compilerVersion: string; input: Record<string, any> } {
+    const { metadata } = located.artifact;
+    if (!metadata?.compiler || !metadata.settings || !metadata.sources) {
+        throw new Error(`${located.contractName} artifact has no solc metadata. Rebuild with 'yarn build:forge'`);
+    }
+
+    const sources: Record<string, { content: string }> = {};
+    for (const [sourceName, source] of Object.entries(metadata.sources)) {
+        const path = join(REPO_ROOT, sourceName);
+        const content = source.content ?? (existsSync(path) ? readFileSync(path, 'utf8') : undefined);
+        if (content === undefined) {
+            throw new Error(`Source ${sourceName} of ${located.contractName} not found`);
+        }
+        if (utils.keccak256(utils.toUtf8Bytes(content)) !== source.keccak256) {
+            throw new Error(`${sourceName} has changed since ${located.contractName} was compiled. Rebuild with 'yarn build:forge'`);
+        }
+        sources[sourceName] = { content };
+    }
+
+    // Metadata lists libraries as "path:Name" -> address; standard JSON nests them by path
+    const { compilationTarget, libraries, ...settings } = metadata.settings;
+    const linkedLibraries: Record<string, Record<string, string>> = {};
+    for (const [library, address] of Object.entries(libraries || {})) {
+        const separator = library.lastIndexOf(':');
+        const libraryPath = library.slice(0, separator);
+        linkedLibraries[libraryPath] = { ...linkedLibraries[libraryPath], [library.slice(separator + 1)]: address };
+    }
+
+    return {
+        compilerVersion: metadata.compiler.version,
+        input: {
+            language: metadata.language || 'Solidity',
+            sources,
+            settings: {
+                ...settings,
+                libraries: linkedLibraries,
+                outputSelection: { '*': { '*': ['abi', 'evm.bytecode.object', 'evm.deployedBytecode.object', 'metadata'] } },
+            },
+        },
+    };
+}
+
+/**
+ * Runtime bytecode reduced to what the source determines, for comparing deployed code with an artifact
+ * Immutables are zeroed, since they are set per deployment, and the trailing CBOR metadata is removed, since it hashes the
+ * sources' comments and paths too.
+ * @param immutableReferences From the artifact's deployedBytecode; the same offsets apply to the deployed code
+ */
+export function normalizeRuntimeBytecode(
+    code: string,
+    immutableReferences: Record<string, { start: number; length: number }[]> = {},
+): string {
+    const bytes = utils.arrayify(code.startsWith('0x') ? code : `0x${code}`);
+    for (const references of Object.values(immutableReferences)) {
+        for (const { start, length } of references) {
+            bytes.fill(0, start, start + length);
+        }
+    }
+
+    // The last two bytes give the metadata length; the metadata itself is a CBOR map (major type 5, 0xa0-0xbf)
+    let end = bytes.length;
+    if (bytes.length >= 2) {
+        const metadataLength = (bytes[bytes.length - 2] << 8) | bytes[bytes.length - 1];
+        const metadataStart = bytes.length - 2 - metadataLength;
+        if (metadataLength > 0 && metadataStart >= 0 && (bytes[metadataStart] & 0xe0) === 0xa0) {
+            end = metadataStart;
+        }
+    }
+    return utils.hexlify(bytes.slice(0, end));
+}
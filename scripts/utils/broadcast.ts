@@ -0,0 +1,170 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { getNetworkMetadata } from './networks';
+
+// Helpers for the broadcast/<script>/<chainId>/run-*.json files written by `forge script --broadcast`,
+// and the broadcast/<script>/<chainId>/dry-run/run-*.json files written by a simulation without it
+
+export type BroadcastTransaction = {
+    hash: string | null;
+    transactionType: string;
+    contractName: string | null;
+    contractAddress: string | null;
+    function?: string | null;
+    arguments?: string[] | null;
+    /** The transaction request; gas is forge's estimate, hex-encoded */
+    transaction?: {
+        from?: string;
+        to?: string | null;
+        gas?: string;
+        value?: string;
+        input?: string;
+        /** Older forge versions write the calldata here instead of `input` */
+        data?: string;
+    };
+    /** Contracts created by the transaction itself, e.g. a RedemptionQueue deployed in a pool's constructor */
+    additionalContracts?: { transactionType: string; address: string; initCode: string }[];
+};
+
+/** Receipt of a broadcast transaction; numbers are hex-encoded */
+export type BroadcastReceipt = {
+    transactionHash: string;
+    /** 0x1 on success, 0x0 when the transaction reverted */
+    status: string;
+    blockNumber: string;
+    gasUsed: string;
+    effectiveGasPrice: string;
+    contractAddress?: string | null;
+    /** L1 data fee charged on OP-stack chains such as Base, on top of gasUsed * effectiveGasPrice */
+    l1Fee?: string;
+};
+
+export type Broadcast = {
+    transactions: BroadcastTransaction[];
+    /** Missing from simulations, and for transactions still pending when forge exited */
+    receipts?: BroadcastReceipt[];
+    /** Unix timestamp (seconds) of the run */
+    timestamp: number;
+    chain: number;
+    /** Short git commit the script was run from */
+    commit?: string;
+};
+
+/** Root of the broadcast files, relative to the repo root forge runs from */
+export const BROADCAST_DIR = 'broadcast';
+
+/**
+ * Path of the latest broadcast file for a script on a network
+ * @param dryRun Path of the latest simulation instead, written when forge runs without --broadcast
+ */
+export function getLatestBroadcastPath(scriptName: string, network: string, dryRun: boolean = false): string {
+    const chainDir = join(BROADCAST_DIR, scriptName, getNetworkMetadata(network).chainId.toString());
+    return join(dryRun ? join(chainDir, 'dry-run') : chainDir, 'run-latest.json');
+}
+
+/**
+ * Read the latest broadcast file for a script
+ */
+export function readLatestBroadcast(scriptName: string, network: string, dryRun: boolean = false): Broadcast {
+    const broadcastPath = getLatestBroadcastPath(scriptName, network, dryRun);
+    try {
+        const content = readFileSync(broadcastPath, 'utf-8');
+        return JSON.parse(content);
+    } catch (error) {
+        console.error(`Failed to read broadcast file: ${broadcastPath}`);
+        throw error;
+    }
+}
+
+/**
+ * Read the latest broadcast file for a script, if it was written by a run started at or after `since`
+ * Forge writes nothing when a script sends no transactions, so an older file belongs to an earlier run.
+ * @param since Milliseconds since epoch
+ */
+export function readBroadcastSince(scriptName: string, network: string, since: number, dryRun: boolean = false): Broadcast | undefined {
+    if (!existsSync(getLatestBroadcastPath(scriptName, network, dryRun))) {
+        return undefined;
+    }
+
+    // Broadcast timestamps are whole seconds, so allow for the truncation
+    const broadcast = readLatestBroadcast(scriptName, network, dryRun);
+    return broadcast.timestamp * 1000 >= since - 1000 ? broadcast : undefined;
+}
+
+/**
+ * Scripts with broadcast files, e.g. DeployBullaFactoring.s.sol
+ */
+export function listBroadcastScripts(): string[] {
+    if (!existsSync(BROADCAST_DIR)) {
+        return [];
+    }
+    return readdirSync(BROADCAST_DIR, { withFileTypes: true })
+        .filter(entry => entry.isDirectory())
+        .map(entry => entry.name)
+        .sort();
+}
+
+/**
+ * Chain IDs a script has broadcast files for
+ */
+export function listBroadcastChainIds(scriptName: string): number[] {
+    const scriptDir = join(BROADCAST_DIR, scriptName);
+    if (!existsSync(scriptDir)) {
+        return [];
+    }
+    return readdirSync(scriptDir)
+        .filter(entry => /^\d+$/.test(entry))
+        .map(Number)
+        .sort((a, b) => a - b);
+}
+
+/**
+ * Read every broadcast file kept for a script on a network, oldest first
+ * Forge keeps a run-<timestamp>.json per run next to run-latest.json, which duplicates the newest one and is skipped.
+ */
+export function readAllBroadcasts(scriptName: string, network: string): Broadcast[] {
+    const chainDir = dirname(getLatestBroadcastPath(scriptName, network));
+    if (!existsSync(chainDir)) {
+        return [];
+    }
+
+    return readdirSync(chainDir)
+        .filter(file => /^run-\d+\.json$/.test(file))
+        .map(file => JSON.parse(readFileSync(join(chainDir, file), 'utf-8')) as Broadcast)
+        .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Extract deployed contract address from broadcast
+ */
+export function extractDeployedAddress(broadcast: Broadcast, contractName: string): string | undefined {
+    const transactions = broadcast.transactions || [];
+
+    for (const tx of transactions) {
+        if (tx.transactionType === 'CREATE' && tx.contractName === contractName) {
+            return tx.contractAddress || undefined;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * All contracts created in a broadcast, keyed by contract name
+ */
+export function getDeployedContracts(broadcast: Broadcast): Record<string, string> {
+    const contracts: Record<string, string> = {};
+    for (const tx of broadcast.transactions || []) {
+        if (tx.transactionType === 'CREATE' && tx.contractName && tx.contractAddress) {
+            contracts[tx.contractName] = tx.contractAddress;
+        }
+    }
+    return contracts;
+}
+
+/**
+ * Transaction hashes sent in a broadcast, in order
+ */
+export function getTransactionHashes(broadcast: Broadcast): string[] {
+    return (broadcast.transactions || []).map(tx => tx.hash).filter((hash): hash is string => !!hash);
+}
@@ -0,0 +1,69 @@
+// Minimal command-line flag helpers shared by the standalone scripts
+
+/** Process exit codes shared by every script */
+export const EXIT_CODES = {
+    success: 0,
+    /** The workflow ran and failed, e.g. a forge script or transaction reverted */
+    failure: 1,
+    /** An input was missing or invalid; nothing was sent */
+    invalidInput: 2,
+    /** Interrupted with Ctrl+C */
+    interrupted: 130,
+} as const;
+
+/**
+ * A missing or invalid input, reported with EXIT_CODES.invalidInput
+ */
+export class InputError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InputError';
+    }
+}
+
+/**
+ * Read the value following a command-line flag, e.g. `--network sepolia`
+ */
+export function getArgValue(flag: string): string | undefined {
+    const index = process.argv.indexOf(flag);
+    return index === -1 ? undefined : process.argv[index + 1];
+}
+
+/**
+ * Check whether a boolean command-line flag was passed, e.g. `--json`
+ */
+export function hasFlag(flag: string): boolean {
+    return process.argv.includes(flag);
+}
+
+/**
+ * Read an input from its command-line flag, falling back to its environment variable
+ */
+export function getInput(flag: string, envVar: string): string | undefined {
+    return getArgValue(flag) ?? (process.env[envVar] || undefined);
+}
+
+/**
+ * Scripts never prompt with --non-interactive (or NON_INTERACTIVE=true), so they can run from CI
+ */
+export function isNonInteractive(): boolean {
+    return hasFlag('--non-interactive') || process.env.NON_INTERACTIVE === 'true';
+}
+
+/**
+ * With --json the result is printed to stdout as JSON and all other output goes to stderr
+ */
+export function isJsonOutput(): boolean {
+    return hasFlag('--json');
+}
+
+/**
+ * Call before prompting for an input
+ * @throws InputError in non-interactive mode, naming the flag or environment variable that provides the input
+ */
+export function assertCanPrompt(input: string, sources: string[]): void {
+    if (isNonInteractive()) {
+        const hint = sources.length > 0 ? `: use ${sources.join(' or ')}` : '';
+        throw new InputError(`Missing ${input}${hint} (prompts are disabled in non-interactive mode)`);
+    }
+}
@@ -0,0 +1,85 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+/** Run state for multi-step flows lives next to other local deployment output (git-ignored) */
+export const DEPLOY_STATE_DIR = join(__dirname, '..', '..', 'deploy_info');
+
+export type StepStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export type StepState = {
+    status: StepStatus;
+    startedAt?: string;
+    completedAt?: string;
+    error?: string;
+    /** Transactions broadcast by the step, from its forge broadcast file */
+    txHashes: string[];
+    /** Contracts created by the step, keyed by contract name */
+    addresses: Record<string, string>;
+};
+
+export type DeployRunState = {
+    flow: string;
+    network: string;
+    pool: string;
+    createdAt: string;
+    updatedAt: string;
+    steps: Record<string, StepState>;
+};
+
+function emptyStep(): StepState {
+    return { status: 'pending', txHashes: [], addresses: {} };
+}
+
+/**
+ * Path of the run state file for a flow on a network/pool
+ */
+export function getDeployStatePath(flow: string, network: string, pool: string): string {
+    return join(DEPLOY_STATE_DIR, `${flow}-${network}-${pool}.json`);
+}
+
+/**
+ * Read the run state for a flow, starting a fresh one if none exists
+ * Steps missing from an older state file are added as pending.
+ * @throws Error if the state file exists but is not valid JSON
+ */
+export function readDeployState(flow: string, network: string, pool: string, stepIds: string[]): DeployRunState {
+    const statePath = getDeployStatePath(flow, network, pool);
+    const now = new Date().toISOString();
+
+    let state: DeployRunState;
+    if (existsSync(statePath)) {
+        try {
+            state = JSON.parse(readFileSync(statePath, 'utf-8'));
+        } catch (error) {
+            throw new Error(`Run state at ${statePath} is not valid JSON: ${(error as Error).message}. Delete it to start over.`);
+        }
+    } else {
+        state = { flow, network, pool, createdAt: now, updatedAt: now, steps: {} };
+    }
+
+    for (const id of stepIds) {
+        state.steps[id] = state.steps[id] || emptyStep();
+    }
+    return state;
+}
+
+/**
+ * Atomically write the run state
+ */
+export function writeDeployState(state: DeployRunState): void {
+    mkdirSync(DEPLOY_STATE_DIR, { recursive: true });
+    const statePath = getDeployStatePath(state.flow, state.network, state.pool);
+    const tempPath = `${statePath}.${process.pid}.tmp`;
+
+    state.updatedAt = new Date().toISOString();
+    writeFileSync(tempPath, `${JSON.stringify(state, null, 4)}\n`, 'utf-8');
+    renameSync(tempPath, statePath);
+}
+
+/**
+ * Update one step and persist the run state immediately
+ */
+export function updateStepState(state: DeployRunState, stepId: string, update: Partial<StepState>): void {
+    state.steps[stepId] = { ...(state.steps[stepId] || emptyStep()), ...update };
+    writeDeployState(state);
+}
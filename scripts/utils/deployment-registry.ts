@@ -0,0 +1,235 @@
+import { existsSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { DeployedPoolConfig, NetworkConfig, PoolConfig } from '../network-config';
+
+/** Machine-readable registry of deployed addresses, consumable without executing TypeScript */
+export const REGISTRY_PATH = join(__dirname, '..', '..', 'config', 'deployments.json');
+export const REGISTRY_SCHEMA_PATH = join(__dirname, '..', '..', 'config', 'deployments.schema.json');
+
+/** Deployments for a single network: network-wide contracts plus every pool deployed on it */
+export type NetworkDeployment = {
+    contracts: NetworkConfig;
+    pools: Record<string, DeployedPoolConfig>;
+};
+
+export type DeploymentRegistry = {
+    $schema?: string;
+    /** Network-agnostic fee parameters, keyed by pool name */
+    pools: Record<string, PoolConfig>;
+    networks: Record<string, NetworkDeployment>;
+};
+
+// ============================================================================
+// Schema validation
+// ============================================================================
+
+type JsonSchema = {
+    type?: 'object' | 'string' | 'boolean' | 'integer' | 'number' | 'array';
+    required?: string[];
+    properties?: Record<string, JsonSchema>;
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+    pattern?: string;
+    minLength?: number;
+    minimum?: number;
+    maximum?: number;
+    enum?: unknown[];
+    $ref?: string;
+    definitions?: Record<string, JsonSchema>;
+};
+
+let cachedSchema: JsonSchema | undefined;
+
+function loadSchema(): JsonSchema {
+    if (!cachedSchema) {
+        cachedSchema = JSON.parse(readFileSync(REGISTRY_SCHEMA_PATH, 'utf-8')) as JsonSchema;
+    }
+    return cachedSchema;
+}
+
+function resolveRef(root: JsonSchema, ref: string): JsonSchema {
+    const name = ref.replace('#/definitions/', '');
+    const resolved = root.definitions?.[name];
+    if (!resolved) {
+        throw new Error(`Unresolvable schema reference: ${ref}`);
+    }
+    return resolved;
+}
+
+function typeMatches(value: unknown, type: JsonSchema['type']): boolean {
+    switch (type) {
+        case 'object':
+            return typeof value === 'object' && value !== null && !Array.isArray(value);
+        case 'array':
+            return Array.isArray(value);
+        case 'integer':
+            return typeof value === 'number' && Number.isInteger(value);
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value);
+        case 'string':
+        case 'boolean':
+            return typeof value === type;
+        default:
+            return true;
+    }
+}
+
+/**
+ * Validate a value against the subset of JSON Schema used by deployments.schema.json
+ * @returns List of human-readable problems (empty when valid)
+ */
+function validateAgainstSchema(value: unknown, schema: JsonSchema, root: JsonSchema, path: string): string[] {
+    if (schema.$ref) {
+        return validateAgainstSchema(value, resolveRef(root, schema.$ref), root, path);
+    }
+
+    if (schema.type && !typeMatches(value, schema.type)) {
+        return [`${path}: expected ${schema.type}, got ${Array.isArray(value) ? 'array' : typeof value}`];
+    }
+
+    const errors: string[] = [];
+
+    if (schema.enum && !schema.enum.includes(value)) {
+        errors.push(`${path}: must be one of ${schema.enum.join(', ')}`);
+    }
+
+    if (typeof value === 'string') {
+        if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+            errors.push(`${path}: '${value}' does not match ${schema.pattern}`);
+        }
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            errors.push(`${path}: must be at least ${schema.minLength} character(s)`);
+        }
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            errors.push(`${path}: ${value} is below the minimum of ${schema.minimum}`);
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            errors.push(`${path}: ${value} is above the maximum of ${schema.maximum}`);
+        }
+    }
+
+    if (Array.isArray(value) && schema.items) {
+        value.forEach((item, index) => errors.push(...validateAgainstSchema(item, schema.items!, root, `${path}[${index}]`)));
+    }
+
+    if (typeMatches(value, 'object') && schema.type === 'object') {
+        const record = value as Record<string, unknown>;
+
+        for (const key of schema.required ?? []) {
+            if (record[key] === undefined) {
+                errors.push(`${path}.${key}: is required`);
+            }
+        }
+
+        for (const [key, child] of Object.entries(record)) {
+            const propertySchema = schema.properties?.[key];
+            if (propertySchema) {
+                errors.push(...validateAgainstSchema(child, propertySchema, root, `${path}.${key}`));
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${path}.${key}: unknown property`);
+            } else if (typeof schema.additionalProperties === 'object') {
+                errors.push(...validateAgainstSchema(child, schema.additionalProperties, root, `${path}.${key}`));
+            }
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Validate registry contents against config/deployments.schema.json
+ * @returns List of human-readable problems (empty when valid)
+ */
+export function validateRegistry(data: unknown): string[] {
+    const schema = loadSchema();
+    const errors = validateAgainstSchema(data, schema, schema, '$');
+    if (errors.length > 0) {
+        return errors;
+    }
+
+    // Cross-references the schema cannot express: every deployed pool needs fee parameters
+    const registry = data as DeploymentRegistry;
+    for (const [network, deployment] of Object.entries(registry.networks)) {
+        for (const pool of Object.keys(deployment.pools)) {
+            if (!registry.pools[pool]) {
+                errors.push(`$.networks.${network}.pools.${pool}: pool '${pool}' has no entry in $.pools`);
+            }
+        }
+    }
+    return errors;
+}
+
+// ============================================================================
+// Reading and writing
+// ============================================================================
+
+/**
+ * Read and validate the deployment registry
+ * @throws Error if the file is missing, not valid JSON, or does not match the schema
+ */
+export function readRegistry(): DeploymentRegistry {
+    if (!existsSync(REGISTRY_PATH)) {
+        throw new Error(`Deployment registry not found at ${REGISTRY_PATH}`);
+    }
+
+    let data: unknown;
+    try {
+        data = JSON.parse(readFileSync(REGISTRY_PATH, 'utf-8'));
+    } catch (error) {
+        throw new Error(`Deployment registry at ${REGISTRY_PATH} is not valid JSON: ${(error as Error).message}`);
+    }
+
+    const errors = validateRegistry(data);
+    if (errors.length > 0) {
+        throw new Error(`Deployment registry at ${REGISTRY_PATH} is invalid:\n   ${errors.join('\n   ')}`);
+    }
+
+    return data as DeploymentRegistry;
+}
+
+/**
+ * Validate and atomically write the deployment registry
+ * Writes to a temporary file first and renames it over the registry, so readers never see a partial file.
+ */
+export function writeRegistry(registry: DeploymentRegistry): void {
+    const errors = validateRegistry(registry);
+    if (errors.length > 0) {
+        throw new Error(`Refusing to write invalid deployment registry:\n   ${errors.join('\n   ')}`);
+    }
+
+    const tempPath = `${REGISTRY_PATH}.${process.pid}.tmp`;
+    try {
+        writeFileSync(tempPath, `${JSON.stringify(registry, null, 4)}\n`, 'utf-8');
+        renameSync(tempPath, REGISTRY_PATH);
+    } catch (error) {
+        if (existsSync(tempPath)) {
+            unlinkSync(tempPath);
+        }
+        throw error;
+    }
+}
+
+/**
+ * Read-modify-write helper for the deployment registry
+ */
+export function updateRegistry(mutate: (registry: DeploymentRegistry) => void): DeploymentRegistry {
+    const registry = readRegistry();
+    mutate(registry);
+    writeRegistry(registry);
+    return registry;
+}
+
+/**
+ * Get the deployments for a network
+ * @throws Error if the network is not in the registry
+ */
+export function getNetworkDeployment(registry: DeploymentRegistry, network: string): NetworkDeployment {
+    const deployment = registry.networks[network];
+    if (!deployment) {
+        throw new Error(`Network '${network}' not found in deployment registry. Available: ${Object.keys(registry.networks).join(', ')}`);
+    }
+    return deployment;
+}
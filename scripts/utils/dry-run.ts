@@ -0,0 +1,190 @@
+import { BigNumber, providers, utils } from 'ethers';
+import { basename } from 'path';
+import { Broadcast, BroadcastTransaction, getLatestBroadcastPath, readBroadcastSince } from './broadcast';
+import { runForgeScript } from './interactive-deploy';
+import { getNetworkMetadata } from './networks';
+
+// Dry-run support for forge-backed workflows: simulate the script without --broadcast, then turn the
+// simulated transactions into a plan a reviewer can read before any gas is spent.
+
+/** Options shared by the forge-backed workflows */
+export type ForgeWorkflowOptions = {
+    /** Simulate without broadcasting and print the plan; config/deployments.json is left untouched */
+    dryRun?: boolean;
+    /** Write a Safe Transaction Builder batch instead of sending, for pools owned by a Safe (see utils/safe-batch.ts) */
+    propose?: boolean;
+};
+
+export type PlannedTransaction = {
+    type: 'create' | 'call';
+    /** Contract created, or contract called when forge knows its ABI */
+    contractName?: string;
+    /** Address the contract will be created at, or the call target */
+    address?: string;
+    /** Function signature for calls, e.g. setCallbackWhitelist(address,bytes4,bool) */
+    function?: string;
+    /** Constructor or call arguments, decoded by forge */
+    arguments: string[];
+    /** Gas estimate */
+    gas: string;
+    /** Native token sent with the transaction, in wei */
+    value: string;
+};
+
+export type DryRunPlan = {
+    scriptName: string;
+    network: string;
+    transactions: PlannedTransaction[];
+    totalGas: string;
+    /** Undefined when the node could not be asked for a gas price */
+    gasPrice?: string;
+    /** totalGas * gasPrice, in wei */
+    estimatedCost?: string;
+};
+
+const dryRunPlans: DryRunPlan[] = [];
+
+/**
+ * Plans of the dry runs completed by this process, in order
+ */
+export function getDryRunPlans(): DryRunPlan[] {
+    return [...dryRunPlans];
+}
+
+function toPlannedTransaction(tx: BroadcastTransaction): PlannedTransaction {
+    const request = tx.transaction || {};
+    const isCreate = tx.transactionType === 'CREATE' || tx.transactionType === 'CREATE2';
+    const calldata = request.input || request.data || '0x';
+
+    return {
+        type: isCreate ? 'create' : 'call',
+        contractName: tx.contractName || undefined,
+        address: (isCreate ? tx.contractAddress : request.to) || undefined,
+        // Fall back to the raw selector when forge could not match the target's ABI
+        function: isCreate ? undefined : tx.function || (calldata.length >= 10 ? calldata.slice(0, 10) : undefined),
+        arguments: tx.arguments || [],
+        gas: BigNumber.from(request.gas || 0).toString(),
+        value: BigNumber.from(request.value || 0).toString(),
+    };
+}
+
+/**
+ * Turn a simulated broadcast into a plan, pricing it at the node's current gas price
+ */
+export async function buildDryRunPlan(
+    scriptName: string,
+    network: string,
+    broadcast: Broadcast,
+    provider?: providers.Provider,
+): Promise<DryRunPlan> {
+    const transactions = (broadcast.transactions || []).map(toPlannedTransaction);
+    const totalGas = transactions.reduce((sum, tx) => sum.add(tx.gas), BigNumber.from(0));
+    const plan: DryRunPlan = { scriptName, network, transactions, totalGas: totalGas.toString() };
+
+    if (provider) {
+        try {
+            const gasPrice = await provider.getGasPrice();
+            plan.gasPrice = gasPrice.toString();
+            plan.estimatedCost = totalGas.mul(gasPrice).toString();
+        } catch {
+            // Leave the plan unpriced rather than failing the dry run
+        }
+    }
+
+    return plan;
+}
+
+/**
+ * Print a dry-run plan
+ */
+export function printDryRunPlan(plan: DryRunPlan): void {
+    const currency = getNetworkMetadata(plan.network).nativeCurrency;
+    const creates = plan.transactions.filter(tx => tx.type === 'create').length;
+
+    console.log(`\n📋 Dry-Run Plan: ${plan.scriptName} on ${plan.network}`);
+    console.log('───────────────────────────────────────────────────────────');
+
+    if (plan.transactions.length === 0) {
+        console.log('   No transactions would be sent');
+    }
+
+    plan.transactions.forEach((tx, index) => {
+        const gas = `gas ${BigNumber.from(tx.gas).toNumber().toLocaleString('en-US')}`;
+        if (tx.type === 'create') {
+            console.log(
+                `   ${index + 1}. 🆕 Create ${tx.contractName || 'unknown contract'} at ${tx.address || 'unknown address'} (${gas})`,
+            );
+        } else {
+            const target = tx.contractName ? `${tx.contractName} (${tx.address})` : tx.address || 'unknown address';
+            console.log(`   ${index + 1}. 📞 Call ${tx.function || 'fallback'} on ${target} (${gas})`);
+        }
+        tx.arguments.forEach((arg, argIndex) => console.log(`         arg ${argIndex}: ${arg}`));
+        if (!BigNumber.from(tx.value).isZero()) {
+            console.log(`         value: ${utils.formatEther(tx.value)} ${currency}`);
+        }
+    });
+
+    console.log('───────────────────────────────────────────────────────────');
+    console.log(`   Transactions: ${plan.transactions.length} (${creates} create, ${plan.transactions.length - creates} call)`);
+    console.log(`   Estimated Gas: ${BigNumber.from(plan.totalGas).toNumber().toLocaleString('en-US')}`);
+    if (plan.gasPrice && plan.estimatedCost) {
+        console.log(`   Gas Price: ${utils.formatUnits(plan.gasPrice, 'gwei')} gwei`);
+        console.log(`   Estimated Cost: ${utils.formatEther(plan.estimatedCost)} ${currency}`);
+    } else {
+        console.log('   Estimated Cost: unknown (could not fetch gas price)');
+    }
+    console.log('\nℹ️  Dry run: nothing was broadcast and config/deployments.json was not changed');
+}
+
+/**
+ * Simulate a forge script without broadcasting, then print the transactions it would send
+ * Takes the same arguments as runForgeScript; never updates config or verifies contracts.
+ * @throws Error if forge fails, is not installed, or leaves no dry-run broadcast behind
+ */
+export async function dryRunForgeScript(
+    scriptPath: string,
+    rpcUrl: string,
+    privateKey: string,
+    env: NodeJS.ProcessEnv,
+    network: string,
+): Promise<DryRunPlan> {
+    const scriptName = basename(scriptPath.split(':')[0]);
+    const startedAt = Date.now();
+
+    await new Promise<void>((resolve, reject) => {
+        const forgeProcess = runForgeScript(scriptPath, rpcUrl, privateKey, env, network, { dryRun: true });
+
+        forgeProcess.on('close', code => {
+            if (code === 0) {
+                resolve();
+            } else {
+                reject(new Error(`Dry run of ${scriptName} failed with exit code ${code}`));
+            }
+        });
+
+        forgeProcess.on('error', error => {
+            if ((error as any).code === 'ENOENT') {
+                reject(new Error('Forge not found. Make sure Foundry is installed and in your PATH.'));
+            } else {
+                reject(error);
+            }
+        });
+    });
+
+    const broadcast = readBroadcastSince(scriptName, network, startedAt, true);
+    if (!broadcast) {
+        throw new Error(
+            `Dry run of ${scriptName} finished without writing a plan: expected ${getLatestBroadcastPath(
+                scriptName,
+                network,
+                true,
+            )} to be updated`,
+        );
+    }
+
+    const provider = new providers.StaticJsonRpcProvider(rpcUrl, getNetworkMetadata(network).chainId);
+    const plan = await buildDryRunPlan(scriptName, network, broadcast, provider);
+    printDryRunPlan(plan);
+    dryRunPlans.push(plan);
+    return plan;
+}
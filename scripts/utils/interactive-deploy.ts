@@ -1,67 +1,54 @@
 import { ChildProcess, spawn } from 'child_process';
-import * as readline from 'readline';
+import { basename } from 'path';
+import { EXIT_CODES, InputError, isJsonOutput } from './cli';
+import { getNetworkMetadata, NETWORKS } from './networks';
+import { redactRpcUrl } from './rpc';
+import { resolveSigner } from './signer';
 
-// Function to prompt for private key
-export function promptForPrivateKey(): Promise<string> {
-    return new Promise(resolve => {
-        const rl = readline.createInterface({
-            input: process.stdin,
-            output: process.stdout,
-        });
-
-        console.log('⚠️  WARNING: Your private key input will be visible on screen.');
-        console.log('🔒 Make sure no one is watching your screen!\n');
-
-        rl.question('Enter your private key: ', privateKey => {
-            rl.close();
-            // Clear the screen to hide the private key
-            console.clear();
-            resolve(privateKey.trim());
-        });
-    });
-}
-
-// Function to validate private key format
-export function validatePrivateKey(privateKey: string): string {
-    if (!privateKey) {
-        throw new Error('Private key is required');
-    }
-
-    if (!privateKey.match(/^(0x)?[a-fA-F0-9]{64}$/)) {
-        throw new Error('Invalid private key format. Should be 64 hex characters (with or without 0x prefix)');
-    }
-
-    // Ensure 0x prefix
-    return privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`;
-}
-
-// Function to get and validate private key interactively
+// Function to get the signer's private key, from a keystore, foundry account, DEPLOY_PK or a masked prompt
+// The key is never echoed and never accepted as a command-line argument
 export async function getPrivateKeyInteractively(): Promise<string> {
-    const privateKey = await promptForPrivateKey();
-    return validatePrivateKey(privateKey);
+    const signer = await resolveSigner();
+    console.log(`🔑 Signer: ${signer.address} (${signer.description})`);
+    return signer.privateKey;
 }
 
 // Function to handle Ctrl+C gracefully
 export function setupGracefulExit(): void {
     process.on('SIGINT', () => {
         console.log('\n\n⚠️  Deployment interrupted by user');
-        process.exit(0);
+        process.exit(EXIT_CODES.interrupted);
     });
 }
 
-// Function to validate network
+// Function to validate network, throwing InputError so runScript exits with EXIT_CODES.invalidInput
 export function validateNetwork(network: string | undefined): string {
     if (!network) {
-        console.error('❌ NETWORK environment variable is required');
-        console.error('   Available networks: sepolia, polygon, mainnet, base');
-        console.error('   Usage examples:');
-        console.error('   NETWORK=sepolia npx ts-node <script>');
-        console.error('   NETWORK=base npx ts-node <script>');
-        process.exit(1);
+        throw new InputError(
+            `NETWORK environment variable is required. Available networks: ${Object.keys(NETWORKS).join(', ')}\n` +
+                '   Usage: NETWORK=sepolia npx ts-node <script>',
+        );
     }
     return network;
 }
 
+// A forge script run started by this process
+export type ForgeRun = {
+    /** Script file name, as used for the broadcast/ directory */
+    scriptName: string;
+    network: string;
+    dryRun: boolean;
+    /** Milliseconds since epoch */
+    startedAt: number;
+};
+
+const forgeRuns: ForgeRun[] = [];
+
+// Function to list the forge scripts run so far, so launchers can report what was broadcast
+export function getForgeRuns(): ForgeRun[] {
+    return [...forgeRuns];
+}
+
 // Function to run forge script with common setup
 export function runForgeScript(
     scriptPath: string,
@@ -69,12 +56,16 @@ export function runForgeScript(
     privateKey: string,
     env: NodeJS.ProcessEnv,
     network: string,
-    options?: { verify?: boolean },
+    options?: { verify?: boolean; dryRun?: boolean },
 ): ChildProcess {
-    const forgeArgs = ['script', scriptPath, '--rpc-url', rpcUrl, '--broadcast', '--private-key', privateKey, '--via-ir'];
+    // Without --broadcast forge only simulates, writing the transactions to broadcast/<script>/<chainId>/dry-run/
+    const dryRun = options?.dryRun ?? false;
+    const broadcastArgs = dryRun ? [] : ['--broadcast'];
+    const forgeArgs = ['script', scriptPath, '--rpc-url', rpcUrl, ...broadcastArgs, '--via-ir'];
 
     // Add verification flags if requested (API key is read from foundry.toml [etherscan] section)
-    const shouldVerify = options?.verify ?? true; // Default to true
+    // Defaults to true, except on networks with no block explorer such as a local node
+    const shouldVerify = !dryRun && (options?.verify ?? !!getNetworkMetadata(network).explorer);
     if (shouldVerify) {
         forgeArgs.push('--verify');
     }
@@ -82,13 +73,23 @@ export function runForgeScript(
     console.log('🔧 Running forge script...');
     console.log(`📄 Script: ${scriptPath}`);
     console.log(`🌐 Network: ${network}`);
-    console.log(`📡 RPC: ${rpcUrl.replace(process.env.INFURA_API_KEY || '', '***')}`);
-    console.log(`🚀 Broadcasting: Yes`);
+    console.log(`📡 RPC: ${redactRpcUrl(rpcUrl)}`);
+    console.log(`🚀 Broadcasting: ${dryRun ? 'No (dry run)' : 'Yes'}`);
     console.log(`✅ Auto-verify: ${shouldVerify ? 'Yes' : 'No'}\n`);
 
+    forgeRuns.push({ scriptName: basename(scriptPath.split(':')[0]), network, dryRun, startedAt: Date.now() });
+
+    // The key goes to the forge scripts through the environment, never argv where other processes can read it.
+    // Keystore settings are dropped so forge doesn't try to unlock a second signer.
+    const forgeEnv: NodeJS.ProcessEnv = { ...env, DEPLOY_PK: privateKey, PRIVATE_KEY: privateKey };
+    delete forgeEnv.ETH_KEYSTORE;
+    delete forgeEnv.ETH_KEYSTORE_ACCOUNT;
+    delete forgeEnv.ETH_PASSWORD;
+
     return spawn('forge', forgeArgs, {
-        env,
-        stdio: 'inherit',
+        env: forgeEnv,
+        // In --json mode forge's output goes to stderr, keeping stdout for the result
+        stdio: isJsonOutput() ? ['inherit', process.stderr, 'inherit'] : 'inherit',
         cwd: process.cwd(),
     });
 }
@@ -1,15 +1,23 @@
 import * as readline from 'readline';
 import { getAvailableNetworks, getAvailablePools, PoolName } from '../network-config';
+import { assertCanPrompt, getInput, InputError, isJsonOutput } from './cli';
+
+/** Prompts go to stderr in --json mode, keeping stdout for the result */
+function createPromptInterface(): readline.Interface {
+    return readline.createInterface({
+        input: process.stdin,
+        output: isJsonOutput() ? process.stderr : process.stdout,
+    });
+}
 
 /**
  * Prompt user to select from a list of options
  */
 export function promptSelect(question: string, options: string[]): Promise<string> {
+    assertCanPrompt(`answer to '${question}'`, []);
+
     return new Promise(resolve => {
-        const rl = readline.createInterface({
-            input: process.stdin,
-            output: process.stdout,
-        });
+        const rl = createPromptInterface();
 
         console.log(`\n${question}`);
         options.forEach((option, index) => {
@@ -48,11 +56,10 @@ export function promptSelect(question: string, options: string[]): Promise<strin
  * Prompt user for free-form text input
  */
 export function promptInput(question: string): Promise<string> {
+    assertCanPrompt(`answer to '${question}'`, []);
+
     return new Promise(resolve => {
-        const rl = readline.createInterface({
-            input: process.stdin,
-            output: process.stdout,
-        });
+        const rl = createPromptInterface();
 
         rl.question(`\n${question} `, answer => {
             rl.close();
@@ -62,31 +69,94 @@ export function promptInput(question: string): Promise<string> {
 }
 
 /**
- * Get network from environment or prompt user
+ * Prompt for a secret, echoing '*' for each character typed
+ * Reads a plain line when stdin is not a terminal (e.g. piped input), where nothing is echoed anyway.
+ */
+export function promptHidden(question: string): Promise<string> {
+    assertCanPrompt(`answer to '${question}'`, []);
+
+    const output = isJsonOutput() ? process.stderr : process.stdout;
+    const stdin = process.stdin;
+    output.write(`\n${question} `);
+
+    if (!stdin.isTTY) {
+        return new Promise(resolve => {
+            const rl = readline.createInterface({ input: stdin, terminal: false });
+            let answer = '';
+            rl.once('line', line => {
+                answer = line;
+                rl.close();
+            });
+            rl.once('close', () => {
+                output.write('\n');
+                resolve(answer.trim());
+            });
+        });
+    }
+
+    return new Promise(resolve => {
+        let secret = '';
+
+        const finish = () => {
+            stdin.off('keypress', onKeypress);
+            stdin.setRawMode(false);
+            stdin.pause();
+            output.write('\n');
+        };
+
+        const onKeypress = (char: string | undefined, key: readline.Key | undefined) => {
+            if (key?.ctrl && key.name === 'c') {
+                // Raw mode swallows Ctrl+C, so raise it for setupGracefulExit
+                finish();
+                process.kill(process.pid, 'SIGINT');
+            } else if (key?.name === 'return' || key?.name === 'enter') {
+                finish();
+                resolve(secret.trim());
+            } else if (key?.name === 'backspace') {
+                if (secret.length > 0) {
+                    secret = secret.slice(0, -1);
+                    output.write('\b \b');
+                }
+            } else if (char && !key?.ctrl && !key?.meta) {
+                secret += char;
+                output.write('*'.repeat(char.length));
+            }
+        };
+
+        readline.emitKeypressEvents(stdin);
+        stdin.setRawMode(true);
+        stdin.resume();
+        stdin.on('keypress', onKeypress);
+    });
+}
+
+/**
+ * Get network from --network, the NETWORK environment variable, or prompt user
  */
 export async function getNetworkInteractive(): Promise<string> {
-    const network = process.env.NETWORK;
+    const network = getInput('--network', 'NETWORK');
     if (network) {
         const availableNetworks = getAvailableNetworks();
         if (!availableNetworks.includes(network)) {
-            throw new Error(`Invalid network: ${network}. Available networks: ${availableNetworks.join(', ')}`);
+            throw new InputError(`Invalid network: ${network}. Available networks: ${availableNetworks.join(', ')}`);
         }
         return network;
     }
 
+    assertCanPrompt('network', ['--network <network>', 'NETWORK=<network>']);
     const availableNetworks = getAvailableNetworks();
     return await promptSelect('🌐 Select a network:', availableNetworks);
 }
 
 /**
- * Get pool from environment or prompt user
+ * Get pool from --pool, the POOL environment variable, or prompt user
  */
 export async function getPoolInteractive(network: string): Promise<PoolName> {
-    const pool = process.env.POOL;
+    const pool = getInput('--pool', 'POOL');
     if (pool) {
         const availablePools = getAvailablePools(network);
         if (!availablePools.includes(pool as PoolName)) {
-            throw new Error(`Pool '${pool}' is not deployed on network '${network}'. Available pools: ${availablePools.join(', ')}`);
+            throw new InputError(`Pool '${pool}' is not deployed on network '${network}'. Available pools: ${availablePools.join(', ')}`);
         }
         return pool as PoolName;
     }
@@ -94,7 +164,7 @@ export async function getPoolInteractive(network: string): Promise<PoolName> {
     const availablePools = getAvailablePools(network);
 
     if (availablePools.length === 0) {
-        throw new Error(`No pools deployed on network: ${network}`);
+        throw new InputError(`No pools deployed on network: ${network}`);
     }
 
     if (availablePools.length === 1) {
@@ -102,6 +172,7 @@ export async function getPoolInteractive(network: string): Promise<PoolName> {
         return availablePools[0];
     }
 
+    assertCanPrompt('pool', ['--pool <pool>', 'POOL=<pool>']);
     return (await promptSelect('📊 Select a pool:', availablePools)) as PoolName;
 }
 
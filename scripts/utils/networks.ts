@@ -0,0 +1,211 @@
+// Static metadata for every network the deployment scripts can target.
+// Adding a chain means adding one entry here (plus its addresses in config/deployments.json).
+
+/** Block explorer used for links and contract verification */
+export type ExplorerMetadata = {
+    /** Human-facing explorer URL */
+    url: string;
+    /** Etherscan-compatible API endpoint */
+    apiUrl: string;
+    /** Name of the environment variable holding the explorer API key */
+    apiKeyEnv: string;
+    /** API calls per second the key allows; defaults to 5, Etherscan's free tier */
+    rateLimitPerSecond?: number;
+};
+
+/** Services source code can be verified on; Blockscout is reached through its Etherscan-compatible API */
+export type VerifierBackend = 'etherscan' | 'sourcify' | 'blockscout';
+
+export type VerifierConfig = {
+    backend: VerifierBackend;
+    apiUrl: string;
+    /** Environment variable holding the API key; required for Etherscan, optional for Blockscout, unused by Sourcify */
+    apiKeyEnv?: string;
+    /** API calls per second the key allows; defaults to 5 */
+    rateLimitPerSecond?: number;
+};
+
+export type NetworkMetadata = {
+    name: string;
+    chainId: number;
+    testnet: boolean;
+    /** Symbol of the token gas is paid in */
+    nativeCurrency: string;
+    /**
+     * Default RPC endpoints, tried after <NETWORK>_RPC_URL(S) and rpc.config.json (see utils/rpc.ts)
+     * Never commit credentials here: reference them as `${ENV_VAR}` placeholders, which are skipped when unset.
+     */
+    rpcUrls: string[];
+    /** Undefined for local nodes, which have nothing to verify against */
+    explorer?: ExplorerMetadata;
+    /** How the rollup charges for posting transaction data to L1, for rollups that do */
+    l1DataFee?: 'op-stack' | 'arbitrum';
+    /** Where contracts are verified, in order; defaults to the explorer's Etherscan API alone */
+    verifiers?: VerifierConfig[];
+};
+
+/** Etherscan V2 serves every Etherscan-family chain from one endpoint, selected by chainid */
+const ETHERSCAN_V2_API_URL = 'https://api.etherscan.io/v2/api';
+
+/** Sourcify serves every chain it supports from one instance */
+const SOURCIFY: VerifierConfig = { backend: 'sourcify', apiUrl: 'https://sourcify.dev/server' };
+
+export const NETWORKS: Record<string, NetworkMetadata> = {
+    sepolia: {
+        name: 'sepolia',
+        chainId: 11155111,
+        testnet: true,
+        nativeCurrency: 'ETH',
+        rpcUrls: ['https://ethereum-sepolia-rpc.publicnode.com'],
+        explorer: { url: 'https://sepolia.etherscan.io', apiUrl: ETHERSCAN_V2_API_URL, apiKeyEnv: 'ETHERSCAN_API_KEY' },
+        verifiers: [{ backend: 'etherscan', apiUrl: ETHERSCAN_V2_API_URL, apiKeyEnv: 'ETHERSCAN_API_KEY' }, SOURCIFY],
+    },
+    polygon: {
+        name: 'polygon',
+        chainId: 137,
+        testnet: false,
+        nativeCurrency: 'POL',
+        rpcUrls: ['https://polygon-rpc.com'],
+        explorer: { url: 'https://polygonscan.com', apiUrl: ETHERSCAN_V2_API_URL, apiKeyEnv: 'POLYGONSCAN_API_KEY' },
+        verifiers: [{ backend: 'etherscan', apiUrl: ETHERSCAN_V2_API_URL, apiKeyEnv: 'POLYGONSCAN_API_KEY' }, SOURCIFY],
+    },
+    mainnet: {
+        name: 'mainnet',
+        chainId: 1,
+        testnet: false,
+        nativeCurrency: 'ETH',
+        rpcUrls: ['https://go.getblock.io/${MAINNET_GETBLOCK_API_KEY}', 'https://ethereum-rpc.publicnode.com'],
+        explorer: { url: 'https://etherscan.io', apiUrl: ETHERSCAN_V2_API_URL, apiKeyEnv: 'ETHERSCAN_API_KEY' },
+        verifiers: [{ backend: 'etherscan', apiUrl: ETHERSCAN_V2_API_URL, apiKeyEnv: 'ETHERSCAN_API_KEY' }, SOURCIFY],
+    },
+    base: {
+        name: 'base',
+        chainId: 8453,
+        testnet: false,
+        nativeCurrency: 'ETH',
+        rpcUrls: ['https://mainnet.base.org'],
+        explorer: { url: 'https://basescan.org', apiUrl: ETHERSCAN_V2_API_URL, apiKeyEnv: 'ETHERSCAN_API_KEY' },
+        l1DataFee: 'op-stack',
+        verifiers: [
+            { backend: 'etherscan', apiUrl: ETHERSCAN_V2_API_URL, apiKeyEnv: 'ETHERSCAN_API_KEY' },
+            { backend: 'blockscout', apiUrl: 'https://base.blockscout.com/api' },
+            SOURCIFY,
+        ],
+    },
+    arbitrum: {
+        name: 'arbitrum',
+        chainId: 42161,
+        testnet: false,
+        nativeCurrency: 'ETH',
+        rpcUrls: ['https://arb1.arbitrum.io/rpc'],
+        explorer: { url: 'https://arbiscan.io', apiUrl: ETHERSCAN_V2_API_URL, apiKeyEnv: 'ARBISCAN_API_KEY' },
+        l1DataFee: 'arbitrum',
+        verifiers: [
+            { backend: 'etherscan', apiUrl: ETHERSCAN_V2_API_URL, apiKeyEnv: 'ARBISCAN_API_KEY' },
+            { backend: 'blockscout', apiUrl: 'https://arbitrum.blockscout.com/api' },
+            SOURCIFY,
+        ],
+    },
+    // Hardhat and Anvil nodes both use chain ID 31337; `yarn dev:local` deploys a stack to it
+    local: {
+        name: 'local',
+        chainId: 31337,
+        testnet: true,
+        nativeCurrency: 'ETH',
+        rpcUrls: ['http://127.0.0.1:8545'],
+    },
+};
+
+/**
+ * Get metadata for a network
+ * @throws Error if the network is unknown
+ */
+export function getNetworkMetadata(network: string): NetworkMetadata {
+    const metadata = NETWORKS[network];
+    if (!metadata) {
+        throw new Error(`Unknown network: ${network}. Known networks: ${Object.keys(NETWORKS).join(', ')}`);
+    }
+    return metadata;
+}
+
+/**
+ * Reverse lookup from chain ID, for callers that need to skip unknown chains (e.g. scanning broadcast/)
+ */
+export function findNetworkByChainId(chainId: number | string): NetworkMetadata | undefined {
+    const id = Number(chainId);
+    return Object.values(NETWORKS).find(metadata => metadata.chainId === id);
+}
+
+/**
+ * Reverse lookup from chain ID
+ * @throws Error if no known network uses this chain ID
+ */
+export function getNetworkByChainId(chainId: number | string): NetworkMetadata {
+    const metadata = findNetworkByChainId(chainId);
+    if (!metadata) {
+        throw new Error(
+            `Unknown chain ID: ${chainId}. Known chains: ${Object.values(NETWORKS)
+                .map(n => `${n.name} (${n.chainId})`)
+                .join(', ')}`,
+        );
+    }
+    return metadata;
+}
+
+/**
+ * Replace `${ENV_VAR}` placeholders with values from the environment
+ * @throws Error naming every referenced variable that is not set
+ */
+export function expandEnvPlaceholders(template: string): string {
+    const missing: string[] = [];
+    const expanded = template.replace(/\$\{([A-Z0-9_]+)\}/g, (_, name: string) => {
+        const value = process.env[name];
+        if (!value) {
+            missing.push(name);
+            return '';
+        }
+        return value;
+    });
+
+    if (missing.length > 0) {
+        throw new Error(`Missing environment variable(s): ${missing.join(', ')}`);
+    }
+    return expanded;
+}
+
+/**
+ * Get the explorer API key for a network from its configured environment variable
+ * @throws Error if the network is unknown or the variable is not set
+ */
+export function getExplorerApiKey(network: string): string {
+    const { explorer } = getNetworkMetadata(network);
+    if (!explorer) {
+        throw new Error(`Network '${network}' has no block explorer`);
+    }
+    const apiKey = process.env[explorer.apiKeyEnv];
+    if (!apiKey) {
+        throw new Error(`No explorer API key for network '${network}': set ${explorer.apiKeyEnv}`);
+    }
+    return apiKey;
+}
+
+/**
+ * Verification backends configured for a network
+ * Networks without a `verifiers` list verify on their explorer's Etherscan API; networks without an explorer have none.
+ */
+export function getVerifiers(network: string): VerifierConfig[] {
+    const { explorer, verifiers } = getNetworkMetadata(network);
+    if (verifiers) {
+        return verifiers;
+    }
+    return explorer
+        ? [
+              {
+                  backend: 'etherscan',
+                  apiUrl: explorer.apiUrl,
+                  apiKeyEnv: explorer.apiKeyEnv,
+                  rateLimitPerSecond: explorer.rateLimitPerSecond,
+              },
+          ]
+        : [];
+}
@@ -0,0 +1,138 @@
+import { providers } from 'ethers';
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { expandEnvPlaceholders, getNetworkMetadata } from './networks';
+
+/** Local, untracked RPC endpoint overrides (see rpc.config.example.json) */
+export const RPC_CONFIG_PATH = join(__dirname, '..', '..', 'rpc.config.json');
+
+/** How long a single endpoint gets to answer the health check */
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+/**
+ * Read RPC endpoint lists from rpc.config.json, keyed by network name
+ * @throws Error if the file exists but is malformed
+ */
+function readRpcConfigFile(): Record<string, string[]> {
+    if (!existsSync(RPC_CONFIG_PATH)) {
+        return {};
+    }
+
+    const parsed = JSON.parse(readFileSync(RPC_CONFIG_PATH, 'utf-8'));
+    for (const [network, urls] of Object.entries(parsed)) {
+        if (!Array.isArray(urls) || urls.some(url => typeof url !== 'string')) {
+            throw new Error(`${RPC_CONFIG_PATH}: '${network}' must be an array of RPC URLs`);
+        }
+    }
+    return parsed as Record<string, string[]>;
+}
+
+/**
+ * Read RPC endpoints from the environment: <NETWORK>_RPC_URLS (comma-separated) and <NETWORK>_RPC_URL
+ */
+function readRpcUrlsFromEnv(network: string): string[] {
+    const prefix = network.toUpperCase();
+    const list = (process.env[`${prefix}_RPC_URLS`] || '')
+        .split(',')
+        .map(url => url.trim())
+        .filter(Boolean);
+    const single = process.env[`${prefix}_RPC_URL`]?.trim();
+
+    return single ? [...list, single] : list;
+}
+
+/**
+ * Expand `${ENV_VAR}` placeholders, dropping endpoints whose variables are not set
+ */
+function expandOptional(urls: string[]): string[] {
+    const expanded: string[] = [];
+    for (const url of urls) {
+        try {
+            expanded.push(expandEnvPlaceholders(url));
+        } catch {
+            // Endpoint needs a credential that is not configured; skip it
+        }
+    }
+    return expanded;
+}
+
+/**
+ * Get the ordered list of RPC endpoints for a network
+ * Order: environment, then rpc.config.json, then the defaults in networks.ts. Duplicates are removed.
+ * @throws Error if no endpoint is configured
+ */
+export function getRpcUrls(network: string): string[] {
+    const metadata = getNetworkMetadata(network);
+    const fromFile = readRpcConfigFile()[network] || [];
+
+    const urls = [...readRpcUrlsFromEnv(network), ...expandOptional(fromFile), ...expandOptional(metadata.rpcUrls)];
+    const unique = urls.filter((url, index) => urls.indexOf(url) === index);
+
+    if (unique.length === 0) {
+        throw new Error(
+            `No RPC endpoint configured for '${network}'. ` +
+                `Set ${network.toUpperCase()}_RPC_URL(S) or add it to ${RPC_CONFIG_PATH} (see rpc.config.example.json).`,
+        );
+    }
+    return unique;
+}
+
+/**
+ * Hide credentials embedded in an RPC URL (API keys usually live in the path or query string)
+ */
+export function redactRpcUrl(url: string): string {
+    try {
+        const parsed = new URL(url);
+        const hasSecret = parsed.pathname.length > 1 || parsed.search || parsed.username;
+        return hasSecret ? `${parsed.protocol}//${parsed.host}/***` : `${parsed.protocol}//${parsed.host}`;
+    } catch {
+        return '***';
+    }
+}
+
+/**
+ * Check that an endpoint answers eth_chainId with the expected chain
+ * @throws Error describing why the endpoint is unhealthy
+ */
+async function checkEndpoint(url: string, expectedChainId: number): Promise<void> {
+    const provider = new providers.StaticJsonRpcProvider({ url, timeout: HEALTH_CHECK_TIMEOUT_MS });
+    const chainId = parseInt(await provider.send('eth_chainId', []), 16);
+    if (chainId !== expectedChainId) {
+        throw new Error(`returned chain ID ${chainId}, expected ${expectedChainId}`);
+    }
+}
+
+/**
+ * Resolve the first healthy RPC endpoint for a network, failing over through the configured list
+ * @throws Error if every endpoint fails its health check
+ */
+export async function resolveRpcUrl(network: string): Promise<string> {
+    const { chainId } = getNetworkMetadata(network);
+    const urls = getRpcUrls(network);
+    const failures: string[] = [];
+
+    for (const url of urls) {
+        try {
+            await checkEndpoint(url, chainId);
+            if (failures.length > 0) {
+                console.log(`🔁 Failed over to RPC endpoint ${redactRpcUrl(url)}`);
+            }
+            return url;
+        } catch (error) {
+            // ethers error messages embed the full request URL, so only keep the short reason
+            const reason = (error as { reason?: string }).reason || (error as Error).message;
+            failures.push(`${redactRpcUrl(url)}: ${reason}`);
+            console.warn(`⚠️  RPC endpoint ${redactRpcUrl(url)} is unhealthy, trying next...`);
+        }
+    }
+
+    throw new Error(`No healthy RPC endpoint for '${network}':\n   ${failures.join('\n   ')}`);
+}
+
+/**
+ * Get an ethers provider connected to the first healthy RPC endpoint for a network
+ */
+export async function getProvider(network: string): Promise<providers.StaticJsonRpcProvider> {
+    const url = await resolveRpcUrl(network);
+    return new providers.StaticJsonRpcProvider(url, getNetworkMetadata(network).chainId);
+}
@@ -0,0 +1,239 @@
+import { Contract, providers, utils } from 'ethers';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { getInput, hasFlag, InputError } from './cli';
+import { getNetworkMetadata } from './networks';
+
+// Propose mode for owner-only operations: instead of sending, encode the calls into a Safe Transaction Builder
+// batch (https://help.safe.global/en/articles/40841-transaction-builder) with a decoded summary for reviewers.
+
+/** Batch files are written here, one per Safe */
+export const SAFE_BATCH_DIR = join(__dirname, '..', '..', 'safe_batches');
+
+/** Which account a call must come from; resolved on-chain from the target contract */
+export type SafeRole = 'owner' | 'bullaDao';
+
+/** Flag and environment variable that override the Safe of each role */
+export const SAFE_OVERRIDES: Record<SafeRole, { flag: string; env: string }> = {
+    owner: { flag: '--safe', env: 'SAFE_ADDRESS' },
+    bullaDao: { flag: '--dao-safe', env: 'DAO_SAFE_ADDRESS' },
+};
+
+/** A call to propose through a Safe */
+export type SafeCall = {
+    /** Contract called */
+    to: string;
+    /** Shown in the summary, e.g. 'BullaFactoring (fundora)' */
+    contractLabel: string;
+    /** Human-readable ABI fragment, e.g. 'function setUnderwriter(address _newUnderwriter)' */
+    signature: string;
+    args: unknown[];
+    /** Safe that will execute the call */
+    safe: string;
+};
+
+/** Transaction entry of the Transaction Builder JSON format */
+export type SafeBatchTransaction = {
+    to: string;
+    value: string;
+    data: string;
+    contractMethod: {
+        inputs: { internalType: string; name: string; type: string }[];
+        name: string;
+        payable: boolean;
+    };
+    contractInputsValues: Record<string, string>;
+};
+
+/** File format accepted by the Transaction Builder's "Load" button */
+export type SafeBatchFile = {
+    version: '1.0';
+    chainId: string;
+    createdAt: number;
+    meta: {
+        name: string;
+        description: string;
+        txBuilderVersion: string;
+        createdFromSafeAddress: string;
+        createdFromOwnerAddress: string;
+    };
+    transactions: SafeBatchTransaction[];
+};
+
+/** A batch written by this process */
+export type WrittenSafeBatch = {
+    safe: string;
+    /** Transaction Builder JSON */
+    path: string;
+    /** Decoded Markdown summary */
+    summaryPath: string;
+    transactions: number;
+};
+
+const writtenBatches: WrittenSafeBatch[] = [];
+
+/**
+ * Propose with --propose, or PROPOSE=true for scripts run through `hardhat run`, which rejects unknown flags
+ */
+export function isProposeMode(): boolean {
+    return hasFlag('--propose') || process.env.PROPOSE === 'true';
+}
+
+/**
+ * Batches written by this process, in order
+ */
+export function getSafeBatches(): WrittenSafeBatch[] {
+    return [...writtenBatches];
+}
+
+/**
+ * Find the Safe a call must come from: the role's override when set (see SAFE_OVERRIDES), otherwise `owner()` or `bullaDao()` of the contract
+ * An override only applies to its own role, so `--safe` never redirects bullaDao calls.
+ * @throws InputError if the override is not an address
+ */
+export async function resolveSafeAddress(provider: providers.Provider, contractAddress: string, role: SafeRole = 'owner'): Promise<string> {
+    const { flag, env } = SAFE_OVERRIDES[role];
+    const override = getInput(flag, env);
+    if (override) {
+        if (!utils.isAddress(override)) {
+            throw new InputError(`Invalid ${role} Safe address given by ${flag}: ${override}`);
+        }
+        return utils.getAddress(override);
+    }
+
+    const contract = new Contract(contractAddress, [`function ${role}() view returns (address)`], provider);
+    let safe: string;
+    try {
+        safe = await contract[role]();
+    } catch (error) {
+        throw new Error(`Could not read ${role}() of ${contractAddress}: ${(error as Error).message}. Use ${flag} <address>`);
+    }
+
+    if ((await provider.getCode(safe)) === '0x') {
+        console.warn(`⚠️  ${role} of ${contractAddress} is ${safe}, which is not a contract; the batch can only be loaded by a Safe`);
+    }
+    return safe;
+}
+
+function toInputValue(value: unknown): string {
+    // The Transaction Builder takes every input as a string, with arrays and tuples as JSON
+    return Array.isArray(value) ? JSON.stringify(value.map(toInputValue)) : String(value);
+}
+
+function toBatchTransaction(call: SafeCall): SafeBatchTransaction {
+    const iface = new utils.Interface([call.signature]);
+    const fragment = Object.values(iface.functions)[0];
+    const inputs = fragment.inputs.map((input, index) => ({
+        internalType: input.type,
+        name: input.name || `arg${index}`,
+        type: input.type,
+    }));
+
+    return {
+        to: utils.getAddress(call.to),
+        value: '0',
+        data: iface.encodeFunctionData(fragment, call.args),
+        contractMethod: { inputs, name: fragment.name, payable: false },
+        contractInputsValues: inputs.reduce(
+            (values, input, index) => ({ ...values, [input.name]: toInputValue(call.args[index]) }),
+            {} as Record<string, string>,
+        ),
+    };
+}
+
+/**
+ * Build a Transaction Builder batch for calls executed by a single Safe
+ */
+export function buildSafeBatch(network: string, safe: string, name: string, description: string, calls: SafeCall[]): SafeBatchFile {
+    return {
+        version: '1.0',
+        chainId: getNetworkMetadata(network).chainId.toString(),
+        createdAt: Date.now(),
+        meta: {
+            name,
+            description,
+            txBuilderVersion: '1.16.5',
+            createdFromSafeAddress: utils.getAddress(safe),
+            createdFromOwnerAddress: '',
+        },
+        transactions: calls.map(toBatchTransaction),
+    };
+}
+
+/**
+ * Describe a batch for reviewers, decoding each transaction's calldata back into its arguments
+ * Decoding the encoded data (rather than echoing the inputs) shows exactly what the Safe will sign.
+ */
+export function formatSafeBatchSummary(network: string, batch: SafeBatchFile, calls: SafeCall[]): string {
+    const lines = [
+        `# ${batch.meta.name}`,
+        '',
+        batch.meta.description,
+        '',
+        `- Network: ${network} (chainId ${batch.chainId})`,
+        `- Safe: ${batch.meta.createdFromSafeAddress}`,
+        `- Transactions: ${batch.transactions.length}`,
+    ];
+
+    batch.transactions.forEach((tx, index) => {
+        const call = calls[index];
+        const iface = new utils.Interface([call.signature]);
+        const fragment = Object.values(iface.functions)[0];
+        const decoded = iface.decodeFunctionData(fragment, tx.data);
+
+        lines.push('', `## ${index + 1}. ${call.contractLabel}.${fragment.format(utils.FormatTypes.sighash)}`, '');
+        lines.push(`- To: ${tx.to}`);
+        lines.push(`- Value: ${tx.value}`);
+        fragment.inputs.forEach((input, argIndex) => {
+            lines.push(`- ${input.name || `arg${argIndex}`} (${input.type}): ${toInputValue(decoded[argIndex])}`);
+        });
+        lines.push(`- Data: \`${tx.data}\``);
+    });
+
+    return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Write one Transaction Builder batch and summary per Safe, instead of sending the calls
+ * @param name - Batch name, also used in the file names, e.g. 'set-underwriter'
+ */
+export function writeSafeBatches(network: string, name: string, description: string, calls: SafeCall[]): WrittenSafeBatch[] {
+    if (calls.length === 0) {
+        console.log('✅ Nothing to propose');
+        return [];
+    }
+
+    if (!existsSync(SAFE_BATCH_DIR)) {
+        mkdirSync(SAFE_BATCH_DIR, { recursive: true });
+    }
+
+    const bySafe = new Map<string, SafeCall[]>();
+    for (const call of calls) {
+        const safe = utils.getAddress(call.safe);
+        bySafe.set(safe, [...(bySafe.get(safe) || []), call]);
+    }
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const written: WrittenSafeBatch[] = [];
+
+    for (const [safe, safeCalls] of bySafe) {
+        const batch = buildSafeBatch(network, safe, name, description, safeCalls);
+        const summary = formatSafeBatchSummary(network, batch, safeCalls);
+        const baseName = `${network}-${name}-${safe.slice(0, 10)}-${timestamp}`;
+        const path = join(SAFE_BATCH_DIR, `${baseName}.json`);
+        const summaryPath = join(SAFE_BATCH_DIR, `${baseName}.md`);
+
+        writeFileSync(path, `${JSON.stringify(batch, null, 2)}\n`);
+        writeFileSync(summaryPath, summary);
+
+        console.log(`\n📝 Safe batch for ${safe} (${safeCalls.length} transaction(s)):`);
+        console.log(summary);
+        console.log(`💾 Transaction Builder file: ${path}`);
+        console.log(`💾 Summary: ${summaryPath}`);
+
+        written.push({ safe, path, summaryPath, transactions: safeCalls.length });
+    }
+
+    writtenBatches.push(...written);
+    return written;
+}
@@ -0,0 +1,105 @@
+import { getDeployedContracts, getTransactionHashes, readBroadcastSince } from './broadcast';
+import { EXIT_CODES, InputError, isJsonOutput } from './cli';
+import { DryRunPlan, getDryRunPlans } from './dry-run';
+import { getForgeRuns } from './interactive-deploy';
+import { getSafeBatches, WrittenSafeBatch } from './safe-batch';
+
+// Shared launcher wrapper: well-defined exit codes, and a machine-readable result with --json
+
+/** Result printed to stdout with --json */
+export type ScriptResult = {
+    script: string;
+    status: 'success' | 'failed';
+    exitCode: number;
+    network?: string;
+    pool?: string;
+    /** Transactions sent, from the broadcast files of the forge scripts run and by the script itself */
+    txHashes: string[];
+    /** Contracts created, keyed by contract name */
+    addresses: Record<string, string>;
+    /** Plans of the forge scripts simulated with --dry-run */
+    dryRunPlans: DryRunPlan[];
+    /** Safe Transaction Builder batches written with --propose */
+    safeBatches: WrittenSafeBatch[];
+    /** Script-specific results, e.g. the values that were set */
+    details: Record<string, unknown>;
+    error?: string;
+};
+
+/** Filled in by the launcher body as inputs are resolved */
+export type ScriptContext = {
+    network?: string;
+    pool?: string;
+    /** Transactions sent directly rather than through a forge script */
+    txHashes: string[];
+    details: Record<string, unknown>;
+};
+
+/**
+ * Collect what the forge scripts run by this process broadcast
+ */
+function collectBroadcasts(): Pick<ScriptResult, 'txHashes' | 'addresses'> {
+    const txHashes: string[] = [];
+    const addresses: Record<string, string> = {};
+    const seen = new Set<string>();
+
+    for (const run of getForgeRuns().filter(run => !run.dryRun)) {
+        // A script run twice still has a single run-latest.json
+        const key = `${run.network}/${run.scriptName}`;
+        const broadcast = seen.has(key) ? undefined : readBroadcastSince(run.scriptName, run.network, run.startedAt);
+        seen.add(key);
+        if (broadcast) {
+            txHashes.push(...getTransactionHashes(broadcast));
+            Object.assign(addresses, getDeployedContracts(broadcast));
+        }
+    }
+
+    return { txHashes, addresses };
+}
+
+/**
+ * Run a launcher body and exit
+ * Exits with EXIT_CODES.success, EXIT_CODES.invalidInput when an InputError was thrown, or EXIT_CODES.failure otherwise.
+ * With --json all logging goes to stderr and a ScriptResult is printed to stdout.
+ */
+export async function runScript(script: string, body: (context: ScriptContext) => Promise<void>): Promise<void> {
+    const json = isJsonOutput();
+    if (json) {
+        console.log = console.error;
+        console.info = console.error;
+        console.warn = console.error;
+    }
+
+    const context: ScriptContext = { txHashes: [], details: {} };
+    let error: Error | undefined;
+    try {
+        await body(context);
+    } catch (caught) {
+        error = caught as Error;
+    }
+
+    const exitCode = !error ? EXIT_CODES.success : error instanceof InputError ? EXIT_CODES.invalidInput : EXIT_CODES.failure;
+
+    if (!json) {
+        if (error) {
+            console.error(`❌ ${script} failed:`, error.message);
+        }
+        process.exit(exitCode);
+    }
+
+    const { txHashes, addresses } = collectBroadcasts();
+    const result: ScriptResult = {
+        script,
+        status: error ? 'failed' : 'success',
+        exitCode,
+        network: context.network,
+        pool: context.pool,
+        txHashes: [...txHashes, ...context.txHashes],
+        addresses,
+        dryRunPlans: getDryRunPlans(),
+        safeBatches: getSafeBatches(),
+        details: context.details,
+        error: error?.message,
+    };
+    process.stdout.write(`${JSON.stringify(result, null, 2)}\n`, () => process.exit(exitCode));
+}
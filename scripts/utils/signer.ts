@@ -0,0 +1,128 @@
+import { ethers, Wallet } from 'ethers';
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { assertCanPrompt, getInput, InputError } from './cli';
+import { promptHidden } from './interactive-prompt';
+
+// Signer sources shared by the ethers-based scripts and the forge scripts.
+// The private key is never echoed and never passed on the command line.
+
+/** Where `cast wallet import <account>` stores foundry keystores */
+export const FOUNDRY_KEYSTORE_DIR = join(homedir(), '.foundry', 'keystores');
+
+export type SignerSource = 'keystore' | 'account' | 'env' | 'prompt';
+
+export type ResolvedSigner = {
+    source: SignerSource;
+    /** Where the key came from, for logging */
+    description: string;
+    address: string;
+    privateKey: string;
+};
+
+let resolvedSigner: ResolvedSigner | undefined;
+
+/**
+ * Normalise a private key to a 0x-prefixed hex string
+ * @throws InputError if the key is not 64 hex characters
+ */
+export function validatePrivateKey(privateKey: string | undefined): string {
+    if (!privateKey) {
+        throw new InputError('Private key is required');
+    }
+
+    if (!privateKey.match(/^(0x)?[a-fA-F0-9]{64}$/)) {
+        throw new InputError('Invalid private key format. Should be 64 hex characters (with or without 0x prefix)');
+    }
+
+    return privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`;
+}
+
+/**
+ * Read the keystore password from --password-file / ETH_PASSWORD, prompting with masked input when neither is set
+ * Like forge, ETH_PASSWORD is the path of a file holding the password, not the password itself.
+ */
+async function getKeystorePassword(keystoreDescription: string): Promise<string> {
+    const passwordFile = getInput('--password-file', 'ETH_PASSWORD');
+    if (passwordFile) {
+        if (!existsSync(passwordFile)) {
+            throw new InputError(`Password file not found: ${passwordFile}`);
+        }
+        return readFileSync(passwordFile, 'utf8').replace(/\r?\n$/, '');
+    }
+
+    assertCanPrompt(`password for ${keystoreDescription}`, ['--password-file <path>', 'ETH_PASSWORD=<path>']);
+    return promptHidden(`🔒 Password for ${keystoreDescription}:`);
+}
+
+/**
+ * Decrypt an encrypted JSON keystore (as written by geth, `cast wallet import` or ethers)
+ * @throws InputError if the file is missing or the password is wrong
+ */
+async function decryptKeystore(path: string, description: string): Promise<Wallet> {
+    if (!existsSync(path)) {
+        throw new InputError(`Keystore not found: ${path}`);
+    }
+
+    const json = readFileSync(path, 'utf8');
+    const password = await getKeystorePassword(description);
+
+    console.log('🔓 Decrypting keystore...');
+    try {
+        return await Wallet.fromEncryptedJson(json, password);
+    } catch (error) {
+        throw new InputError(`Could not decrypt ${description}: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Resolve the signer, trying in order:
+ * 1. an encrypted JSON keystore from --keystore / ETH_KEYSTORE
+ * 2. a foundry keystore account from --account / ETH_KEYSTORE_ACCOUNT
+ * 3. a private key from DEPLOY_PK
+ * 4. a masked private key prompt
+ * The result is cached, so a flow running several scripts asks only once.
+ */
+export async function resolveSigner(): Promise<ResolvedSigner> {
+    if (resolvedSigner) {
+        return resolvedSigner;
+    }
+
+    let source: SignerSource;
+    let description: string;
+    let privateKey: string;
+
+    const keystorePath = getInput('--keystore', 'ETH_KEYSTORE');
+    const account = getInput('--account', 'ETH_KEYSTORE_ACCOUNT');
+
+    if (keystorePath) {
+        source = 'keystore';
+        description = `keystore ${keystorePath}`;
+        privateKey = (await decryptKeystore(keystorePath, description)).privateKey;
+    } else if (account) {
+        source = 'account';
+        description = `foundry account '${account}'`;
+        privateKey = (await decryptKeystore(join(FOUNDRY_KEYSTORE_DIR, account), description)).privateKey;
+    } else if (process.env.DEPLOY_PK) {
+        source = 'env';
+        description = 'DEPLOY_PK';
+        privateKey = validatePrivateKey(process.env.DEPLOY_PK.trim());
+    } else {
+        assertCanPrompt('signer', ['--keystore <path>', '--account <name>', 'DEPLOY_PK=<private key>']);
+        source = 'prompt';
+        description = 'private key prompt';
+        privateKey = validatePrivateKey(await promptHidden('🔑 Enter your private key:'));
+    }
+
+    resolvedSigner = { source, description, address: ethers.utils.computeAddress(privateKey), privateKey };
+    return resolvedSigner;
+}
+
+/**
+ * Resolve the signer as an ethers Wallet, optionally connected to a provider
+ */
+export async function getSignerWallet(provider?: ethers.providers.Provider): Promise<Wallet> {
+    const { privateKey } = await resolveSigner();
+    return new Wallet(privateKey, provider);
+}
@@ -0,0 +1,151 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { DEPLOY_STATE_DIR } from './deploy-state';
+import { VerifierBackend } from './networks';
+
+// Outcome of every verification attempt, so reruns skip verified contracts and retry only what failed
+
+export const VERIFICATION_LEDGER_PATH = join(DEPLOY_STATE_DIR, 'verification-ledger.json');
+
+/** `unresolved` means the contract could not be matched to a compiled artifact, so nothing was submitted */
+export type VerificationStatus = 'verified' | 'failed' | 'unresolved';
+
+/** Outcome on one verification backend */
+export type BackendVerificationRecord = {
+    status: 'verified' | 'failed';
+    attempts: number;
+    lastError?: string;
+    verifiedAt?: string;
+};
+
+export type VerificationRecord = {
+    chainId: number;
+    address: string;
+    contractName?: string;
+    /** Source path and name submitted to the explorer, e.g. contracts/BullaFactoring.sol:BullaFactoringV2_2 */
+    contractPath?: string;
+    /** `verified` once every backend the last run targeted has verified the contract */
+    status: VerificationStatus;
+    /** Verification attempts across all runs and backends */
+    attempts: number;
+    lastAttemptAt: string;
+    lastError?: string;
+    verifiedAt?: string;
+    /** Outcome per backend; records written before backends were tracked were verified through Etherscan */
+    backends?: Partial<Record<VerifierBackend, BackendVerificationRecord>>;
+};
+
+/** Records keyed by chain ID, then lower-cased address */
+export type VerificationLedger = Record<string, Record<string, VerificationRecord>>;
+
+/**
+ * Read the verification ledger, or an empty one if nothing has been verified yet
+ * @throws Error if the ledger exists but is not valid JSON
+ */
+export function readVerificationLedger(): VerificationLedger {
+    if (!existsSync(VERIFICATION_LEDGER_PATH)) {
+        return {};
+    }
+    try {
+        return JSON.parse(readFileSync(VERIFICATION_LEDGER_PATH, 'utf-8'));
+    } catch (error) {
+        throw new Error(`Verification ledger at ${VERIFICATION_LEDGER_PATH} is not valid JSON: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Atomically write the verification ledger
+ */
+function writeVerificationLedger(ledger: VerificationLedger): void {
+    mkdirSync(DEPLOY_STATE_DIR, { recursive: true });
+    const tempPath = `${VERIFICATION_LEDGER_PATH}.${process.pid}.tmp`;
+    writeFileSync(tempPath, `${JSON.stringify(ledger, null, 4)}\n`, 'utf-8');
+    renameSync(tempPath, VERIFICATION_LEDGER_PATH);
+}
+
+/**
+ * The ledger record of a contract, if verification has been attempted
+ */
+export function getVerificationRecord(chainId: number, address: string): VerificationRecord | undefined {
+    return readVerificationLedger()[chainId.toString()]?.[address.toLowerCase()];
+}
+
+/**
+ * Whether a backend has verified a contract, according to the ledger
+ */
+export function isVerifiedOn(record: VerificationRecord | undefined, backend: VerifierBackend): boolean {
+    if (!record) {
+        return false;
+    }
+    if (!record.backends) {
+        return backend === 'etherscan' && record.status === 'verified';
+    }
+    return record.backends[backend]?.status === 'verified';
+}
+
+/**
+ * Record the outcome of a verification attempt and persist the ledger immediately
+ * Re-reads the ledger first, so attempts finishing in parallel do not overwrite each other.
+ * @param outcome.backend The backend attempted; omitted for unresolved contracts, which were not submitted anywhere
+ * @param outcome.requiredBackends Every backend the run verifies on, which must all succeed for the contract to count as verified
+ */
+export function recordVerificationAttempt(
+    chainId: number,
+    address: string,
+    outcome: {
+        status: VerificationStatus;
+        backend?: VerifierBackend;
+        requiredBackends?: VerifierBackend[];
+        contractName?: string;
+        contractPath?: string;
+        error?: string;
+    },
+): VerificationRecord {
+    const ledger = readVerificationLedger();
+    const chainRecords = (ledger[chainId.toString()] = ledger[chainId.toString()] || {});
+    const previous = chainRecords[address.toLowerCase()];
+    const now = new Date().toISOString();
+
+    const backends = {
+        ...(previous?.backends ||
+            (previous?.status === 'verified' ? { etherscan: { status: 'verified', attempts: previous.attempts } } : {})),
+    };
+    if (outcome.backend && outcome.status !== 'unresolved') {
+        const previousBackend = backends[outcome.backend];
+        backends[outcome.backend] = {
+            status: outcome.status,
+            attempts: (previousBackend?.attempts || 0) + 1,
+            lastError: outcome.status === 'verified' ? undefined : outcome.error,
+            verifiedAt: outcome.status === 'verified' ? now : previousBackend?.verifiedAt,
+        };
+    }
+
+    const required = outcome.requiredBackends || (outcome.backend ? [outcome.backend] : []);
+    const allVerified =
+        outcome.status !== 'unresolved' && required.length > 0 && required.every(backend => backends[backend]?.status === 'verified');
+    const error = outcome.backend && outcome.error ? `${outcome.backend}: ${outcome.error}` : outcome.error;
+
+    const record: VerificationRecord = {
+        chainId,
+        address,
+        contractName: outcome.contractName || previous?.contractName,
+        contractPath: outcome.contractPath || previous?.contractPath,
+        status: outcome.status === 'unresolved' ? 'unresolved' : allVerified ? 'verified' : 'failed',
+        // Unresolved contracts were never submitted, so they do not count as an attempt
+        attempts: (previous?.attempts || 0) + (outcome.status === 'unresolved' ? 0 : 1),
+        lastAttemptAt: now,
+        lastError: allVerified ? undefined : error || previous?.lastError,
+        verifiedAt: allVerified ? previous?.verifiedAt || now : undefined,
+        backends,
+    };
+    chainRecords[address.toLowerCase()] = record;
+    writeVerificationLedger(ledger);
+    return record;
+}
+
+/**
+ * Every contract on a chain that has not been verified yet
+ */
+export function getUnverifiedRecords(chainId: number): VerificationRecord[] {
+    return Object.values(readVerificationLedger()[chainId.toString()] || {}).filter(record => record.status !== 'verified');
+}
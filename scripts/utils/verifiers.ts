@@ -0,0 +1,239 @@
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { VerifierBackend, VerifierConfig } from './networks';
+
+// Source verification backends. Each submits the standard JSON input the contract was compiled from
+// (see buildStandardJsonInput in utils/artifacts.ts), so every service checks exactly what forge compiled.
+
+/** Time between status checks while a service compiles a submission */
+const POLL_INTERVAL_MS = 5000;
+
+/** Overrides POLL_INTERVAL_MS, e.g. to poll the stub server without waiting */
+const POLL_INTERVAL_ENV = 'VERIFIER_POLL_INTERVAL_MS';
+
+/** Status checks before a submission still pending is reported as failed */
+const MAX_POLLS = 24;
+
+/** Time to wait for a response before giving up on a request, which is then retried like any failed submission */
+const REQUEST_TIMEOUT_MS = 60000;
+
+/** Points every backend at one server, e.g. `yarn verify:stub-server`, which serves each backend under /<backend> */
+const API_URL_OVERRIDE_ENV = 'VERIFIER_API_URL';
+
+export type VerificationRequest = {
+    chainId: number;
+    address: string;
+    /** Source path and name, e.g. contracts/BullaFactoring.sol:BullaFactoringV2_2 */
+    contractPath: string;
+    /** Full solc version, e.g. 0.8.30+commit.73712a01 */
+    compilerVersion: string;
+    standardJsonInput: Record<string, any>;
+    /** ABI-encoded constructor arguments, without 0x */
+    encodedArgs?: string;
+};
+
+export type VerificationResult = {
+    success: boolean;
+    error?: string;
+    /** False when retrying cannot help, e.g. the backend's API key is not set */
+    retryable: boolean;
+};
+
+export type Verifier = {
+    backend: VerifierBackend;
+    /** Identifies the API and key, for sharing a rate limit between networks served by the same endpoint */
+    rateLimitKey: string;
+    rateLimitPerSecond?: number;
+    verify(request: VerificationRequest): Promise<VerificationResult>;
+};
+
+type HttpResponse = { status: number; body: any };
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function getPollIntervalMs(): number {
+    const override = process.env[POLL_INTERVAL_ENV];
+    return override && Number.isInteger(Number(override)) && Number(override) >= 0 ? Number(override) : POLL_INTERVAL_MS;
+}
+
+function stillPendingResult(): VerificationResult {
+    return { success: false, error: `Still pending after ${(MAX_POLLS * getPollIntervalMs()) / 1000}s`, retryable: true };
+}
+
+/**
+ * Send an HTTP request and parse the JSON response
+ * Node 16 has no fetch, and ethers' fetchJson only posts JSON, while Etherscan expects a form.
+ */
+function sendRequest(url: URL, method: 'GET' | 'POST', body?: { type: 'json' | 'form'; data: Record<string, any> }): Promise<HttpResponse> {
+    const payload =
+        body && (body.type === 'json' ? JSON.stringify(body.data) : new URLSearchParams(body.data as Record<string, string>).toString());
+    const headers: Record<string, string | number> = { Accept: 'application/json' };
+    if (body && payload !== undefined) {
+        headers['Content-Type'] = body.type === 'json' ? 'application/json' : 'application/x-www-form-urlencoded';
+        headers['Content-Length'] = Buffer.byteLength(payload);
+    }
+
+    return new Promise((resolve, reject) => {
+        const send = url.protocol === 'http:' ? httpRequest : httpsRequest;
+        const req = send(url, { method, headers }, res => {
+            let data = '';
+            res.on('data', chunk => (data += chunk));
+            res.on('end', () => {
+                let parsed: any = data;
+                try {
+                    parsed = JSON.parse(data);
+                } catch {
+                    // Not JSON, e.g. an HTML error page; keep the text for the error message
+                }
+                resolve({ status: res.statusCode || 0, body: parsed });
+            });
+        });
+        req.setTimeout(REQUEST_TIMEOUT_MS, () =>
+            req.destroy(new Error(`No response from ${url.host} within ${REQUEST_TIMEOUT_MS / 1000}s`)),
+        );
+        req.on('error', reject);
+        if (payload !== undefined) {
+            req.write(payload);
+        }
+        req.end();
+    });
+}
+
+/**
+ * Base URL of a backend, or its path on the server set in VERIFIER_API_URL
+ */
+function resolveApiUrl(config: VerifierConfig): string {
+    const override = process.env[API_URL_OVERRIDE_ENV];
+    return override ? `${override.replace(/\/$/, '')}/${config.backend}` : config.apiUrl;
+}
+
+/**
+ * Etherscan and Blockscout: submit through the Etherscan-compatible `verifysourcecode` action, then poll its guid
+ * @param chainIdParam Etherscan V2 serves every chain from one endpoint and selects it with `chainid`
+ */
+async function verifyEtherscanCompatible(
+    config: VerifierConfig,
+    request: VerificationRequest,
+    chainIdParam: boolean,
+): Promise<VerificationResult> {
+    const apiKey = config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined;
+    if (config.backend === 'etherscan' && !apiKey) {
+        return { success: false, error: `No ${config.backend} API key: set ${config.apiKeyEnv}`, retryable: false };
+    }
+
+    const url = (params: Record<string, string>): URL => {
+        const endpoint = new URL(resolveApiUrl(config));
+        if (chainIdParam) {
+            endpoint.searchParams.set('chainid', request.chainId.toString());
+        }
+        for (const [key, value] of Object.entries(params)) {
+            endpoint.searchParams.set(key, value);
+        }
+        return endpoint;
+    };
+
+    const submission = await sendRequest(url({}), 'POST', {
+        type: 'form',
+        data: {
+            ...(apiKey ? { apikey: apiKey } : {}),
+            module: 'contract',
+            action: 'verifysourcecode',
+            contractaddress: request.address,
+            sourceCode: JSON.stringify(request.standardJsonInput),
+            codeformat: 'solidity-standard-json-input',
+            contractname: request.contractPath,
+            compilerversion: `v${request.compilerVersion}`,
+            // Misspelled in the Etherscan API itself
+            constructorArguements: request.encodedArgs || '',
+        },
+    });
+
+    const submitted = submission.body || {};
+    if (submitted.status !== '1') {
+        const message = String(submitted.result || submitted.message || `HTTP ${submission.status}`);
+        if (/already verified/i.test(message)) {
+            return { success: true, retryable: false };
+        }
+        return { success: false, error: message, retryable: !/invalid api.?key/i.test(message) };
+    }
+
+    for (let poll = 0; poll < MAX_POLLS; poll++) {
+        await sleep(getPollIntervalMs());
+        const status = await sendRequest(
+            url({ module: 'contract', action: 'checkverifystatus', guid: submitted.result, ...(apiKey ? { apikey: apiKey } : {}) }),
+            'GET',
+        );
+        const result = String(status.body?.result || '');
+        if (/pending|in queue/i.test(result)) {
+            continue;
+        }
+        if (status.body?.status === '1' || /already verified/i.test(result)) {
+            return { success: true, retryable: false };
+        }
+        return { success: false, error: result || `HTTP ${status.status}`, retryable: true };
+    }
+    return stillPendingResult();
+}
+
+/**
+ * Sourcify: submit to the v2 verify endpoint, then poll the verification job
+ * Sourcify reads the constructor arguments from the creation transaction, so none are sent.
+ */
+async function verifySourcify(config: VerifierConfig, request: VerificationRequest): Promise<VerificationResult> {
+    const apiUrl = resolveApiUrl(config).replace(/\/$/, '');
+    const submission = await sendRequest(new URL(`${apiUrl}/v2/verify/${request.chainId}/${request.address}`), 'POST', {
+        type: 'json',
+        data: {
+            stdJsonInput: request.standardJsonInput,
+            compilerVersion: request.compilerVersion,
+            contractIdentifier: request.contractPath,
+        },
+    });
+
+    if (submission.status === 409) {
+        return { success: true, retryable: false };
+    }
+    if (submission.status !== 202 || !submission.body?.verificationId) {
+        const message = submission.body?.message || `HTTP ${submission.status}`;
+        return { success: false, error: message, retryable: submission.status === 429 || submission.status >= 500 };
+    }
+
+    for (let poll = 0; poll < MAX_POLLS; poll++) {
+        await sleep(getPollIntervalMs());
+        const job = (await sendRequest(new URL(`${apiUrl}/v2/verify/${submission.body.verificationId}`), 'GET')).body || {};
+        if (!job.isJobCompleted) {
+            continue;
+        }
+        if (job.contract?.match) {
+            return { success: true, retryable: false };
+        }
+        return { success: false, error: job.error?.message || 'Sourcify found no match', retryable: false };
+    }
+    return stillPendingResult();
+}
+
+/**
+ * Create the verifier for a configured backend
+ */
+export function createVerifier(config: VerifierConfig): Verifier {
+    const verify = (request: VerificationRequest): Promise<VerificationResult> => {
+        switch (config.backend) {
+            case 'etherscan':
+                return verifyEtherscanCompatible(config, request, true);
+            case 'blockscout':
+                return verifyEtherscanCompatible(config, request, false);
+            case 'sourcify':
+                return verifySourcify(config, request);
+        }
+    };
+
+    return {
+        backend: config.backend,
+        rateLimitKey: `${config.backend}|${config.apiUrl}|${config.apiKeyEnv || ''}`,
+        rateLimitPerSecond: config.rateLimitPerSecond,
+        // Network errors are worth retrying; the request itself never throws
+        verify: request => verify(request).catch(error => ({ success: false, error: (error as Error).message, retryable: true })),
+    };
+}
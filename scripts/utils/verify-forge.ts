@@ -1,200 +1,325 @@
-import { spawn, execSync } from 'child_process';
-import { existsSync, readFileSync, readdirSync } from 'fs';
-import { join } from 'path';
-import { getChainId } from '../network-config';
+import { utils } from 'ethers';
+import { existsSync } from 'fs';
+import { buildStandardJsonInput, findForgeArtifact, identifyCreation, LocatedForgeArtifact } from './artifacts';
+import { Broadcast, getLatestBroadcastPath, readAllBroadcasts, readLatestBroadcast } from './broadcast';
+import { getNetworkMetadata, getVerifiers, VerifierBackend } from './networks';
+import { getUnverifiedRecords, getVerificationRecord, isVerifiedOn, recordVerificationAttempt } from './verification-ledger';
+import { createVerifier, VerificationRequest, VerificationResult, Verifier } from './verifiers';
+
+/** API calls one verification makes before polling: the submission and its first status check */
+const CALLS_PER_VERIFICATION = 2;
+
+const DEFAULT_RATE_LIMIT_PER_SECOND = 5;
+
+/** Time each verifier API key is next free to start a verification, shared by all runs in the process */
+const verifierNextStart = new Map<string, number>();
+
+export type VerificationOptions = {
+    /** Verifications running at once (default: 2) */
+    concurrency?: number;
+    /** Attempts per contract in this run before it is left for the next one (default: 3) */
+    maxAttempts?: number;
+    /** Delay before the first retry, doubled on every further retry (default: 15s) */
+    retryDelayMs?: number;
+    /** Only verify on these of the network's backends (default: all of them) */
+    backends?: VerifierBackend[];
+};
 
-/**
- * Constructor signatures for ABI encoding
- */
-const CONSTRUCTOR_SIGNATURES: Record<string, string> = {
-    BullaFactoringFactoryV2_1: 'constructor(address,address,address,address,uint16)',
-    BullaFactoringV2_1: 'constructor(address,address,address,address,address,address,address,address,uint16,uint16,string,uint16,string,string)',
-    BullaFactoringV2_2: 'constructor(address,address,address,address,address,address,address,address,uint16,uint16,string,uint16,string,string,address,uint16,uint16,uint16)',
-    FactoringPermissions: 'constructor(address)',
-    DepositPermissions: 'constructor(address)',
-    Permissions: 'constructor(address)',
-    RedemptionQueue: 'constructor()',
-    FactoringFundManager: 'constructor(address,address,address)',
-    BullaKycGate: 'constructor()',
-    ComplianceDepositPermissions: 'constructor(address,address,address)',
-    SumsubKycIssuer: 'constructor(address)',
-    AgreementSignatureRepo: 'constructor(address)',
+export type VerificationRunSummary = {
+    verified: string[];
+    /** Verified by an earlier run, per the ledger */
+    alreadyVerified: string[];
+    failed: string[];
+    unresolved: string[];
 };
 
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
 /**
- * ABI-encode constructor arguments using cast
- * @param contractName Name of the contract
- * @param args Constructor arguments
- * @returns ABI-encoded constructor arguments or null if encoding fails
+ * Wait until a verifier can take another verification without exceeding its API rate limit
  */
-function abiEncodeConstructorArgs(contractName: string, args: string[]): string | null {
-    const signature = CONSTRUCTOR_SIGNATURES[contractName];
-    if (!signature) {
-        console.log(`⚠️  No constructor signature defined for: ${contractName}`);
-        return null;
-    }
+async function waitForVerifier(verifier: Verifier): Promise<void> {
+    // Etherscan V2 serves every chain from one endpoint, so the limit is per API key rather than per network
+    const interval = (CALLS_PER_VERIFICATION * 1000) / (verifier.rateLimitPerSecond || DEFAULT_RATE_LIMIT_PER_SECOND);
+
+    const now = Date.now();
+    const start = Math.max(now, verifierNextStart.get(verifier.rateLimitKey) || 0);
+    verifierNextStart.set(verifier.rateLimitKey, start + interval);
+    await sleep(start - now);
+}
 
-    try {
-        // Use cast abi-encode to encode the arguments
-        const castCmd = `cast abi-encode "${signature}" ${args.map(a => `"${a}"`).join(' ')}`;
-        const encoded = execSync(castCmd, { encoding: 'utf8' }).trim();
-        return encoded;
-    } catch (error) {
-        console.error(`❌ Failed to ABI-encode constructor args for ${contractName}:`, (error as Error).message);
-        return null;
+/**
+ * The verifiers a run uses on a network
+ * @param backends Only these of the network's configured backends; all of them when omitted
+ * @throws Error if a requested backend is not configured for the network
+ */
+export function getNetworkVerifiers(network: string, backends?: VerifierBackend[]): Verifier[] {
+    const configured = getVerifiers(network);
+    const unknown = (backends || []).filter(backend => !configured.some(config => config.backend === backend));
+    if (unknown.length > 0) {
+        throw new Error(
+            `Verifier(s) not configured for ${network}: ${unknown.join(', ')}. Available: ${
+                configured.map(config => config.backend).join(', ') || 'none'
+            }`,
+        );
     }
+    return configured.filter(config => !backends || backends.includes(config.backend)).map(createVerifier);
 }
 
-export interface BroadcastTransaction {
-    hash: string;
-    transactionType: string;
-    contractName: string;
-    contractAddress: string;
-    function: any;
-    arguments: any;
+/**
+ * Split a forge-formatted array or tuple, e.g. "[0xabc, 0xdef]" or "(1, \"a, b\")", into its top-level elements
+ */
+function splitBroadcastList(value: string): string[] {
+    const inner = value.trim().slice(1, -1);
+    const elements: string[] = [];
+    let depth = 0;
+    let inString = false;
+    let current = '';
+
+    for (let i = 0; i < inner.length; i++) {
+        const char = inner[i];
+        if (char === '"' && inner[i - 1] !== '\\') {
+            inString = !inString;
+        } else if (!inString && (char === '[' || char === '(')) {
+            depth++;
+        } else if (!inString && (char === ']' || char === ')')) {
+            depth--;
+        } else if (!inString && depth === 0 && char === ',') {
+            elements.push(current.trim());
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+    if (current.trim() !== '') {
+        elements.push(current.trim());
+    }
+    return elements;
 }
 
-export interface BroadcastFile {
-    transactions: BroadcastTransaction[];
-    receipts: any[];
+/**
+ * Convert a constructor argument as forge records it in a broadcast into a value ethers can encode
+ * Top-level strings are written bare; strings nested in arrays and tuples are quoted.
+ * @param nested Whether the value came from inside an array or tuple
+ */
+function parseBroadcastArgument(param: utils.ParamType, value: string, nested = false): any {
+    if (param.baseType === 'array') {
+        return splitBroadcastList(value).map(element => parseBroadcastArgument(param.arrayChildren, element, true));
+    }
+    if (param.baseType === 'tuple') {
+        const elements = splitBroadcastList(value);
+        return param.components.map((component, i) => parseBroadcastArgument(component, elements[i], true));
+    }
+    if (param.baseType === 'bool') {
+        return value === 'true';
+    }
+    if (param.baseType === 'string' && nested && value.startsWith('"') && value.endsWith('"')) {
+        return JSON.parse(value);
+    }
+    return value;
 }
 
 /**
- * Reads the latest broadcast file for a given script and network
- * @param scriptName Name of the script (e.g., "DeployBullaFactoring.s.sol")
- * @param network Network name
- * @returns Parsed broadcast data or null if not found
+ * ABI-encode constructor arguments from a contract's compiled ABI
+ * @param abi ABI from the contract's forge artifact
+ * @param args Constructor arguments as recorded in the broadcast
+ * @returns ABI-encoded constructor arguments, without 0x
+ * @throws Error if the arguments do not match the constructor
  */
-export function readLatestBroadcast(scriptName: string, network: string): BroadcastFile | null {
-    try {
-        const chainId = getChainId(network);
-        const broadcastPath = `broadcast/${scriptName}/${chainId}/run-latest.json`;
+export function encodeConstructorArgs(abi: any[], args: string[]): string {
+    const contractInterface = new utils.Interface(abi);
+    const inputs = contractInterface.deploy.inputs;
+    if (inputs.length !== args.length) {
+        throw new Error(`Constructor takes ${inputs.length} argument(s), broadcast has ${args.length}`);
+    }
 
-        if (!existsSync(broadcastPath)) {
-            console.log(`⚠️  No broadcast file found at: ${broadcastPath}`);
-            return null;
-        }
+    const values = inputs.map((input, i) => parseBroadcastArgument(input, args[i]));
+    return utils.defaultAbiCoder.encode(inputs, values).slice(2);
+}
 
-        const broadcastData = readFileSync(broadcastPath, 'utf8');
-        return JSON.parse(broadcastData) as BroadcastFile;
-    } catch (error) {
-        console.error('❌ Error reading broadcast file:', (error as Error).message);
-        return null;
+/**
+ * Verify a contract on one backend
+ * @returns Promise that resolves with the outcome; it never rejects, so a failure doesn't stop deployment
+ */
+export async function verifyContract(verifier: Verifier, request: VerificationRequest): Promise<VerificationResult> {
+    const label = `${request.contractPath.split(':').pop()} at ${request.address}`;
+    console.log(`\n🔍 Verifying ${label} on ${verifier.backend}...`);
+
+    const result = await verifier.verify(request);
+    if (result.success) {
+        console.log(`✅ Verified ${label} on ${verifier.backend}`);
+    } else {
+        console.error(`❌ Verification of ${label} on ${verifier.backend} failed: ${result.error}`);
     }
+    return result;
 }
 
 /**
- * Reads all broadcast files for a given script and network
- * @param scriptName Name of the script (e.g., "DeployBullaFactoring.s.sol")
- * @param network Network name
- * @returns Array of parsed broadcast data
+ * Collect every unique contract created by a script's broadcasts
+ * @param allBroadcasts If true, reads all broadcasts; if false, only the latest
  */
-export function readAllBroadcasts(scriptName: string, network: string): BroadcastFile[] {
-    try {
-        const chainId = getChainId(network);
-        const broadcastDir = `broadcast/${scriptName}/${chainId}`;
-
-        if (!existsSync(broadcastDir)) {
-            console.log(`⚠️  No broadcast directory found at: ${broadcastDir}`);
-            return [];
-        }
+export function collectBroadcastDeployments(scriptName: string, network: string, allBroadcasts = false): ContractDeployment[] {
+    let broadcasts: Broadcast[];
+    if (allBroadcasts) {
+        broadcasts = readAllBroadcasts(scriptName, network);
+    } else {
+        broadcasts = existsSync(getLatestBroadcastPath(scriptName, network)) ? [readLatestBroadcast(scriptName, network)] : [];
+    }
 
-        const files = readdirSync(broadcastDir);
-        const runFiles = files.filter(file => file.startsWith('run-') && file.endsWith('.json'));
+    // Keyed by address to avoid duplicates
+    const allDeployments = new Map<string, ContractDeployment>();
 
-        const broadcasts: BroadcastFile[] = [];
+    for (const broadcast of broadcasts) {
+        for (const tx of broadcast.transactions) {
+            if (tx.transactionType === 'CREATE' && tx.contractName && tx.contractAddress) {
+                allDeployments.set(tx.contractAddress.toLowerCase(), {
+                    contractName: tx.contractName,
+                    contractAddress: tx.contractAddress,
+                    constructorArgs: tx.arguments || [],
+                });
+            }
 
-        for (const file of runFiles) {
-            try {
-                const filePath = join(broadcastDir, file);
-                const broadcastData = readFileSync(filePath, 'utf8');
-                broadcasts.push(JSON.parse(broadcastData) as BroadcastFile);
-            } catch (error) {
-                console.log(`⚠️  Error reading broadcast file ${file}:`, (error as Error).message);
+            // Contracts created inside another contract's constructor are recorded by init code only
+            for (const created of tx.additionalContracts || []) {
+                if (created.transactionType === 'CREATE' && !allDeployments.has(created.address.toLowerCase())) {
+                    allDeployments.set(created.address.toLowerCase(), { contractAddress: created.address, initCode: created.initCode });
+                }
             }
         }
-
-        return broadcasts;
-    } catch (error) {
-        console.error('❌ Error reading broadcast directory:', (error as Error).message);
-        return [];
     }
+
+    return Array.from(allDeployments.values());
 }
 
 /**
- * Verifies a contract using forge verify-contract command
- * @param contractAddress Contract address to verify
- * @param contractPath Contract path in format "contracts/Contract.sol:ContractName"
- * @param contractName Name of the contract (for constructor signature lookup)
- * @param network Network name
- * @param constructorArgs Optional array of constructor arguments
- * @returns Promise that resolves when verification completes
+ * Verify contracts on every backend of a network, recording every outcome in the verification ledger
+ * Contracts the ledger lists as verified on a backend are skipped there. Failures go back on the queue and are retried with
+ * exponential backoff, at most `concurrency` at a time and spaced to stay within each backend's API rate limit.
+ * A backend that fails in a way retrying cannot fix, such as a missing API key, is dropped for the rest of the run.
  */
-export function verifyContract(
-    contractAddress: string,
-    contractPath: string,
-    contractName: string,
+export async function verifyDeployments(
     network: string,
-    constructorArgs?: string[],
-): Promise<void> {
-    return new Promise(resolve => {
-        // Build forge verify command
-        // API key is read from foundry.toml [etherscan] section
-        const verifyArgs = [
-            'verify-contract',
-            contractAddress,
-            contractPath,
-            '--chain',
-            network, // Use network name (e.g., "sepolia")
-            '--watch',
-        ];
-
-        // Add ABI-encoded constructor arguments if provided
-        let encodedArgs: string | null = null;
-        if (constructorArgs && constructorArgs.length > 0) {
-            encodedArgs = abiEncodeConstructorArgs(contractName, constructorArgs);
-            if (encodedArgs) {
-                verifyArgs.push('--constructor-args');
-                verifyArgs.push(encodedArgs);
-            }
+    deployments: ContractDeployment[],
+    options: VerificationOptions = {},
+): Promise<VerificationRunSummary> {
+    const { concurrency = 2, maxAttempts = 3, retryDelayMs = 15000 } = options;
+    const { chainId } = getNetworkMetadata(network);
+    const verifiers = getNetworkVerifiers(network, options.backends);
+    const requiredBackends = verifiers.map(verifier => verifier.backend);
+    const summary: VerificationRunSummary = { verified: [], alreadyVerified: [], failed: [], unresolved: [] };
+    const label = (deployment: ContractDeployment, backend?: VerifierBackend): string =>
+        `${deployment.contractName || 'unknown'} at ${deployment.contractAddress}${backend ? ` (${backend})` : ''}`;
+
+    const queue: {
+        deployment: ContractDeployment;
+        request: VerificationRequest;
+        verifier: Verifier;
+        attempt: number;
+        notBefore: number;
+    }[] = [];
+    for (const deployment of deployments) {
+        const record = getVerificationRecord(chainId, deployment.contractAddress);
+        const pending = verifiers.filter(verifier => !isVerifiedOn(record, verifier.backend));
+        const known = { ...deployment, contractName: deployment.contractName || record?.contractName };
+        summary.alreadyVerified.push(
+            ...verifiers.filter(verifier => !pending.includes(verifier)).map(verifier => label(known, verifier.backend)),
+        );
+        if (pending.length === 0) {
+            continue;
         }
 
-        console.log('\n🔍 Verifying contract on block explorer...');
-        console.log(`📄 Contract: ${contractPath}`);
-        console.log(`📍 Address: ${contractAddress}`);
-        console.log(`🌐 Network: ${network}`);
-        if (constructorArgs && constructorArgs.length > 0) {
-            console.log(`🔧 Constructor args: ${constructorArgs.join(', ')}`);
-            if (encodedArgs) {
-                console.log(`🔐 Encoded args: ${encodedArgs.substring(0, 66)}...`);
-            }
+        try {
+            const request = resolveVerificationTarget(deployment, chainId);
+            // Named after the compiled contract, which is known even for contracts created by another contract
+            const resolved = { ...deployment, contractName: request.contractPath.split(':').pop() };
+            queue.push(...pending.map(verifier => ({ deployment: resolved, request, verifier, attempt: 1, notBefore: 0 })));
+        } catch (error) {
+            console.log(`⚠️  Skipping ${deployment.contractName || deployment.contractAddress}: ${(error as Error).message}`);
+            recordVerificationAttempt(chainId, deployment.contractAddress, {
+                status: 'unresolved',
+                contractName: deployment.contractName,
+                error: (error as Error).message,
+            });
+            summary.unresolved.push(label(deployment));
         }
+    }
 
-        const forgeProcess = spawn('forge', verifyArgs, {
-            stdio: 'inherit',
-            cwd: process.cwd(),
-        });
+    if (summary.alreadyVerified.length > 0) {
+        console.log(`⏭️  ${summary.alreadyVerified.length} verification(s) already done according to the ledger`);
+    }
 
-        forgeProcess.on('close', code => {
-            if (code === 0) {
-                console.log('✅ Contract verification completed successfully!');
+    const disabled = new Map<VerifierBackend, string>();
+    const worker = async (): Promise<void> => {
+        while (queue.length > 0) {
+            // Take the entry that becomes due first, so a backing-off retry doesn't hold up new contracts
+            queue.sort((a, b) => a.notBefore - b.notBefore);
+            const entry = queue.shift()!;
+            const { deployment, request, verifier } = entry;
+            const name = label(deployment, verifier.backend);
+
+            let result: VerificationResult;
+            if (disabled.has(verifier.backend)) {
+                result = { success: false, error: disabled.get(verifier.backend), retryable: false };
             } else {
-                console.error(`❌ Contract verification failed with exit code ${code}`);
+                await sleep(entry.notBefore - Date.now());
+                await waitForVerifier(verifier);
+                result = await verifyContract(verifier, request);
             }
-            // Always resolve - verification failure shouldn't stop deployment
-            resolve();
-        });
 
-        forgeProcess.on('error', error => {
-            if ((error as any).code === 'ENOENT') {
-                console.error('❌ Forge not found. Make sure Foundry is installed and in your PATH.');
+            recordVerificationAttempt(chainId, deployment.contractAddress, {
+                status: result.success ? 'verified' : 'failed',
+                backend: verifier.backend,
+                requiredBackends,
+                contractName: deployment.contractName,
+                contractPath: request.contractPath,
+                error: result.error,
+            });
+
+            if (result.success) {
+                summary.verified.push(name);
+            } else if (!result.retryable) {
+                if (!disabled.has(verifier.backend)) {
+                    console.log(`⏭️  Skipping ${verifier.backend} for the rest of this run`);
+                    disabled.set(verifier.backend, result.error || 'failed');
+                }
+                summary.failed.push(name);
+            } else if (entry.attempt < maxAttempts) {
+                const delay = retryDelayMs * 2 ** (entry.attempt - 1);
+                console.log(`🔁 Retrying ${name} in ${Math.round(delay / 1000)}s (attempt ${entry.attempt + 1}/${maxAttempts})`);
+                queue.push({ ...entry, attempt: entry.attempt + 1, notBefore: Date.now() + delay });
             } else {
-                console.error('❌ Failed to start forge verify:', error.message);
+                summary.failed.push(name);
             }
-            // Always resolve - verification failure shouldn't stop deployment
-            resolve();
-        });
-    });
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, queue.length)) }, worker));
+    return summary;
+}
+
+/**
+ * Print the contracts on a network the ledger does not list as verified, with the reason
+ */
+export function printUnverifiedContracts(network: string): void {
+    const unverified = getUnverifiedRecords(getNetworkMetadata(network).chainId);
+    if (unverified.length === 0) {
+        console.log(`\n✅ Every contract recorded on ${network} is verified`);
+        return;
+    }
+
+    console.log(`\n⚠️  ${unverified.length} contract(s) on ${network} are still unverified:`);
+    for (const record of unverified) {
+        const attempts = record.status === 'unresolved' ? 'not submitted' : `${record.attempts} attempt(s)`;
+        console.log(`   • ${record.contractName || 'unknown'} at ${record.address} (${attempts})`);
+        const backendErrors = Object.entries(record.backends || {})
+            .filter(([, backend]) => backend?.status === 'failed')
+            .map(([name, backend]) => `${name}: ${backend?.lastError || 'failed'}`);
+        for (const error of backendErrors.length > 0 ? backendErrors : [record.lastError].filter(Boolean)) {
+            console.log(`     ${error}`);
+        }
+    }
 }
 
 /**
@@ -204,71 +329,35 @@ export function verifyContract(
  * @param allBroadcasts If true, verifies all broadcasts; if false, only latest (default: false)
  * @returns Promise that resolves when all verifications complete
  */
-export async function verifyBroadcastContracts(scriptName: string, network: string, allBroadcasts = false): Promise<void> {
+export async function verifyBroadcastContracts(
+    scriptName: string,
+    network: string,
+    allBroadcasts = false,
+    options?: VerificationOptions,
+): Promise<void> {
+    if (getVerifiers(network).length === 0) {
+        console.log(`\n⏭️  ${network} has no verification backend. Skipping verification.`);
+        return;
+    }
+
     console.log(`\n🔍 Starting contract verification from ${allBroadcasts ? 'all' : 'latest'} broadcast files...`);
 
     try {
-        const broadcasts = allBroadcasts
-            ? readAllBroadcasts(scriptName, network)
-            : ([readLatestBroadcast(scriptName, network)].filter(Boolean) as BroadcastFile[]);
-
-        if (broadcasts.length === 0) {
-            console.log('⚠️  No broadcast data found. Skipping verification.');
+        const deployments = collectBroadcastDeployments(scriptName, network, allBroadcasts);
+        if (deployments.length === 0) {
+            console.log('⚠️  No contract deployments found in broadcast files. Skipping verification.');
             return;
         }
 
-        // Collect all unique contract deployments across all broadcasts
-        const allDeployments = new Map<string, { contractName: string; contractAddress: string; constructorArgs?: string[] }>();
-
-        for (const broadcast of broadcasts) {
-            const contractDeployments = broadcast.transactions.filter(
-                tx => tx.transactionType === 'CREATE' && tx.contractName && tx.contractAddress,
-            );
-
-            for (const deployment of contractDeployments) {
-                // Use address as key to avoid duplicates
-                allDeployments.set(deployment.contractAddress, {
-                    contractName: deployment.contractName,
-                    contractAddress: deployment.contractAddress,
-                    constructorArgs: deployment.arguments as string[] | undefined,
-                });
-            }
-        }
-
-        if (allDeployments.size === 0) {
-            console.log('⚠️  No contract deployments found in broadcast files.');
-            return;
-        }
-
-        console.log(
-            `📋 Found ${allDeployments.size} unique contract(s) to verify${
-                allBroadcasts ? ` across ${broadcasts.length} broadcast(s)` : ''
-            }:`,
-        );
-
-        const deploymentList = Array.from(allDeployments.values());
-
-        for (const deployment of deploymentList) {
+        console.log(`📋 Found ${deployments.length} unique contract(s) to verify:`);
+        for (const deployment of deployments) {
             const argsInfo = deployment.constructorArgs?.length ? ` (${deployment.constructorArgs.length} constructor args)` : '';
-            console.log(`   • ${deployment.contractName} at ${deployment.contractAddress}${argsInfo}`);
-        }
-
-        // Verify each unique contract
-        for (const deployment of deploymentList) {
-            const contractPath = getContractPath(deployment.contractName);
-            if (contractPath) {
-                await verifyContract(
-                    deployment.contractAddress,
-                    contractPath,
-                    deployment.contractName,
-                    network,
-                    deployment.constructorArgs,
-                );
-            } else {
-                console.log(`⚠️  Unknown contract path for: ${deployment.contractName}`);
-            }
+            const name = deployment.contractName || 'contract created by another deployment';
+            console.log(`   • ${name} at ${deployment.contractAddress}${argsInfo}`);
         }
 
+        await verifyDeployments(network, deployments, options);
+        printUnverifiedContracts(network);
         console.log('✅ Contract verification process completed!');
     } catch (error) {
         console.error('❌ Error during contract verification:', (error as Error).message);
@@ -276,25 +365,43 @@ export async function verifyBroadcastContracts(scriptName: string, network: stri
     }
 }
 
+/** A contract created by a broadcast, either by a transaction or inside another contract's constructor */
+export type ContractDeployment = {
+    contractAddress: string;
+    /** Missing for contracts created inside another contract's constructor */
+    contractName?: string;
+    constructorArgs?: string[];
+    /** Creation bytecode followed by the encoded constructor arguments, for contracts without a name */
+    initCode?: string;
+};
+
 /**
- * Maps contract names to their full paths
- * @param contractName Name of the contract
- * @returns Full contract path or null if unknown
+ * Build the verification request for a deployment from the compiled artifacts
+ * @throws Error if the contract is not among the compiled artifacts, e.g. a version whose source has since been removed
  */
-function getContractPath(contractName: string): string | null {
-    const contractPaths: Record<string, string> = {
-        BullaFactoringV2_1: 'contracts/BullaFactoring.sol:BullaFactoringV2_1',
-        BullaFactoringV2_2: 'contracts/BullaFactoring.sol:BullaFactoringV2_2',
-        BullaFactoringFactoryV2_1: 'contracts/BullaFactoringFactoryV2_1.sol:BullaFactoringFactoryV2_1',
-        BullaClaimV2InvoiceProviderAdapterV2: 'contracts/BullaClaimV2InvoiceProviderAdapterV2.sol:BullaClaimV2InvoiceProviderAdapterV2',
-        BullaClaimV1InvoiceProviderAdapterV2: 'contracts/BullaClaimV1InvoiceProviderAdapterV2.sol:BullaClaimV1InvoiceProviderAdapterV2',
-        DepositPermissions: 'contracts/DepositPermissions.sol:DepositPermissions',
-        FactoringPermissions: 'contracts/FactoringPermissions.sol:FactoringPermissions',
-        Permissions: 'contracts/Permissions.sol:Permissions',
-        PermissionsFactory: 'contracts/PermissionsFactory.sol:PermissionsFactory',
-        RedemptionQueue: 'contracts/RedemptionQueue.sol:RedemptionQueue',
-        FactoringFundManager: 'contracts/FactoringFundManager.sol:FactoringFundManager',
-    };
+function resolveVerificationTarget(deployment: ContractDeployment, chainId: number): VerificationRequest {
+    let located: LocatedForgeArtifact;
+    let encodedArgs: string | undefined;
+    if (deployment.contractName) {
+        located = findForgeArtifact(deployment.contractName);
+        const args = deployment.constructorArgs || [];
+        encodedArgs = args.length > 0 ? encodeConstructorArgs(located.artifact.abi, args) : undefined;
+    } else {
+        const identified = identifyCreation(deployment.initCode || '0x');
+        if (!identified) {
+            throw new Error('init code does not match any compiled contract');
+        }
+        located = identified.located;
+        encodedArgs = identified.encodedArgs.length > 2 ? identified.encodedArgs.slice(2) : undefined;
+    }
 
-    return contractPaths[contractName] || null;
+    const { compilerVersion, input } = buildStandardJsonInput(located);
+    return {
+        chainId,
+        address: deployment.contractAddress,
+        contractPath: `${located.sourcePath}:${located.contractName}`,
+        compilerVersion,
+        standardJsonInput: input,
+        encodedArgs,
+    };
 }
@@ -0,0 +1,220 @@
+import { utils } from 'ethers';
+import {
+    getAvailableNetworks,
+    getAvailablePools,
+    getConfig,
+    getDeployedPoolConfig,
+    getInsuranceParamsErrors,
+    getNetworkOnlyConfig,
+    getPoolConfigs,
+    PoolConfig,
+} from './network-config';
+import { hasFlag } from './utils/cli';
+import { runScript } from './utils/script-runner';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ConfigIssueSeverity = 'error' | 'warning';
+
+export type ConfigIssue = {
+    severity: ConfigIssueSeverity;
+    /** Where the problem is, e.g. "polygon", "polygon/tcs" or "pool tcs" */
+    scope: string;
+    message: string;
+};
+
+/** Basis points are stored as uint16 on-chain and every fee/yield setter caps them at 100% */
+const MAX_BPS = 10000;
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const BPS_FIELDS: (keyof PoolConfig)[] = ['protocolFeeBps', 'adminFeeBps', 'targetYieldBps'];
+
+/**
+ * Roles that are allowed to share an address
+ * DeployBullaFactoring.s.sol reuses DepositPermissions as RedeemPermissions when none is given.
+ */
+const ALLOWED_SHARED_ROLES: string[][] = [['depositPermissionsAddress', 'redeemPermissionsAddress']];
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+function isAddressField(value: unknown): value is string {
+    return typeof value === 'string' && /^0x[0-9a-fA-F]{40}$/.test(value);
+}
+
+function rolesMayShare(roles: string[]): boolean {
+    return ALLOWED_SHARED_ROLES.some(allowed => roles.every(role => allowed.includes(role)));
+}
+
+/**
+ * Check checksum validity and zero addresses for every address-valued field
+ */
+function checkAddresses(scope: string, fields: Record<string, unknown>): ConfigIssue[] {
+    const issues: ConfigIssue[] = [];
+
+    for (const [field, value] of Object.entries(fields)) {
+        if (!isAddressField(value)) {
+            continue;
+        }
+
+        if (value === ZERO_ADDRESS) {
+            issues.push({ severity: 'error', scope, message: `${field} is the zero address` });
+            continue;
+        }
+
+        let checksummed: string;
+        try {
+            checksummed = utils.getAddress(value);
+        } catch {
+            // Mixed case that fails EIP-55 almost always means a mistyped character
+            issues.push({ severity: 'error', scope, message: `${field} has an invalid checksum: ${value}` });
+            continue;
+        }
+
+        if (checksummed !== value) {
+            issues.push({ severity: 'warning', scope, message: `${field} is not checksummed: ${value} (expected ${checksummed})` });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Check that one address is not configured for two different roles
+ */
+function checkDuplicateRoles(scope: string, fields: Record<string, unknown>): ConfigIssue[] {
+    const rolesByAddress = new Map<string, string[]>();
+
+    for (const [field, value] of Object.entries(fields)) {
+        if (!isAddressField(value) || value === ZERO_ADDRESS) {
+            continue;
+        }
+        const key = value.toLowerCase();
+        rolesByAddress.set(key, [...(rolesByAddress.get(key) || []), field]);
+    }
+
+    const issues: ConfigIssue[] = [];
+    rolesByAddress.forEach((roles, address) => {
+        if (roles.length > 1 && !rolesMayShare(roles)) {
+            issues.push({ severity: 'error', scope, message: `${address} is used for multiple roles: ${roles.join(', ')}` });
+        }
+    });
+    return issues;
+}
+
+/**
+ * Check that every bps value is a whole number between 0 and 10000
+ */
+function checkBps(scope: string, config: PoolConfig): ConfigIssue[] {
+    return BPS_FIELDS.filter(field => !Number.isInteger(config[field]) || config[field] < 0 || config[field] > MAX_BPS).map(field => ({
+        severity: 'error' as ConfigIssueSeverity,
+        scope,
+        message: `${field} must be an integer between 0 and ${MAX_BPS}, got ${config[field]}`,
+    }));
+}
+
+/**
+ * Validate every network and network/pool combination in the configuration
+ */
+export function validateConfig(): ConfigIssue[] {
+    const issues: ConfigIssue[] = [];
+
+    const networks = getAvailableNetworks();
+
+    Object.entries(getPoolConfigs()).forEach(([pool, config]) => {
+        issues.push(...checkBps(`pool ${pool}`, config));
+        issues.push(
+            ...getInsuranceParamsErrors(config).map(message => ({
+                severity: 'error' as ConfigIssueSeverity,
+                scope: `pool ${pool}`,
+                message,
+            })),
+        );
+        if (!networks.some(network => getAvailablePools(network).includes(pool))) {
+            issues.push({ severity: 'warning', scope: `pool ${pool}`, message: 'has fee parameters but is not deployed on any network' });
+        }
+    });
+
+    for (const network of networks) {
+        issues.push(...checkAddresses(network, getNetworkOnlyConfig(network)));
+
+        const factoringPools = new Map<string, string>();
+        for (const pool of getAvailablePools(network)) {
+            const scope = `${network}/${pool}`;
+            const config = getConfig(network, pool);
+
+            // Network-wide addresses are checked once above; duplicates are checked across both
+            issues.push(...checkAddresses(scope, getDeployedPoolConfig(network, pool) || {}));
+            issues.push(...checkDuplicateRoles(scope, config));
+
+            if (config.bullaFactoringAddress) {
+                const key = config.bullaFactoringAddress.toLowerCase();
+                const otherPool = factoringPools.get(key);
+                if (otherPool) {
+                    issues.push({ severity: 'error', scope, message: `bullaFactoringAddress is also used by pool '${otherPool}'` });
+                }
+                factoringPools.set(key, pool);
+            }
+        }
+    }
+
+    return issues;
+}
+
+// ============================================================================
+// Report
+// ============================================================================
+
+/**
+ * Print issues grouped by scope
+ */
+export function printConfigReport(issues: ConfigIssue[]): void {
+    const scopes = issues.map(issue => issue.scope).filter((scope, index, all) => all.indexOf(scope) === index);
+
+    for (const scope of scopes) {
+        console.log(`\n📋 ${scope}`);
+        issues
+            .filter(issue => issue.scope === scope)
+            .forEach(issue => console.log(`   ${issue.severity === 'error' ? '❌' : '⚠️ '} ${issue.message}`));
+    }
+
+    const errors = issues.filter(issue => issue.severity === 'error').length;
+    const warnings = issues.length - errors;
+    console.log('');
+    if (errors === 0 && warnings === 0) {
+        console.log('✅ Configuration is valid');
+    } else {
+        console.log(`${errors > 0 ? '❌' : '⚠️ '} ${errors} error(s), ${warnings} warning(s)`);
+    }
+}
+
+/**
+ * Launcher: validate the configuration and exit non-zero on errors
+ * Pass --strict to also fail on warnings. With --json the issues are in `details.issues`.
+ */
+export async function validateConfigLauncher(): Promise<void> {
+    await runScript('validate-config', async context => {
+        console.log('🔍 Validating network and pool configuration...');
+        const issues = validateConfig();
+        context.details.issues = issues;
+        printConfigReport(issues);
+
+        const errors = issues.filter(issue => issue.severity === 'error').length;
+        const warnings = issues.length - errors;
+        if (errors > 0) {
+            throw new Error(`Configuration has ${errors} error(s)`);
+        }
+        if (warnings > 0 && hasFlag('--strict')) {
+            throw new Error(`Configuration has ${warnings} warning(s), which fail validation with --strict`);
+        }
+    });
+}
+
+// Only run launcher if this script is run directly
+if (require.main === module) {
+    validateConfigLauncher();
+}
@@ -0,0 +1,273 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { join } from 'path';
+import { getInput, InputError } from './utils/cli';
+import { DEPLOY_STATE_DIR } from './utils/deploy-state';
+import { setupGracefulExit } from './utils/interactive-deploy';
+import { runScript } from './utils/script-runner';
+
+// Local stand-in for Etherscan, Blockscout and Sourcify, so verification uploads can be checked without a network.
+// Start it, then run a verification with VERIFIER_API_URL=http://localhost:<port>: every backend is sent here under
+// /<backend>, each upload is checked for the fields the real service requires and written to disk, and every
+// submission is reported as verified, after any pending status checks or rejected submissions set in StubServerOptions.
+
+export const STUB_UPLOAD_DIR = join(DEPLOY_STATE_DIR, 'verification-stub');
+
+const DEFAULT_PORT = 8600;
+
+type StubResponse = { status: number; body: Record<string, any> };
+
+/** Behaviours of the real services that are otherwise hard to reproduce, e.g. to exercise polling and retries */
+export type StubServerOptions = {
+    /** Status checks answered as still pending before a submission is reported as verified */
+    pendingChecks?: number;
+    /** Submissions rejected as temporarily unavailable before uploads are accepted */
+    failedSubmissions?: number;
+};
+
+/** Counters shared by every request to one server */
+type StubState = {
+    options: StubServerOptions;
+    /** Status checks answered so far, per guid or verification ID */
+    statusChecks: Map<string, number>;
+    rejectedSubmissions: number;
+};
+
+/**
+ * Count a status check, and whether it should still be answered as pending
+ */
+function isStillPending(state: StubState, id: string): boolean {
+    const checks = (state.statusChecks.get(id) || 0) + 1;
+    state.statusChecks.set(id, checks);
+    return checks <= (state.options.pendingChecks || 0);
+}
+
+/**
+ * Whether to reject this submission as temporarily unavailable
+ */
+function rejectsSubmission(state: StubState): boolean {
+    if (state.rejectedSubmissions >= (state.options.failedSubmissions || 0)) {
+        return false;
+    }
+    state.rejectedSubmissions++;
+    return true;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let data = '';
+        req.on('data', chunk => (data += chunk));
+        req.on('end', () => resolve(data));
+        req.on('error', reject);
+    });
+}
+
+/**
+ * Problems with a standard JSON input, as a verification service would reject it
+ */
+function getStandardJsonInputErrors(input: any): string[] {
+    const errors: string[] = [];
+    if (!input || typeof input !== 'object') {
+        return ['standard JSON input is not an object'];
+    }
+    if (input.language !== 'Solidity') {
+        errors.push(`language is ${input.language}, expected Solidity`);
+    }
+    if (!input.sources || Object.keys(input.sources).length === 0) {
+        errors.push('no sources');
+    }
+    for (const [sourceName, source] of Object.entries<any>(input.sources || {})) {
+        if (typeof source?.content !== 'string') {
+            errors.push(`source ${sourceName} has no content`);
+        }
+    }
+    if (!input.settings?.optimizer) {
+        errors.push('settings.optimizer missing');
+    }
+    return errors;
+}
+
+/**
+ * Etherscan-compatible API, served for both Etherscan and Blockscout
+ */
+function handleEtherscan(
+    backend: string,
+    params: URLSearchParams,
+    state: StubState,
+    record: (payload: Record<string, any>) => void,
+): StubResponse {
+    const reject = (message: string): StubResponse => ({ status: 200, body: { status: '0', message: 'NOTOK', result: message } });
+
+    if (params.get('action') === 'checkverifystatus') {
+        return isStillPending(state, params.get('guid') || '')
+            ? reject('Pending in queue')
+            : { status: 200, body: { status: '1', message: 'OK', result: 'Pass - Verified' } };
+    }
+    if (params.get('action') !== 'verifysourcecode' || params.get('module') !== 'contract') {
+        return reject(`Unsupported action: ${params.get('module')}/${params.get('action')}`);
+    }
+    if (rejectsSubmission(state)) {
+        return reject('Service temporarily unavailable, please try again later');
+    }
+    if (backend === 'etherscan' && (!params.get('apikey') || !params.get('chainid'))) {
+        return reject('Missing apikey or chainid');
+    }
+
+    let input: any;
+    try {
+        input = JSON.parse(params.get('sourceCode') || '');
+    } catch {
+        return reject('sourceCode is not valid JSON');
+    }
+    const errors = getStandardJsonInputErrors(input);
+    if (params.get('codeformat') !== 'solidity-standard-json-input') {
+        errors.push(`codeformat is ${params.get('codeformat')}`);
+    }
+    if (!/^v\d+\.\d+\.\d+\+commit\.[0-9a-f]+$/.test(params.get('compilerversion') || '')) {
+        errors.push(`compilerversion ${params.get('compilerversion')} is not a full solc version`);
+    }
+    if (!(params.get('contractname') || '').includes(':')) {
+        errors.push('contractname must be <source path>:<contract name>');
+    }
+    if (!/^(0x)?[0-9a-fA-F]{40}$/.test(params.get('contractaddress') || '')) {
+        errors.push('contractaddress is not an address');
+    }
+    if (!/^([0-9a-f]{64})*$/.test(params.get('constructorArguements') || '')) {
+        errors.push('constructorArguements must be ABI-encoded hex without 0x');
+    }
+
+    const entries: Record<string, string> = {};
+    params.forEach((value, key) => (entries[key] = key === 'apikey' ? '<redacted>' : value));
+    record({ ...entries, sourceCode: input, errors });
+    return errors.length > 0
+        ? reject(errors.join('; '))
+        : { status: 200, body: { status: '1', message: 'OK', result: `stub-${Date.now()}` } };
+}
+
+/**
+ * Sourcify v2 verify API
+ */
+function handleSourcify(
+    method: string,
+    path: string[],
+    body: any,
+    state: StubState,
+    record: (payload: Record<string, any>) => void,
+): StubResponse {
+    // GET /v2/verify/<verificationId>
+    if (method === 'GET' && path.length === 3) {
+        return isStillPending(state, path[2])
+            ? { status: 200, body: { isJobCompleted: false, verificationId: path[2] } }
+            : { status: 200, body: { isJobCompleted: true, verificationId: path[2], contract: { match: 'exact_match' } } };
+    }
+    // POST /v2/verify/<chainId>/<address>
+    if (method !== 'POST' || path.length !== 4 || path[0] !== 'v2' || path[1] !== 'verify') {
+        return { status: 404, body: { customCode: 'not_found', message: `No route for ${method} /${path.join('/')}` } };
+    }
+    if (rejectsSubmission(state)) {
+        return { status: 503, body: { customCode: 'service_unavailable', message: 'Service temporarily unavailable' } };
+    }
+
+    const errors = getStandardJsonInputErrors(body?.stdJsonInput);
+    if (!/^\d+\.\d+\.\d+\+commit\.[0-9a-f]+$/.test(body?.compilerVersion || '')) {
+        errors.push(`compilerVersion ${body?.compilerVersion} is not a full solc version`);
+    }
+    if (!(body?.contractIdentifier || '').includes(':')) {
+        errors.push('contractIdentifier must be <source path>:<contract name>');
+    }
+
+    record({ chainId: path[2], address: path[3], ...body, errors });
+    return errors.length > 0
+        ? { status: 400, body: { customCode: 'invalid_parameter', message: errors.join('; ') } }
+        : { status: 202, body: { verificationId: `stub-${Date.now()}` } };
+}
+
+/**
+ * Start the stub server
+ * @param port Port to listen on; 0 picks a free one, read back from server.address() once it is listening
+ * @param outDir Directory every upload is written to, one JSON file per submission
+ */
+export function startVerificationStubServer(port: number, outDir: string = STUB_UPLOAD_DIR, options: StubServerOptions = {}): Server {
+    mkdirSync(outDir, { recursive: true });
+    const state: StubState = { options, statusChecks: new Map(), rejectedSubmissions: 0 };
+    let uploads = 0;
+
+    const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+        const url = new URL(req.url || '/', `http://localhost:${port}`);
+        const [backend, ...path] = url.pathname.split('/').filter(Boolean);
+        const raw = await readBody(req);
+
+        const record = (payload: Record<string, any>): void => {
+            const file = join(outDir, `${Date.now()}-${++uploads}-${backend}.json`);
+            writeFileSync(file, `${JSON.stringify(payload, null, 4)}\n`);
+            const errors: string[] = payload.errors;
+            console.log(`${errors.length > 0 ? '❌' : '📥'} ${backend} upload written to ${file}`);
+            errors.forEach(error => console.log(`   ${error}`));
+        };
+
+        let response: StubResponse;
+        if (backend === 'etherscan' || backend === 'blockscout') {
+            // Submissions are form posts; status checks are query parameters
+            const params = new URLSearchParams(url.search);
+            new URLSearchParams(raw).forEach((value, key) => params.set(key, value));
+            response = handleEtherscan(backend, params, state, record);
+        } else if (backend === 'sourcify') {
+            let body: any;
+            try {
+                body = raw ? JSON.parse(raw) : undefined;
+            } catch {
+                body = undefined;
+            }
+            response = handleSourcify(req.method || 'GET', path, body, state, record);
+        } else {
+            response = { status: 404, body: { message: `Unknown backend: ${backend}. Use /etherscan, /blockscout or /sourcify` } };
+        }
+
+        res.writeHead(response.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(response.body));
+    });
+
+    server.listen(port);
+    return server;
+}
+
+/**
+ * Read a non-negative count from a flag or environment variable, 0 when unset
+ * @throws InputError if the value is not a non-negative integer
+ */
+function readCount(flag: string, envVar: string): number {
+    const input = getInput(flag, envVar);
+    const count = input ? Number(input) : 0;
+    if (!Number.isInteger(count) || count < 0) {
+        throw new InputError(`Invalid ${flag}: ${input}`);
+    }
+    return count;
+}
+
+/**
+ * Launcher: serve until interrupted
+ */
+export async function verificationStubServerLauncher(): Promise<void> {
+    await runScript('verification-stub-server', async () => {
+        const portInput = getInput('--port', 'VERIFIER_STUB_PORT');
+        const port = portInput ? Number(portInput) : DEFAULT_PORT;
+        if (!Number.isInteger(port) || port < 1 || port > 65535) {
+            throw new InputError(`Invalid port: ${portInput}`);
+        }
+
+        const options: StubServerOptions = {
+            pendingChecks: readCount('--pending-checks', 'VERIFIER_STUB_PENDING_CHECKS'),
+            failedSubmissions: readCount('--failed-submissions', 'VERIFIER_STUB_FAILED_SUBMISSIONS'),
+        };
+        const server = startVerificationStubServer(port, getInput('--out', 'VERIFIER_STUB_OUT') || STUB_UPLOAD_DIR, options);
+        console.log(`🧪 Verification stub listening on http://localhost:${port}`);
+        console.log(`   Run verification with VERIFIER_API_URL=http://localhost:${port} to send uploads here. Ctrl+C to stop.`);
+        await new Promise(resolve => server.on('close', resolve));
+    });
+}
+
+// Only run launcher if this script is run directly
+if (require.main === module) {
+    setupGracefulExit();
+    verificationStubServerLauncher();
+}
@@ -1,19 +1,15 @@
 import { readdirSync, statSync } from 'fs';
 import { join } from 'path';
-import { verifyBroadcastContracts } from './utils/verify-forge';
-
-/**
- * Get network name from chain ID
- */
-function getNetworkFromChainId(chainId: string): string | null {
-    const chainIdMap: Record<string, string> = {
-        '1': 'mainnet',
-        '137': 'polygon',
-        '11155111': 'sepolia',
-        '42161': 'arbitrum',
-    };
-    return chainIdMap[chainId] || null;
-}
+import { EXIT_CODES, getInput, InputError } from './utils/cli';
+import { findNetworkByChainId, getVerifiers, VerifierBackend } from './utils/networks';
+import { runScript } from './utils/script-runner';
+import {
+    collectBroadcastDeployments,
+    ContractDeployment,
+    printUnverifiedContracts,
+    VerificationOptions,
+    verifyDeployments,
+} from './utils/verify-forge';
 
 /**
  * Recursively find all broadcast directories
@@ -39,7 +35,7 @@ function findBroadcastDirectories(broadcastPath: string): Array<{ script: string
                     const chainPath = join(scriptPath, chainDir);
 
                     if (statSync(chainPath).isDirectory()) {
-                        const network = getNetworkFromChainId(chainDir);
+                        const network = findNetworkByChainId(chainDir)?.name;
                         if (network) {
                             // Check if run-latest.json exists
                             const runLatestPath = join(chainPath, 'run-latest.json');
@@ -69,100 +65,122 @@ function findBroadcastDirectories(broadcastPath: string): Array<{ script: string
 }
 
 /**
- * Main verification function
+ * Verify every contract deployed to one network, across all scripts and broadcasts
+ * Contracts the verification ledger lists as verified are skipped; the rest are verified in parallel and retried on failure.
  */
-async function verifyAllContracts(): Promise<void> {
-    console.log('🔍 Scanning for deployed contracts to verify...\n');
+async function verifyNetworkDeployments(
+    network: string,
+    scripts: string[],
+    options: VerificationOptions,
+): Promise<{ verified: number; failed: number }> {
+    if (getVerifiers(network).length === 0) {
+        console.log(`⏭️  ${network} has no verification backend. Skipping verification.`);
+        return { verified: 0, failed: 0 };
+    }
+
+    // A contract can appear in several scripts' broadcasts; verify it once
+    const deployments = new Map<string, ContractDeployment>();
+    for (const script of scripts) {
+        for (const deployment of collectBroadcastDeployments(script, network, true)) {
+            deployments.set(deployment.contractAddress.toLowerCase(), deployment);
+        }
+    }
+
+    console.log(`\n📝 ${network}: ${deployments.size} unique contract(s) from ${scripts.length} script(s)`);
+    const summary = await verifyDeployments(network, Array.from(deployments.values()), options);
+    console.log(
+        `   ${summary.verified.length} verified now, ${summary.alreadyVerified.length} already verified, ` +
+            `${summary.failed.length} failed, ${summary.unresolved.length} without a compiled artifact`,
+    );
+    printUnverifiedContracts(network);
+    return { verified: summary.verified.length, failed: summary.failed.length + summary.unresolved.length };
+}
+
+/**
+ * Verification workflow (can be called with parameters or standalone)
+ * @param targetNetwork Only verify this network; every network with broadcasts when omitted
+ */
+export async function verifyAllContractsWorkflow(targetNetwork?: string, options: VerificationOptions = {}): Promise<void> {
+    console.log(`🔍 Scanning for deployed contracts to verify${targetNetwork ? ` on ${targetNetwork}` : ''}...\n`);
 
     const broadcastPath = 'broadcast';
-    const deployments = findBroadcastDirectories(broadcastPath);
+    const deployments = findBroadcastDirectories(broadcastPath).filter(
+        deployment => !targetNetwork || deployment.network === targetNetwork,
+    );
 
     if (deployments.length === 0) {
-        console.log('⚠️  No deployments found in broadcast folder.');
+        console.log(`⚠️  No deployments found in broadcast folder${targetNetwork ? ` for network: ${targetNetwork}` : ''}.`);
         console.log('   Make sure you have run deployments with --broadcast flag.');
         return;
     }
 
-    console.log(`📋 Found ${deployments.length} deployment(s) to verify:\n`);
-
+    const scriptsByNetwork = new Map<string, string[]>();
     for (const deployment of deployments) {
-        console.log(`📄 Script: ${deployment.script}`);
-        console.log(`🌐 Network: ${deployment.network} (Chain ID: ${deployment.chainId})`);
-        console.log('─'.repeat(50));
+        scriptsByNetwork.set(deployment.network, [...(scriptsByNetwork.get(deployment.network) || []), deployment.script]);
     }
 
-    console.log('\n🚀 Starting verification process...\n');
-
-    // Verify each deployment
-    for (let i = 0; i < deployments.length; i++) {
-        const deployment = deployments[i];
-
-        console.log(`\n📝 [${i + 1}/${deployments.length}] Verifying ${deployment.script} on ${deployment.network}...`);
-
-        try {
-            await verifyBroadcastContracts(deployment.script, deployment.network, true); // true = verify all broadcasts
-        } catch (error) {
-            console.error(`❌ Error verifying ${deployment.script}:`, (error as Error).message);
-        }
-
-        // Add a small delay between verifications to avoid rate limiting
-        if (i < deployments.length - 1) {
-            console.log('\n⏳ Waiting 2 seconds before next verification...');
-            await new Promise(resolve => setTimeout(resolve, 2000));
-        }
+    let unverified = 0;
+    for (const [network, scripts] of Array.from(scriptsByNetwork.entries())) {
+        unverified += (await verifyNetworkDeployments(network, scripts, options)).failed;
     }
 
     console.log('\n✅ Verification process completed!');
-    console.log('\n📝 Summary:');
-    console.log(`   • Processed ${deployments.length} deployment(s)`);
-    console.log('   • Check the output above for individual verification results');
-    console.log('   • Verification failures are non-critical and can be retried');
+    if (unverified > 0) {
+        console.log(`   ${unverified} contract(s) still need verifying; rerun to retry them. Verified contracts are skipped.`);
+    }
 }
 
 /**
- * Verification workflow for specific network (can be called with parameters or standalone)
+ * Read a positive integer option from a flag or environment variable
  */
-export async function verifyAllContractsWorkflow(targetNetwork: string): Promise<void> {
-    console.log(`🔍 Verifying all contracts for network: ${targetNetwork}\n`);
-
-    const broadcastPath = 'broadcast';
-    const deployments = findBroadcastDirectories(broadcastPath).filter(deployment => deployment.network === targetNetwork);
-
-    if (deployments.length === 0) {
-        console.log(`⚠️  No deployments found for network: ${targetNetwork}`);
-        return;
+function getPositiveIntInput(flag: string, envVar: string): number | undefined {
+    const input = getInput(flag, envVar);
+    if (input === undefined) {
+        return undefined;
     }
+    const value = Number(input);
+    if (!Number.isInteger(value) || value < 1) {
+        throw new InputError(`Invalid ${flag}: ${input} (expected a positive integer)`);
+    }
+    return value;
+}
 
-    console.log(`📋 Found ${deployments.length} deployment(s) for ${targetNetwork}:\n`);
-
-    for (const deployment of deployments) {
-        console.log(`📄 ${deployment.script}`);
-        try {
-            await verifyBroadcastContracts(deployment.script, deployment.network, true); // true = verify all broadcasts
-        } catch (error) {
-            console.error(`❌ Error verifying ${deployment.script}:`, (error as Error).message);
-        }
+/**
+ * Read the backends to verify on from --verifiers or VERIFIERS, e.g. "sourcify,blockscout"
+ */
+function getBackendsInput(): VerifierBackend[] | undefined {
+    const input = getInput('--verifiers', 'VERIFIERS');
+    if (!input) {
+        return undefined;
+    }
+    const backends = input.split(',').map(backend => backend.trim());
+    const invalid = backends.filter(backend => !['etherscan', 'sourcify', 'blockscout'].includes(backend));
+    if (invalid.length > 0) {
+        throw new InputError(`Unknown verifier(s): ${invalid.join(', ')}. Use etherscan, sourcify or blockscout`);
     }
+    return backends as VerifierBackend[];
 }
 
 /**
  * Launcher: Get network interactively or from env, then run workflow
  */
-async function verifyAllContractsLauncher(): Promise<void> {
-    try {
-        const targetNetwork = process.env.NETWORK;
+export async function verifyAllContractsLauncher(): Promise<void> {
+    await runScript('verify-all-contracts', async context => {
+        const targetNetwork = getInput('--network', 'NETWORK');
+        const options: VerificationOptions = {
+            concurrency: getPositiveIntInput('--concurrency', 'VERIFY_CONCURRENCY'),
+            maxAttempts: getPositiveIntInput('--max-attempts', 'VERIFY_MAX_ATTEMPTS'),
+            backends: getBackendsInput(),
+        };
 
         if (targetNetwork) {
             console.log(`🎯 Target network specified: ${targetNetwork}`);
-            await verifyAllContractsWorkflow(targetNetwork);
+            context.network = targetNetwork;
         } else {
             console.log('🌐 No target network specified, verifying all deployments...');
-            await verifyAllContracts();
         }
-    } catch (error) {
-        console.error('❌ Verification script failed:', (error as Error).message);
-        process.exit(1);
-    }
+        await verifyAllContractsWorkflow(targetNetwork, options);
+    });
 }
 
 // Only run launcher if this script is run directly
@@ -170,7 +188,7 @@ if (require.main === module) {
     // Handle Ctrl+C gracefully
     process.on('SIGINT', () => {
         console.log('\n\n⚠️  Verification interrupted by user');
-        process.exit(0);
+        process.exit(EXIT_CODES.interrupted);
     });
 
     verifyAllContractsLauncher();
@@ -1,5 +1,7 @@
 import { verifyBroadcastContracts } from './utils/verify-forge';
+import { EXIT_CODES } from './utils/cli';
 import { getNetworkInteractive } from './utils/interactive-prompt';
+import { runScript } from './utils/script-runner';
 
 const FACTORY_SCRIPT_NAME = 'DeployBullaFactoringFactory.s.sol';
 
@@ -21,22 +23,14 @@ export async function verifyFactoryWorkflow(network: string): Promise<void> {
 /**
  * Launcher: Get network interactively or from env, then run workflow
  */
-async function verifyFactoryLauncher(): Promise<void> {
-    try {
-        // Check for network from environment or get interactively
-        let network = process.env.NETWORK;
-
-        if (!network) {
-            network = await getNetworkInteractive();
-        } else {
-            console.log(`🎯 Using network from environment: ${network}`);
-        }
+export async function verifyFactoryLauncher(): Promise<void> {
+    await runScript('verify-factory', async context => {
+        // Network from --network, the environment, or chosen interactively
+        const network = await getNetworkInteractive();
+        context.network = network;
 
         await verifyFactoryWorkflow(network);
-    } catch (error) {
-        console.error('❌ Verification failed:', (error as Error).message);
-        process.exit(1);
-    }
+    });
 }
 
 // Only run launcher if this script is run directly
@@ -44,7 +38,7 @@ if (require.main === module) {
     // Handle Ctrl+C gracefully
     process.on('SIGINT', () => {
         console.log('\n\n⚠️  Verification interrupted by user');
-        process.exit(0);
+        process.exit(EXIT_CODES.interrupted);
     });
 
     verifyFactoryLauncher();
@@ -1,11 +1,23 @@
-import { getConfig, getRpcUrl, PoolName } from './network-config';
+import { providers, utils } from 'ethers';
+import { getConfig, PoolName } from './network-config';
+import { hasFlag } from './utils/cli';
+import { dryRunForgeScript, ForgeWorkflowOptions } from './utils/dry-run';
 import { getPrivateKeyInteractively, runForgeScript, setupGracefulExit } from './utils/interactive-deploy';
 import { getNetworkAndPoolInteractive } from './utils/interactive-prompt';
+import { getNetworkMetadata } from './utils/networks';
+import { resolveRpcUrl } from './utils/rpc';
+import { runScript } from './utils/script-runner';
+import { isProposeMode, resolveSafeAddress, writeSafeBatches } from './utils/safe-batch';
 
 /**
  * Whitelist callback workflow (can be called with parameters or standalone)
  */
-export async function whitelistCallbackWorkflow(network: string, pool: PoolName, privateKey: string): Promise<void> {
+export async function whitelistCallbackWorkflow(
+    network: string,
+    pool: PoolName,
+    privateKey: string,
+    options?: ForgeWorkflowOptions,
+): Promise<void> {
     console.log(`🔑 Whitelisting callback for BullaFactoring on ${network}/${pool}...\n`);
 
     // Get full configuration
@@ -37,7 +49,23 @@ export async function whitelistCallbackWorkflow(network: string, pool: PoolName,
     console.log(`📡 Starting callback whitelisting on ${network}...\n`);
 
     // Get RPC URL using shared config
-    const rpcUrl = getRpcUrl(network);
+    const rpcUrl = await resolveRpcUrl(network);
+
+    if (options?.propose) {
+        // The same call WhitelistCallback.s.sol makes, executed by the BullaClaimV2 owner
+        const provider = new providers.StaticJsonRpcProvider(rpcUrl, getNetworkMetadata(network).chainId);
+        const selector = new utils.Interface(['function reconcileSingleInvoice(uint256 invoiceId)']).getSighash('reconcileSingleInvoice');
+        writeSafeBatches(network, 'whitelist-callback', `Whitelist reconcileSingleInvoice of the ${pool} pool on BullaClaimV2`, [
+            {
+                to: config.bullaClaim,
+                contractLabel: 'BullaClaimV2',
+                signature: 'function addToPaidCallbackWhitelist(address callbackContract, bytes4 selector)',
+                args: [config.bullaFactoringAddress, selector],
+                safe: await resolveSafeAddress(provider, config.bullaClaim),
+            },
+        ]);
+        return;
+    }
 
     // Set environment variables for the script
     const env: NodeJS.ProcessEnv = {
@@ -49,25 +77,34 @@ export async function whitelistCallbackWorkflow(network: string, pool: PoolName,
         BULLA_CLAIM_V2_ADDRESS: config.bullaClaim,
     };
 
+    if (options?.dryRun) {
+        await dryRunForgeScript('script/WhitelistCallback.s.sol:WhitelistCallback', rpcUrl, privateKey, env, network);
+        return;
+    }
+
     // Run forge script and wait for completion
     await new Promise<void>((resolve, reject) => {
         const forgeProcess = runForgeScript('script/WhitelistCallback.s.sol:WhitelistCallback', rpcUrl, privateKey, env, network);
 
         // Handle forge process events
         forgeProcess.on('close', async code => {
-            if (code === 0) {
-                console.log('\n✅ Callback whitelisting completed successfully!');
-                console.log(`🎉 BullaFactoring callbacks are now whitelisted!`);
-
-                console.log('\n📝 What this enables:');
-                console.log('   ✓ BullaFactoring can now call offerLoan() without CallbackNotWhitelisted error');
-                console.log('   ✓ When loan offers are accepted, onLoanOfferAccepted() will be called back on BullaFrendLend');
-                console.log('   ✓ When BullaClaimV2 invoices are paid, reconcileSingleInvoice() will be called back');
-                console.log('   ✓ The factoring pool can now issue loan offers and handle paid invoice callbacks');
-
-                resolve();
-            } else {
-                reject(new Error(`Callback whitelisting failed with exit code ${code}`));
+            try {
+                if (code === 0) {
+                    console.log('\n✅ Callback whitelisting completed successfully!');
+                    console.log(`🎉 BullaFactoring callbacks are now whitelisted!`);
+
+                    console.log('\n📝 What this enables:');
+                    console.log('   ✓ BullaFactoring can now call offerLoan() without CallbackNotWhitelisted error');
+                    console.log('   ✓ When loan offers are accepted, onLoanOfferAccepted() will be called back on BullaFrendLend');
+                    console.log('   ✓ When BullaClaimV2 invoices are paid, reconcileSingleInvoice() will be called back');
+                    console.log('   ✓ The factoring pool can now issue loan offers and handle paid invoice callbacks');
+
+                    resolve();
+                } else {
+                    reject(new Error(`Callback whitelisting failed with exit code ${code}`));
+                }
+            } catch (error) {
+                reject(error);
             }
         });
 
@@ -84,19 +121,19 @@ export async function whitelistCallbackWorkflow(network: string, pool: PoolName,
 /**
  * Launcher: Get network, pool, and private key interactively, then run workflow
  */
-async function whitelistCallbackLauncher(): Promise<void> {
-    try {
+export async function whitelistCallbackLauncher(): Promise<void> {
+    await runScript('whitelist-callback', async context => {
         // Get network and pool interactively
         const { network, pool } = await getNetworkAndPoolInteractive();
+        context.network = network;
+        context.pool = pool;
 
-        // Get private key interactively
-        const privateKey = await getPrivateKeyInteractively();
+        // Proposals are signed in the Safe, so no key is needed
+        const options: ForgeWorkflowOptions = { dryRun: hasFlag('--dry-run'), propose: isProposeMode() };
+        const privateKey = options.propose ? '' : await getPrivateKeyInteractively();
 
-        await whitelistCallbackWorkflow(network, pool, privateKey);
-    } catch (error: any) {
-        console.error('❌ Whitelisting error:', error.message);
-        process.exit(1);
-    }
+        await whitelistCallbackWorkflow(network, pool, privateKey, options);
+    });
 }
 
 // Only run launcher if this script is run directly
@@ -0,0 +1,36 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { checkPoolDrift, hasDrift } from '../../scripts/check-drift';
+import { skipWithoutForgeArtifacts } from './helpers/forge-artifacts';
+import { deployLocalStack, LocalStack } from './helpers/local-stack';
+
+describe('check-drift', () => {
+    let stack: LocalStack;
+
+    before(async function () {
+        skipWithoutForgeArtifacts(this);
+        const [deployer, creditor] = await ethers.getSigners();
+        stack = await deployLocalStack(deployer, creditor.address);
+    });
+
+    it('reports no drift for a pool deployed as configured', async () => {
+        const report = await checkPoolDrift(ethers.provider, stack.config);
+
+        expect(report.error).to.be.undefined;
+        expect(hasDrift(report)).to.equal(false);
+        expect(report.fields.find(field => field.field === 'protocolFeeBps')?.status).to.equal('match');
+    });
+
+    it('reports drift when a fee is changed on-chain', async () => {
+        await (await stack.pool.setProtocolFeeBps(stack.config.protocolFeeBps + 10)).wait();
+
+        const report = await checkPoolDrift(ethers.provider, stack.config);
+
+        expect(hasDrift(report)).to.equal(true);
+        expect(report.fields.find(field => field.field === 'protocolFeeBps')).to.deep.include({
+            status: 'mismatch',
+            expected: stack.config.protocolFeeBps.toString(),
+            actual: (stack.config.protocolFeeBps + 10).toString(),
+        });
+    });
+});
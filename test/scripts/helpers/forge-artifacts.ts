@@ -0,0 +1,16 @@
+import { existsSync } from 'fs';
+import { relative } from 'path';
+import { FORGE_ARTIFACTS_DIR } from '../../../scripts/utils/artifacts';
+
+/**
+ * Skip the calling suite or test when the forge artifacts are missing, since hardhat does not compile the contracts
+ * Call from a `before` hook or test declared with `function`, passing its `this`.
+ */
+export function skipWithoutForgeArtifacts(context: Mocha.Context): void {
+    if (!existsSync(FORGE_ARTIFACTS_DIR)) {
+        console.log(
+            `      ⚠️  Skipped: no forge artifacts in ${relative(process.cwd(), FORGE_ARTIFACTS_DIR)}, run 'yarn build:forge' first`,
+        );
+        context.skip();
+    }
+}
@@ -0,0 +1,125 @@
+import { Contract, ContractFactory, Signer } from 'ethers';
+import { FullConfig } from '../../../scripts/network-config';
+import { findForgeArtifact, getCreationBytecode } from '../../../scripts/utils/artifacts';
+
+// Deploys the pool stack of script/DeployLocalStack.s.sol from the forge artifacts (`yarn build:forge`),
+// so the scripts' checks can run against the in-process Hardhat network.
+
+/** BullaClaimV2's LockState.Unlocked */
+const UNLOCKED = 0;
+
+export type LocalStack = {
+    /** Config of the deployed pool, as getConfig() would return it */
+    config: FullConfig;
+    pool: Contract;
+};
+
+/**
+ * Deploy a compiled forge contract by name
+ */
+export async function deployForgeContract(signer: Signer, contractName: string, ...args: unknown[]): Promise<Contract> {
+    const { artifact } = findForgeArtifact(contractName);
+    const factory = new ContractFactory(artifact.abi, getCreationBytecode(artifact, contractName), signer);
+    const contract = await factory.deploy(...args);
+    await contract.deployed();
+    return contract;
+}
+
+/**
+ * Deploy BullaClaimV2, the adapter, compliance permissions and a BullaFactoringV2_2 pool
+ * The deployer is owner, underwriter, insurer and bullaDao, as in DeployLocalStack.s.sol.
+ */
+export async function deployLocalStack(deployer: Signer, creditor: string): Promise<LocalStack> {
+    const deployerAddress = await deployer.getAddress();
+
+    const asset = await deployForgeContract(deployer, 'MockUSDC');
+    const controllerRegistry = await deployForgeContract(deployer, 'BullaControllerRegistry');
+    const approvalRegistry = await deployForgeContract(deployer, 'BullaApprovalRegistry', controllerRegistry.address);
+    const feeExemptions = await deployForgeContract(deployer, 'MockPermissions');
+    const bullaClaim = await deployForgeContract(deployer, 'BullaClaimV2', approvalRegistry.address, UNLOCKED, 0, feeExemptions.address);
+    const bullaFrendLend = await deployForgeContract(deployer, 'BullaFrendLendV2', bullaClaim.address, deployerAddress, 50, 0);
+    const bullaInvoice = await deployForgeContract(deployer, 'BullaInvoice', bullaClaim.address, deployerAddress, 50);
+    await (await approvalRegistry.setAuthorizedContract(bullaClaim.address, true)).wait();
+    const adapter = await deployForgeContract(
+        deployer,
+        'BullaClaimV2InvoiceProviderAdapterV2',
+        bullaClaim.address,
+        bullaFrendLend.address,
+        bullaInvoice.address,
+    );
+
+    const sanctionsList = await deployForgeContract(deployer, 'MockSanctionsList');
+    const kycIssuer = await deployForgeContract(deployer, 'ManualBullaKycIssuer');
+    const kycGate = await deployForgeContract(deployer, 'BullaKycGate');
+    await (await kycGate.addIssuer(kycIssuer.address)).wait();
+    const agreementSignatureRepo = await deployForgeContract(deployer, 'AgreementSignatureRepo', deployerAddress);
+    const compliancePermissions = await deployForgeContract(
+        deployer,
+        'ComplianceDepositPermissions',
+        sanctionsList.address,
+        kycGate.address,
+        agreementSignatureRepo.address,
+    );
+    const factoringPermissions = await deployForgeContract(deployer, 'FactoringPermissions');
+    await (await factoringPermissions.allow(creditor)).wait();
+
+    const fees = {
+        protocolFeeBps: 25,
+        adminFeeBps: 50,
+        targetYieldBps: 730,
+        insuranceFeeBps: 100,
+        impairmentGrossGainBps: 500,
+        recoveryProfitRatioBps: 5000,
+    };
+    const names = { poolDisplayName: 'Local Test Pool', poolTokenName: 'Local Test Pool Token', poolTokenSymbol: 'LTP' };
+
+    const pool = await deployForgeContract(
+        deployer,
+        'BullaFactoringV2_2',
+        asset.address,
+        adapter.address,
+        deployerAddress,
+        compliancePermissions.address,
+        compliancePermissions.address,
+        factoringPermissions.address,
+        deployerAddress,
+        fees.protocolFeeBps,
+        fees.adminFeeBps,
+        names.poolDisplayName,
+        fees.targetYieldBps,
+        names.poolTokenName,
+        names.poolTokenSymbol,
+        deployerAddress,
+        fees.insuranceFeeBps,
+        fees.impairmentGrossGainBps,
+        fees.recoveryProfitRatioBps,
+    );
+    const reconcileSelector = pool.interface.getSighash('reconcileSingleInvoice');
+    await (await bullaClaim.addToPaidCallbackWhitelist(pool.address, reconcileSelector)).wait();
+
+    const config: FullConfig = {
+        network: 'local',
+        poolName: 'local-test',
+        bullaClaim: bullaClaim.address,
+        bullaDao: deployerAddress,
+        bullaFrendLendAddress: bullaFrendLend.address,
+        bullaInvoiceAddress: bullaInvoice.address,
+        BullaClaimInvoiceProviderAdapterAddress: adapter.address,
+        sanctionsListAddress: sanctionsList.address,
+        bullaKycGateAddress: kycGate.address,
+        agreementSignatureRepoAddress: agreementSignatureRepo.address,
+        complianceDepositPermissionsAddress: compliancePermissions.address,
+        ...fees,
+        ...names,
+        underlyingAsset: asset.address,
+        underwriter: deployerAddress,
+        insurer: deployerAddress,
+        depositPermissionsAddress: compliancePermissions.address,
+        redeemPermissionsAddress: compliancePermissions.address,
+        factoringPermissionsAddress: factoringPermissions.address,
+        bullaFactoringAddress: pool.address,
+        writeNewAddresses: false,
+    };
+
+    return { config, pool };
+}
@@ -0,0 +1,52 @@
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { startVerificationStubServer, StubServerOptions } from '../../../scripts/verification-stub-server';
+import { VerificationRequest } from '../../../scripts/utils/verifiers';
+
+// Runs the verification stub server on a free port, with uploads written to a temporary directory
+
+export type RunningStub = {
+    /** Base URL to set as VERIFIER_API_URL */
+    url: string;
+    /** Uploads the stub accepted or rejected, one file each */
+    uploads: () => string[];
+    close: () => Promise<void>;
+};
+
+/**
+ * Start a stub server and wait until it is listening
+ */
+export async function startStub(options: StubServerOptions = {}): Promise<RunningStub> {
+    const outDir = mkdtempSync(join(tmpdir(), 'verification-stub-'));
+    const server: Server = startVerificationStubServer(0, outDir, options);
+    await new Promise(resolve => server.once('listening', resolve));
+
+    return {
+        url: `http://localhost:${(server.address() as AddressInfo).port}`,
+        uploads: () => readdirSync(outDir),
+        close: async () => {
+            await new Promise(resolve => server.close(resolve));
+            rmSync(outDir, { recursive: true, force: true });
+        },
+    };
+}
+
+/**
+ * A request the stub accepts: a full solc version, a source path and a standard JSON input with sources and optimizer settings
+ */
+export function buildStubRequest(address: string): VerificationRequest {
+    return {
+        chainId: 8453,
+        address,
+        contractPath: 'contracts/Stub.sol:Stub',
+        compilerVersion: '0.8.30+commit.73712a01',
+        standardJsonInput: {
+            language: 'Solidity',
+            sources: { 'contracts/Stub.sol': { content: 'contract Stub {}' } },
+            settings: { optimizer: { enabled: true, runs: 200 } },
+        },
+    };
+}
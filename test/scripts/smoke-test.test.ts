@@ -0,0 +1,45 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { hasFailures, runPoolSmokeTest } from '../../scripts/smoke-test';
+import { skipWithoutForgeArtifacts } from './helpers/forge-artifacts';
+import { deployLocalStack, LocalStack } from './helpers/local-stack';
+
+describe('smoke-test', () => {
+    let stack: LocalStack;
+
+    before(async function () {
+        skipWithoutForgeArtifacts(this);
+        const [deployer, creditor] = await ethers.getSigners();
+        stack = await deployLocalStack(deployer, creditor.address);
+    });
+
+    it('passes a freshly deployed pool', async () => {
+        const report = await runPoolSmokeTest(ethers.provider, stack.config);
+
+        expect(hasFailures(report)).to.equal(false);
+        expect(report.checks.map(check => check.name)).to.include.members([
+            'BullaFactoring deployed',
+            'redemptionQueue.factoringContract',
+            'depositPermissions',
+            'redeemPermissions',
+            'factoringPermissions',
+            'invoiceProviderAdapter',
+            'bullaDao',
+            'protocolFeeBps',
+        ]);
+        expect(report.checks.find(check => check.name === 'BullaFrendLend callback')?.status).to.equal('unverified');
+    });
+
+    it('fails a pool wired to the wrong deposit permissions', async () => {
+        await (await stack.pool.setDepositPermissions(stack.config.factoringPermissionsAddress)).wait();
+
+        const report = await runPoolSmokeTest(ethers.provider, stack.config);
+
+        expect(hasFailures(report)).to.equal(true);
+        expect(report.checks.find(check => check.name === 'depositPermissions')).to.deep.include({
+            status: 'fail',
+            expected: stack.config.depositPermissionsAddress,
+            actual: stack.config.factoringPermissionsAddress,
+        });
+    });
+});
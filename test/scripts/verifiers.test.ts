@@ -0,0 +1,109 @@
+import { expect } from 'chai';
+import { Wallet } from 'ethers';
+import { VerifierBackend } from '../../scripts/utils/networks';
+import { createVerifier, Verifier } from '../../scripts/utils/verifiers';
+import { StubServerOptions } from '../../scripts/verification-stub-server';
+import { buildStubRequest, RunningStub, startStub } from './helpers/verification-stub';
+
+const API_KEY_ENV = 'STUB_VERIFIER_API_KEY';
+
+describe('verifiers', () => {
+    const saved = {
+        apiUrl: process.env.VERIFIER_API_URL,
+        pollInterval: process.env.VERIFIER_POLL_INTERVAL_MS,
+        apiKey: process.env[API_KEY_ENV],
+    };
+
+    before(() => {
+        process.env.VERIFIER_POLL_INTERVAL_MS = '0';
+        process.env[API_KEY_ENV] = 'stub-key';
+    });
+
+    after(() => {
+        for (const [name, value] of [
+            ['VERIFIER_API_URL', saved.apiUrl],
+            ['VERIFIER_POLL_INTERVAL_MS', saved.pollInterval],
+            [API_KEY_ENV, saved.apiKey],
+        ] as const) {
+            if (value === undefined) {
+                delete process.env[name];
+            } else {
+                process.env[name] = value;
+            }
+        }
+    });
+
+    for (const backend of ['etherscan', 'blockscout', 'sourcify'] as VerifierBackend[]) {
+        describe(backend, () => {
+            let stub: RunningStub | undefined;
+            const verifier: Verifier = createVerifier({ backend, apiUrl: 'https://unused.invalid/api', apiKeyEnv: API_KEY_ENV });
+
+            const useStub = async (options: StubServerOptions = {}): Promise<RunningStub> => {
+                stub = await startStub(options);
+                process.env.VERIFIER_API_URL = stub.url;
+                return stub;
+            };
+
+            afterEach(async () => {
+                await stub?.close();
+                stub = undefined;
+            });
+
+            it('verifies an accepted upload', async () => {
+                const running = await useStub();
+
+                const result = await verifier.verify(buildStubRequest(Wallet.createRandom().address));
+
+                expect(result).to.deep.equal({ success: true, retryable: false });
+                expect(running.uploads()).to.have.length(1);
+            });
+
+            it('keeps polling while the submission is pending', async () => {
+                await useStub({ pendingChecks: 3 });
+
+                const result = await verifier.verify(buildStubRequest(Wallet.createRandom().address));
+
+                expect(result).to.deep.equal({ success: true, retryable: false });
+            });
+
+            it('gives up on a submission that stays pending', async () => {
+                await useStub({ pendingChecks: 1000 });
+
+                const result = await verifier.verify(buildStubRequest(Wallet.createRandom().address));
+
+                expect(result.success).to.equal(false);
+                expect(result.retryable).to.equal(true);
+                expect(result.error).to.match(/still pending/i);
+            });
+
+            it('fails an upload the service rejects', async () => {
+                await useStub();
+                const request = buildStubRequest(Wallet.createRandom().address);
+                delete request.standardJsonInput.settings.optimizer;
+
+                const result = await verifier.verify(request);
+
+                expect(result.success).to.equal(false);
+                expect(result.error).to.contain('settings.optimizer missing');
+            });
+
+            it('reports an unavailable service as retryable', async () => {
+                const running = await useStub({ failedSubmissions: 1 });
+
+                const result = await verifier.verify(buildStubRequest(Wallet.createRandom().address));
+
+                expect(result.success).to.equal(false);
+                expect(result.retryable).to.equal(true);
+                expect(running.uploads()).to.have.length(0);
+            });
+        });
+    }
+
+    it('fails on Etherscan without an API key, without retrying', async () => {
+        const verifier = createVerifier({ backend: 'etherscan', apiUrl: 'https://unused.invalid/api', apiKeyEnv: 'UNSET_STUB_API_KEY' });
+
+        const result = await verifier.verify(buildStubRequest(Wallet.createRandom().address));
+
+        expect(result).to.deep.equal({ success: false, error: 'No etherscan API key: set UNSET_STUB_API_KEY', retryable: false });
+    });
+});
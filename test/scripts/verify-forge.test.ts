@@ -0,0 +1,161 @@
+import { expect } from 'chai';
+import { Wallet } from 'ethers';
+import { existsSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { getNetworkMetadata } from '../../scripts/utils/networks';
+import {
+    getUnverifiedRecords,
+    getVerificationRecord,
+    isVerifiedOn,
+    recordVerificationAttempt,
+    VERIFICATION_LEDGER_PATH,
+} from '../../scripts/utils/verification-ledger';
+import { verifyDeployments } from '../../scripts/utils/verify-forge';
+import { skipWithoutForgeArtifacts } from './helpers/forge-artifacts';
+import { RunningStub, startStub } from './helpers/verification-stub';
+
+// Base verifies on Etherscan, Blockscout and Sourcify; the runs below only use Sourcify, which needs no API key
+const NETWORK = 'base';
+const { chainId } = getNetworkMetadata(NETWORK);
+
+describe('verify-forge', () => {
+    let savedLedger: string | undefined;
+    let savedEnv: { apiUrl?: string; pollInterval?: string };
+    let stub: RunningStub | undefined;
+
+    before(() => {
+        // The ledger lives in deploy_info/, so keep whatever a real deployment left there
+        savedLedger = existsSync(VERIFICATION_LEDGER_PATH) ? readFileSync(VERIFICATION_LEDGER_PATH, 'utf-8') : undefined;
+        savedEnv = { apiUrl: process.env.VERIFIER_API_URL, pollInterval: process.env.VERIFIER_POLL_INTERVAL_MS };
+        process.env.VERIFIER_POLL_INTERVAL_MS = '0';
+    });
+
+    after(() => {
+        if (savedLedger === undefined) {
+            rmSync(VERIFICATION_LEDGER_PATH, { force: true });
+        } else {
+            writeFileSync(VERIFICATION_LEDGER_PATH, savedLedger);
+        }
+        for (const [name, value] of [
+            ['VERIFIER_API_URL', savedEnv.apiUrl],
+            ['VERIFIER_POLL_INTERVAL_MS', savedEnv.pollInterval],
+        ] as const) {
+            if (value === undefined) {
+                delete process.env[name];
+            } else {
+                process.env[name] = value;
+            }
+        }
+    });
+
+    afterEach(async () => {
+        await stub?.close();
+        stub = undefined;
+    });
+
+    describe('verification ledger', () => {
+        it('counts a contract as verified only once every required backend has verified it', () => {
+            const address = Wallet.createRandom().address;
+            const requiredBackends = ['etherscan', 'sourcify'] as const;
+
+            recordVerificationAttempt(chainId, address, {
+                status: 'verified',
+                backend: 'sourcify',
+                requiredBackends: [...requiredBackends],
+            });
+            let record = getVerificationRecord(chainId, address);
+            expect(record?.status).to.equal('failed');
+            expect(isVerifiedOn(record, 'sourcify')).to.equal(true);
+            expect(isVerifiedOn(record, 'etherscan')).to.equal(false);
+            expect(getUnverifiedRecords(chainId).map(unverified => unverified.address)).to.include(address);
+
+            recordVerificationAttempt(chainId, address, {
+                status: 'verified',
+                backend: 'etherscan',
+                requiredBackends: [...requiredBackends],
+            });
+            record = getVerificationRecord(chainId, address);
+            expect(record?.status).to.equal('verified');
+            expect(record?.attempts).to.equal(2);
+            expect(getUnverifiedRecords(chainId).map(unverified => unverified.address)).not.to.include(address);
+        });
+
+        it('keeps the error of a failed attempt until the backend verifies', () => {
+            const address = Wallet.createRandom().address;
+
+            recordVerificationAttempt(chainId, address, { status: 'failed', backend: 'sourcify', error: 'Service unavailable' });
+            expect(getVerificationRecord(chainId, address)?.backends?.sourcify).to.deep.include({
+                status: 'failed',
+                attempts: 1,
+                lastError: 'Service unavailable',
+            });
+
+            recordVerificationAttempt(chainId, address, { status: 'verified', backend: 'sourcify' });
+            const record = getVerificationRecord(chainId, address);
+            expect(record?.status).to.equal('verified');
+            expect(record?.lastError).to.be.undefined;
+            expect(record?.backends?.sourcify?.attempts).to.equal(2);
+        });
+    });
+
+    describe('verifyDeployments', () => {
+        it('skips contracts the ledger lists as verified', async () => {
+            stub = await startStub();
+            process.env.VERIFIER_API_URL = stub.url;
+            const address = Wallet.createRandom().address;
+            recordVerificationAttempt(chainId, address, { status: 'verified', backend: 'sourcify', contractName: 'MockUSDC' });
+
+            // Resolving the contract would need its artifact, so a skipped contract never gets that far
+            const summary = await verifyDeployments(NETWORK, [{ contractAddress: address, contractName: 'NotCompiled' }], {
+                backends: ['sourcify'],
+            });
+
+            expect(summary.alreadyVerified).to.deep.equal([`NotCompiled at ${address} (sourcify)`]);
+            expect(summary.verified).to.be.empty;
+            expect(summary.unresolved).to.be.empty;
+            expect(stub.uploads()).to.be.empty;
+        });
+
+        it('retries a submission the service could not take, and records every attempt', async function () {
+            skipWithoutForgeArtifacts(this);
+            stub = await startStub({ failedSubmissions: 1 });
+            process.env.VERIFIER_API_URL = stub.url;
+            const address = Wallet.createRandom().address;
+
+            // MockUSDC has no constructor arguments, so it resolves from its artifact alone (`yarn build:forge`)
+            const summary = await verifyDeployments(
+                NETWORK,
+                [{ contractAddress: address, contractName: 'MockUSDC', constructorArgs: [] }],
+                {
+                    backends: ['sourcify'],
+                    retryDelayMs: 0,
+                },
+            );
+
+            expect(summary.verified).to.deep.equal([`MockUSDC at ${address} (sourcify)`]);
+            expect(summary.failed).to.be.empty;
+            expect(getVerificationRecord(chainId, address)).to.deep.include({ status: 'verified', attempts: 2 });
+            expect(stub.uploads()).to.have.length(1);
+        });
+
+        it('gives up after maxAttempts and leaves the contract unverified', async function () {
+            skipWithoutForgeArtifacts(this);
+            stub = await startStub({ failedSubmissions: 2 });
+            process.env.VERIFIER_API_URL = stub.url;
+            const address = Wallet.createRandom().address;
+
+            const summary = await verifyDeployments(
+                NETWORK,
+                [{ contractAddress: address, contractName: 'MockUSDC', constructorArgs: [] }],
+                {
+                    backends: ['sourcify'],
+                    maxAttempts: 2,
+                    retryDelayMs: 0,
+                },
+            );
+
+            expect(summary.failed).to.deep.equal([`MockUSDC at ${address} (sourcify)`]);
+            expect(getVerificationRecord(chainId, address)).to.deep.include({ status: 'failed', attempts: 2 });
+            expect(getUnverifiedRecords(chainId).map(record => record.address)).to.include(address);
+        });
+    });
+});